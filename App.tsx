@@ -3,31 +3,89 @@ import React from "react";
 import { Text, TextInput } from "react-native";
 import { NavigationContainer } from "@react-navigation/native";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { Query, QueryClient } from "@tanstack/react-query";
+import { PersistQueryClientProvider } from "@tanstack/react-query-persist-client";
+import { createAsyncStoragePersister } from "@tanstack/query-async-storage-persister";
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import { SafeAreaProvider } from "react-native-safe-area-context";
+import { useFonts } from "expo-font";
 import { AuthProvider } from "./src/contexts/AuthContext";
 import { QuranProvider } from "./src/contexts/QuranContext";
 import { QuranAudioProvider } from "./src/contexts/QuranAudioContext";
 import ReadScreen from "./src/screens/ReadScreen";
+import SearchScreen from "./src/screens/SearchScreen";
+import TopicsScreen from "./src/screens/TopicsScreen";
+import TopicScreen from "./src/screens/TopicScreen";
 import { ThemeProvider } from "./src/contexts/ThemeContext";
+import { ReaderPreferencesProvider } from "./src/contexts/ReaderPreferencesContext";
+import { LanguageProvider } from "./src/contexts/LanguageContext";
+import { ArabicTextProvider } from "./src/contexts/ArabicTextContext";
+import { quranKeys } from "./src/services/quranQueries";
+import { LOCAL_SCHEMA_VERSION } from "./src/services/quranStoreFormat";
 import { useFonts as useScheherazade, ScheherazadeNew_400Regular, ScheherazadeNew_700Bold } from "@expo-google-fonts/scheherazade-new";
 import { useFonts as useAmiri, Amiri_400Regular, Amiri_700Bold } from "@expo-google-fonts/amiri";
 
 export type RootStackParamList = {
   Read: {
     surahNumber?: string;
+    // A verse, or a range such as "255-257"
     verse?: string;
     themeName?: string;
+    // Comma-separated word positions to highlight in `verse`
+    words?: string;
   };
   ReadTheme: {
     surahNumber?: string;
     verse?: string;
     themeName?: string;
+    words?: string;
+  };
+  Search: {
+    query?: string;
+    mode?: "text" | "root";
+  };
+  // Category list, or the themes of one category
+  Topics: {
+    categoryId?: string;
+  };
+  // Passages of one or more themes, possibly across surahs
+  Topic: {
+    // Comma-separated theme ids
+    themeIds: string;
+    title?: string;
   };
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
-const queryClient = new QueryClient();
+
+// Cached Quran responses survive restarts for a day
+const QUERY_CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      gcTime: QUERY_CACHE_MAX_AGE_MS,
+    },
+  },
+});
+
+const queryPersister = createAsyncStoragePersister({
+  storage: AsyncStorage,
+  key: "quranQueryCache",
+});
+
+const persistOptions = {
+  persister: queryPersister,
+  maxAge: QUERY_CACHE_MAX_AGE_MS,
+  // Drop the persisted cache whenever the content schema changes shape
+  buster: String(LOCAL_SCHEMA_VERSION),
+  dehydrateOptions: {
+    shouldDehydrateQuery: (query: Query) =>
+      query.state.status === "success" &&
+      query.queryKey[0] === quranKeys.all[0] &&
+      query.meta?.persist !== false,
+  },
+};
 
 const App = () => {
   if (Text.defaultProps == null) {
@@ -51,7 +109,17 @@ const App = () => {
     Amiri_700Bold,
   });
 
-  if (!scheherazadeLoaded || !amiriLoaded) {
+  // IndoPak script font, bundled since it is not on Google Fonts
+  const [indopakLoaded] = useFonts({
+    NooreHira: require("./assets/fonts/NooreHira.ttf"),
+  });
+
+  // KFGQPC Uthmanic font, bundled since it is not on Google Fonts
+  const [kfgqpcLoaded] = useFonts({
+    KFGQPCUthmanicHafs: require("./assets/fonts/KFGQPCUthmanicHafs.ttf"),
+  });
+
+  if (!scheherazadeLoaded || !amiriLoaded || !indopakLoaded || !kfgqpcLoaded) {
     return null;
   }
 
@@ -61,28 +129,40 @@ const App = () => {
       screens: {
         Read: "read/:surahNumber?/:verse?",
         ReadTheme: "read/:surahNumber/theme/:themeName",
+        Search: "search",
+        Topics: "topics/:categoryId?",
+        Topic: "topics/themes/:themeIds",
       },
     },
   };
 
   return (
     <SafeAreaProvider>
-      <QueryClientProvider client={queryClient}>
+      <PersistQueryClientProvider client={queryClient} persistOptions={persistOptions}>
         <AuthProvider>
-          <ThemeProvider>
-            <QuranProvider>
-              <QuranAudioProvider>
-                <NavigationContainer linking={linking}>
-                  <Stack.Navigator screenOptions={{ headerShown: false }}>
-                    <Stack.Screen name="Read" component={ReadScreen} />
-                    <Stack.Screen name="ReadTheme" component={ReadScreen} />
-                  </Stack.Navigator>
-                </NavigationContainer>
-              </QuranAudioProvider>
-            </QuranProvider>
-          </ThemeProvider>
+          <ReaderPreferencesProvider>
+            <ThemeProvider>
+              <LanguageProvider>
+                <ArabicTextProvider>
+                  <QuranProvider>
+                    <QuranAudioProvider>
+                      <NavigationContainer linking={linking}>
+                        <Stack.Navigator screenOptions={{ headerShown: false }}>
+                          <Stack.Screen name="Read" component={ReadScreen} />
+                          <Stack.Screen name="ReadTheme" component={ReadScreen} />
+                          <Stack.Screen name="Search" component={SearchScreen} />
+                          <Stack.Screen name="Topics" component={TopicsScreen} />
+                          <Stack.Screen name="Topic" component={TopicScreen} />
+                        </Stack.Navigator>
+                      </NavigationContainer>
+                    </QuranAudioProvider>
+                  </QuranProvider>
+                </ArabicTextProvider>
+              </LanguageProvider>
+            </ThemeProvider>
+          </ReaderPreferencesProvider>
         </AuthProvider>
-      </QueryClientProvider>
+      </PersistQueryClientProvider>
     </SafeAreaProvider>
   );
 };
@@ -0,0 +1,8 @@
+const { getDefaultConfig } = require("expo/metro-config");
+
+const config = getDefaultConfig(__dirname);
+
+// The Quran content tables ship as a prebuilt SQLite database
+config.resolver.assetExts.push("db");
+
+module.exports = config;
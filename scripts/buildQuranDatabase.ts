@@ -0,0 +1,122 @@
+// Builds assets/quran.db, the copy of the Quran content tables bundled with the
+// app, from the Quran API. Run `npm run build:quran-db` before a release and
+// whenever the local tables change.
+
+import { existsSync, writeFileSync } from "fs";
+import path from "path";
+import initSqlJs, { Database, SqlValue } from "sql.js";
+import {
+  LOCAL_TABLE_NAMES,
+  LocalTableName,
+  getTableDefinition,
+} from "../src/services/quranSchema";
+import {
+  CONTENT_VERSION_KEY,
+  LOCAL_SCHEMA_VERSION,
+  META_TABLE,
+  SCHEMA_VERSION_KEY,
+  createTableSql,
+} from "../src/services/quranStoreFormat";
+
+const PROJECT_ROOT = path.resolve(__dirname, "..");
+const OUTPUT_PATH = path.join(PROJECT_ROOT, "assets", "quran.db");
+// Rows requested per page
+const PAGE_SIZE = 1000;
+
+type Row = Record<string, unknown>;
+
+const runRemoteQuery = async (sql: string, params: unknown[]): Promise<Row[]> => {
+  const response = await fetch(`${process.env.EXPO_PUBLIC_QURAN_API_BASE_URL}/api/quran/query`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ sql, params }),
+  });
+  const body = await response.json();
+  if (!body.success) {
+    throw new Error(body.message || `Query failed: ${sql}`);
+  }
+  return body.data;
+};
+
+const toSqlValue = (value: unknown): SqlValue => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "number" || typeof value === "string") return value;
+  return JSON.stringify(value);
+};
+
+// Copy one table page by page, in primary key order
+const copyTable = async (db: Database, table: LocalTableName): Promise<number> => {
+  const { columns, primaryKey } = getTableDefinition(table);
+  const names = Object.keys(columns);
+  const insert = db.prepare(
+    `INSERT INTO ${table} (${names.join(", ")})
+     VALUES (${names.map(() => "?").join(", ")})`
+  );
+
+  try {
+    for (let offset = 0; ; ) {
+      const rows = await runRemoteQuery(
+        `SELECT ${names.join(", ")}
+         FROM ${table}
+         ORDER BY ${primaryKey.join(", ")}
+         LIMIT ? OFFSET ?`,
+        [PAGE_SIZE, offset]
+      );
+      for (const row of rows) {
+        insert.run(names.map((column) => toSqlValue(row[column])));
+      }
+      offset += rows.length;
+      if (rows.length < PAGE_SIZE) {
+        return offset;
+      }
+    }
+  } finally {
+    insert.free();
+  }
+};
+
+const main = async () => {
+  const envFile = path.join(PROJECT_ROOT, ".env");
+  if (existsSync(envFile)) {
+    process.loadEnvFile(envFile);
+  }
+  if (!process.env.EXPO_PUBLIC_QURAN_API_BASE_URL) {
+    throw new Error("Missing EXPO_PUBLIC_QURAN_API_BASE_URL");
+  }
+
+  // Read the version first: edits published while the tables are copied are
+  // applied again by the app's first content sync, and upserts are idempotent
+  const [manifest] = await runRemoteQuery(
+    "SELECT version FROM ContentVersions ORDER BY version DESC LIMIT 1",
+    []
+  );
+  const contentVersion = Number(manifest?.version ?? 0);
+
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  try {
+    db.run(`CREATE TABLE ${META_TABLE} (key TEXT PRIMARY KEY, value TEXT)`);
+    for (const table of LOCAL_TABLE_NAMES) {
+      db.exec(createTableSql(table));
+      console.log(`${table}: ${await copyTable(db, table)} rows`);
+    }
+    db.run(`INSERT INTO ${META_TABLE} (key, value) VALUES (?, ?), (?, ?)`, [
+      SCHEMA_VERSION_KEY,
+      String(LOCAL_SCHEMA_VERSION),
+      CONTENT_VERSION_KEY,
+      String(contentVersion),
+    ]);
+    writeFileSync(OUTPUT_PATH, db.export());
+  } finally {
+    db.close();
+  }
+  console.log(`Wrote ${path.relative(PROJECT_ROOT, OUTPUT_PATH)} at content version ${contentVersion}`);
+};
+
+main().catch((error) => {
+  console.error("Failed to build the Quran database:", error);
+  process.exit(1);
+});
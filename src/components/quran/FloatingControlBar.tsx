@@ -5,15 +5,21 @@ import {
   TouchableOpacity,
   StyleSheet,
   Modal,
+  ScrollView,
   TextInput,
   Animated,
   Easing,
+  useWindowDimensions,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import Slider from "@react-native-community/slider";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useQuranAudio } from "../../contexts/QuranAudioContext";
 import { useTheme } from "../../contexts/ThemeContext";
+import { ReadingMode } from "../../contexts/ReaderPreferencesContext";
+import ReciterPicker from "./ReciterPicker";
+import PlaybackQueuePanel from "./PlaybackQueuePanel";
+import { getRepeatPassCount } from "../../services/quranRepeatPlan";
 
 interface FloatingControlBarProps {
   surahId: number;
@@ -26,19 +32,22 @@ interface FloatingControlBarProps {
   showArabic: boolean;
   showTranslation: boolean;
   showTransliteration: boolean;
+  showWordByWord: boolean;
   onDisplayToggle: (setting: string, value: boolean) => void;
   onPrevSurah: () => void;
   onNextSurah: () => void;
   currentSurah: string;
   searchQuery: string;
   onSearchChange: (query: string) => void;
+  onSearchQuran: (query: string) => void;
   isCurrentVerseBookmarked: boolean;
   onToggleBookmark: () => void;
   currentStreak: number;
   completionPercentage: number;
+  currentJuz: number;
   hasPremiumAccess: boolean;
-  readingMode: "regular" | "thematic";
-  onReadingModeChange: (mode: "regular" | "thematic") => void;
+  readingMode: ReadingMode;
+  onReadingModeChange: (mode: ReadingMode) => void;
   hasThematicContent: boolean;
   onRequestUpgrade: () => void;
   isVisible: boolean;
@@ -55,16 +64,19 @@ const FloatingControlBar = ({
   showArabic,
   showTranslation,
   showTransliteration,
+  showWordByWord,
   onDisplayToggle,
   onPrevSurah,
   onNextSurah,
   currentSurah,
   searchQuery,
   onSearchChange,
+  onSearchQuran,
   isCurrentVerseBookmarked,
   onToggleBookmark,
   currentStreak,
   completionPercentage,
+  currentJuz,
   hasPremiumAccess,
   readingMode,
   onReadingModeChange,
@@ -85,7 +97,13 @@ const FloatingControlBar = ({
     duration,
     playSurah,
     pause,
+    resume,
     seekTo,
+    stopPreview,
+    hasVerseTimings,
+    repeatPlan,
+    repeatPosition,
+    stopRepeat,
   } = useQuranAudio();
 
   const isPlaying = playbackState === "playing";
@@ -98,11 +116,29 @@ const FloatingControlBar = ({
   const handlePlayPause = () => {
     if (isPlaying) {
       pause();
+    } else if (repeatPlan) {
+      // Picks the plan up where it paused rather than playing the surah
+      resume();
     } else {
       playSurah(surahId);
     }
   };
 
+  const repeatSummary =
+    repeatPlan && repeatPosition
+      ? [
+          `Verse ${repeatPosition.verseNumber}: ${repeatPosition.verseRepetition} of ${repeatPlan.verseRepeats}`,
+          repeatPlan.buildUp
+            ? `Round ${repeatPosition.passEnd - repeatPlan.startVerse + 1} of ${getRepeatPassCount(repeatPlan)}`
+            : null,
+          repeatPlan.rangeRepeats > 1
+            ? `Range ${repeatPosition.rangeRepetition} of ${repeatPlan.rangeRepeats}`
+            : null,
+        ]
+          .filter(Boolean)
+          .join(" · ")
+      : null;
+
   const handlePrevious = () => {
     const targetVerse = Math.max(1, currentVerseNumber - 1);
     playSurah(surahId, targetVerse);
@@ -130,6 +166,7 @@ const FloatingControlBar = ({
         label: "Thematic",
         description: "Grouped with footnotes",
       },
+      { key: "mushaf", label: "Mushaf", description: "Page by page, as printed" },
     ],
     []
   );
@@ -177,7 +214,11 @@ const FloatingControlBar = ({
           style={[styles.iconButton, { borderColor: colors.border }]}
           onPress={() => toggleModal("audio")}
         >
-          <Ionicons name="volume-high" size={16} color={colors.foreground} />
+          <Ionicons
+            name={repeatPlan ? "repeat" : "volume-high"}
+            size={16}
+            color={repeatPlan ? colors.primary : colors.foreground}
+          />
         </TouchableOpacity>
         <TouchableOpacity
           style={[styles.iconButton, { borderColor: colors.border }]}
@@ -210,7 +251,13 @@ const FloatingControlBar = ({
             onPress={() => toggleModal("mode")}
           >
             <Ionicons
-              name={readingMode === "thematic" ? "layers" : "list"}
+              name={
+                readingMode === "thematic"
+                  ? "layers"
+                  : readingMode === "mushaf"
+                    ? "book"
+                    : "list"
+              }
               size={16}
               color={colors.foreground}
             />
@@ -218,23 +265,64 @@ const FloatingControlBar = ({
         ) : null}
       </Animated.View>
 
-      <ControlModal visible={activeModal === "audio"} onClose={() => setActiveModal(null)} title="Audio Player" colors={colors}>
+      <ControlModal
+        visible={activeModal === "audio"}
+        onClose={() => {
+          stopPreview();
+          setActiveModal(null);
+        }}
+        title="Audio Player"
+        colors={colors}
+      >
         <Text style={[styles.modalMuted, { color: colors.textSecondary }]}>
           {currentVerseKey ? `Verse ${currentVerseKey.split(":")[1]}` : `Verse ${currentVerseNumber}`}
         </Text>
+        {repeatPlan ? (
+          <View style={[styles.repeatCard, { borderColor: colors.border }]}>
+            <View style={styles.rowBetween}>
+              <Text style={[styles.modalLabel, { color: colors.foreground }]}>
+                Repeating {repeatPlan.surahId}:{repeatPlan.startVerse}
+                {repeatPlan.endVerse > repeatPlan.startVerse ? `–${repeatPlan.endVerse}` : ""}
+              </Text>
+              <TouchableOpacity
+                style={[styles.resetButton, { borderColor: colors.border }]}
+                onPress={stopRepeat}
+              >
+                <Text style={[styles.resetLabel, { color: colors.primary }]}>Stop</Text>
+              </TouchableOpacity>
+            </View>
+            {repeatSummary ? (
+              <Text style={[styles.modalMuted, { color: colors.textSecondary }]}>
+                {repeatSummary}
+              </Text>
+            ) : null}
+          </View>
+        ) : null}
         <TouchableOpacity
           style={[styles.primaryButton, { backgroundColor: colors.primary }]}
           onPress={handlePlayPause}
           disabled={isLoading}
         >
           <Text style={[styles.primaryButtonText, { color: colors.primaryForeground }]}>
-            {isLoading ? "Loading..." : isPlaying ? "Pause Surah" : "Play Surah"}
+            {isLoading
+              ? "Loading..."
+              : isPlaying
+                ? "Pause Surah"
+                : repeatPlan
+                  ? "Resume Repeat"
+                  : "Play Surah"}
           </Text>
         </TouchableOpacity>
         <View style={styles.audioRow}>
           <TouchableOpacity
-            style={[styles.iconButton, { borderColor: colors.border }]}
+            style={[
+              styles.iconButton,
+              { borderColor: colors.border },
+              !hasVerseTimings && styles.iconButtonDisabled,
+            ]}
             onPress={handlePrevious}
+            // Skipping needs verse timings, which some reciters don't have
+            disabled={!hasVerseTimings}
           >
             <Ionicons name="play-back" size={16} color={colors.foreground} />
           </TouchableOpacity>
@@ -249,8 +337,13 @@ const FloatingControlBar = ({
             <Ionicons name={isPlaying ? "pause" : "play"} size={18} color={colors.primaryForeground} />
           </TouchableOpacity>
           <TouchableOpacity
-            style={[styles.iconButton, { borderColor: colors.border }]}
+            style={[
+              styles.iconButton,
+              { borderColor: colors.border },
+              !hasVerseTimings && styles.iconButtonDisabled,
+            ]}
             onPress={handleNext}
+            disabled={!hasVerseTimings}
           >
             <Ionicons name="play-forward" size={16} color={colors.foreground} />
           </TouchableOpacity>
@@ -263,6 +356,8 @@ const FloatingControlBar = ({
           minimumTrackTintColor={colors.primary}
           maximumTrackTintColor={colors.border}
         />
+        <ReciterPicker />
+        <PlaybackQueuePanel surahId={surahId} />
       </ControlModal>
 
       <ControlModal visible={activeModal === "display"} onClose={() => setActiveModal(null)} title="Display Settings" colors={colors}>
@@ -324,6 +419,11 @@ const FloatingControlBar = ({
           value={showTransliteration}
           onToggle={(value) => onDisplayToggle("showTransliteration", value)}
         />
+        <ToggleRow
+          label="Word by Word"
+          value={showWordByWord}
+          onToggle={(value) => onDisplayToggle("showWordByWord", value)}
+        />
       </ControlModal>
 
       <ControlModal visible={activeModal === "nav"} onClose={() => setActiveModal(null)} title="Surah Navigation" colors={colors}>
@@ -346,6 +446,17 @@ const FloatingControlBar = ({
           value={searchQuery}
           onChangeText={onSearchChange}
         />
+        <TouchableOpacity
+          style={[styles.searchAllButton, { borderColor: colors.border }]}
+          onPress={() => {
+            setActiveModal(null);
+            onSearchQuran(searchQuery);
+          }}
+        >
+          <Text style={[styles.secondaryButtonText, { color: colors.foreground }]}>
+            Search the whole Quran
+          </Text>
+        </TouchableOpacity>
       </ControlModal>
 
       <ControlModal visible={activeModal === "progress"} onClose={() => setActiveModal(null)} title="Your Progress" colors={colors}>
@@ -353,6 +464,10 @@ const FloatingControlBar = ({
           <Text style={[styles.modalLabel, { color: colors.foreground }]}>Current Streak</Text>
           <Text style={[styles.modalValue, { color: colors.primary }]}>{currentStreak} days</Text>
         </View>
+        <View style={styles.rowBetween}>
+          <Text style={[styles.modalLabel, { color: colors.foreground }]}>Reading in</Text>
+          <Text style={[styles.modalValue, { color: colors.primary }]}>Juz {currentJuz} of 30</Text>
+        </View>
         <View style={styles.progressBar}>
           <View style={[styles.progressFill, { width: `${completionPercentage}%`, backgroundColor: colors.primary }]} />
         </View>
@@ -377,7 +492,7 @@ const FloatingControlBar = ({
                   if (option.key === "thematic" && !hasPremiumAccess) {
                     onRequestUpgrade();
                   } else {
-                    onReadingModeChange(option.key as "regular" | "thematic");
+                    onReadingModeChange(option.key as ReadingMode);
                     setActiveModal(null);
                   }
                 }}
@@ -436,6 +551,7 @@ const ControlModal = ({
   colors: { background: string; border: string; foreground: string };
 }) => {
   const insets = useSafeAreaInsets();
+  const { height } = useWindowDimensions();
   return (
     <Modal visible={visible} transparent animationType="none">
       <TouchableOpacity style={styles.backdrop} onPress={onClose} />
@@ -454,7 +570,10 @@ const ControlModal = ({
             <Ionicons name="close" size={20} color={colors.foreground} />
           </TouchableOpacity>
         </View>
-        <View style={styles.modalBody}>{children}</View>
+        {/* The audio sheet's reciter and queue lists can outgrow the screen */}
+        <ScrollView style={{ maxHeight: height * 0.7 }} contentContainerStyle={styles.modalBody}>
+          {children}
+        </ScrollView>
       </View>
     </Modal>
   );
@@ -482,6 +601,9 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center",
   },
+  iconButtonDisabled: {
+    opacity: 0.4,
+  },
   streakBadge: {
     position: "absolute",
     top: -6,
@@ -574,6 +696,12 @@ const styles = StyleSheet.create({
     color: "#ffffff",
     fontWeight: "600",
   },
+  repeatCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 10,
+    gap: 6,
+  },
   audioRow: {
     flexDirection: "row",
     justifyContent: "center",
@@ -590,6 +718,12 @@ const styles = StyleSheet.create({
     paddingHorizontal: 10,
     paddingVertical: 8,
   },
+  searchAllButton: {
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: "center",
+  },
   progressBar: {
     height: 8,
     backgroundColor: "#1f1f1f",
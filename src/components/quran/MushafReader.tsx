@@ -0,0 +1,363 @@
+import React, { memo, useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Vibration,
+  View,
+  useWindowDimensions,
+} from "react-native";
+import { useQuery } from "@tanstack/react-query";
+import { useTheme } from "../../contexts/ThemeContext";
+import { useArabicText } from "../../contexts/ArabicTextContext";
+import { useQuranAudio } from "../../contexts/QuranAudioContext";
+import { mushafPageQuery } from "../../services/quranQueries";
+import {
+  MUSHAF_PAGE_COUNT,
+  MushafLine,
+  getMushafFontSize,
+  isMushafPage,
+} from "../../services/quranMushaf";
+import { getQuranErrorMessage, toQuranQueryError } from "../../services/quranErrors";
+import { toArabicNumeral } from "../../utils/arabicNumerals";
+
+const BISMILLAH = "بِسْمِ ٱللَّهِ ٱلرَّحْمَـٰنِ ٱلرَّحِيمِ";
+const PAGES = Array.from({ length: MUSHAF_PAGE_COUNT }, (_, index) => index + 1);
+
+// Al-Fatiha and the opening of Al-Baqarah are set as centred lines in the mushaf
+const isCentredPage = (pageNumber: number) => pageNumber <= 2;
+
+// Page padding, frame padding and frame border on both sides of a line
+const LINE_INSET = 2 * (12 + 4 + 1);
+
+interface MushafReaderProps {
+  page: number;
+  onPageChange: (page: number) => void;
+  arabicFontSize: number;
+  onBookmarkVerse: (surahNumber: number, verseNumber: number) => void;
+  isVerseBookmarked: (surahNumber: number, verseNumber: number) => boolean;
+}
+
+interface MushafPageViewProps {
+  pageNumber: number;
+  width: number;
+  arabicFontSize: number;
+  onBookmarkVerse: (surahNumber: number, verseNumber: number) => void;
+  isVerseBookmarked: (surahNumber: number, verseNumber: number) => boolean;
+}
+
+const MushafPageView = memo(function MushafPageView({
+  pageNumber,
+  width,
+  arabicFontSize,
+  onBookmarkVerse,
+  isVerseBookmarked,
+}: MushafPageViewProps) {
+  const { colors } = useTheme();
+  const { getArabicFontStyle } = useArabicText();
+  const { currentVerseKey, playbackState, playVerse, pause } = useQuranAudio();
+  const { data, error, isPending, refetch } = useQuery(mushafPageQuery(pageNumber));
+
+  // The widest line has to fit the screen, so the reader's size is an upper bound
+  const fontSize = data
+    ? getMushafFontSize(data, width - LINE_INSET, arabicFontSize)
+    : arabicFontSize;
+  // Mushaf pages are always Uthmani, whichever script the reader shows
+  const fontStyle = getArabicFontStyle("uthmani", fontSize);
+  const { lineHeight } = fontStyle;
+  const isPlaying = playbackState === "playing";
+
+  const renderLine = (line: MushafLine, index: number) => {
+    if (line.type === "surahHeader") {
+      return (
+        <View
+          key={`header-${line.surahNumber}`}
+          style={[styles.surahHeader, { borderColor: colors.primary, minHeight: lineHeight }]}
+        >
+          <Text
+            style={[
+              styles.surahHeaderText,
+              { color: colors.primary, fontFamily: fontStyle.fontFamily, fontSize },
+            ]}
+            numberOfLines={1}
+            adjustsFontSizeToFit
+          >
+            سُورَةُ {line.nameArabic}
+          </Text>
+        </View>
+      );
+    }
+    if (line.type === "bismillah") {
+      return (
+        <Text
+          key={`bismillah-${line.surahNumber}`}
+          style={[
+            styles.bismillah,
+            fontStyle,
+            { color: colors.foreground },
+          ]}
+          numberOfLines={1}
+          adjustsFontSizeToFit
+        >
+          {BISMILLAH}
+        </Text>
+      );
+    }
+    return (
+      <View
+        key={`line-${line.lineNumber}-${index}`}
+        style={[
+          styles.line,
+          {
+            minHeight: lineHeight,
+            justifyContent:
+              isCentredPage(pageNumber) || line.words.length < 3 ? "center" : "space-between",
+          },
+        ]}
+      >
+        {line.words.map((word) => {
+          const isActiveVerse = isPlaying && currentVerseKey === word.verseKey;
+          const isBookmarked = isVerseBookmarked(word.surahNumber, word.verseNumber);
+          return (
+            <Text
+              key={`${word.verseKey}:${word.position}`}
+              style={[
+                fontStyle,
+                { color: isActiveVerse ? colors.primary : colors.foreground },
+              ]}
+              onLongPress={() => {
+                Vibration.vibrate(10);
+                onBookmarkVerse(word.surahNumber, word.verseNumber);
+              }}
+            >
+              {word.text}
+              {word.isVerseEnd ? (
+                <Text
+                  style={{
+                    color: isBookmarked || isActiveVerse ? colors.primary : colors.textSecondary,
+                  }}
+                  onPress={() =>
+                    isActiveVerse ? pause() : playVerse(word.surahNumber, word.verseNumber)
+                  }
+                >
+                  {" "}﴿{toArabicNumeral(word.verseNumber)}﴾
+                </Text>
+              ) : null}
+            </Text>
+          );
+        })}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.page, { width }]}>
+      {isPending ? (
+        <View style={styles.status}>
+          <ActivityIndicator color={colors.primary} />
+        </View>
+      ) : error ? (
+        <View style={styles.status}>
+          <Text style={[styles.statusText, { color: colors.textSecondary }]}>
+            {getQuranErrorMessage(toQuranQueryError(error))}
+          </Text>
+          <Pressable
+            onPress={() => refetch()}
+            style={[styles.retryButton, { backgroundColor: colors.primary }]}
+          >
+            <Text style={[styles.retryLabel, { color: colors.primaryForeground }]}>
+              Try again
+            </Text>
+          </Pressable>
+        </View>
+      ) : (
+        <View style={[styles.frame, { borderColor: colors.border, backgroundColor: colors.card }]}>
+          {data.lines.map(renderLine)}
+        </View>
+      )}
+      <Text style={[styles.pageNumber, { color: colors.textSecondary }]}>
+        {toArabicNumeral(pageNumber)}
+      </Text>
+    </View>
+  );
+});
+
+const MushafReader = ({
+  page,
+  onPageChange,
+  arabicFontSize,
+  onBookmarkVerse,
+  isVerseBookmarked,
+}: MushafReaderProps) => {
+  const { colors } = useTheme();
+  const { width } = useWindowDimensions();
+  const listRef = useRef<FlatList<number>>(null);
+  const visiblePageRef = useRef(page);
+  const [jumpValue, setJumpValue] = useState("");
+
+  // Follow page changes made outside the pager, such as picking a surah
+  useEffect(() => {
+    if (page === visiblePageRef.current) return;
+    visiblePageRef.current = page;
+    listRef.current?.scrollToIndex({ index: page - 1, animated: false });
+  }, [page]);
+
+  const handleMomentumEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const nextPage = Math.round(event.nativeEvent.contentOffset.x / width) + 1;
+    if (!isMushafPage(nextPage) || nextPage === visiblePageRef.current) return;
+    visiblePageRef.current = nextPage;
+    onPageChange(nextPage);
+  };
+
+  const handleJump = () => {
+    const target = parseInt(jumpValue, 10);
+    setJumpValue("");
+    if (isMushafPage(target)) {
+      onPageChange(target);
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.jumpRow}>
+        <Text style={[styles.jumpLabel, { color: colors.textSecondary }]}>
+          Page {page} of {MUSHAF_PAGE_COUNT}
+        </Text>
+        <TextInput
+          style={[styles.jumpInput, { borderColor: colors.border, color: colors.foreground }]}
+          value={jumpValue}
+          onChangeText={setJumpValue}
+          onSubmitEditing={handleJump}
+          placeholder="Go to"
+          placeholderTextColor={colors.textSecondary}
+          keyboardType="number-pad"
+          returnKeyType="go"
+          maxLength={3}
+        />
+        <TouchableOpacity
+          style={[styles.jumpButton, { borderColor: colors.border }]}
+          onPress={handleJump}
+        >
+          <Text style={[styles.jumpButtonLabel, { color: colors.primary }]}>Go</Text>
+        </TouchableOpacity>
+      </View>
+      {/* Inverted so the next page sits to the left, as in a printed mushaf */}
+      <FlatList
+        ref={listRef}
+        data={PAGES}
+        keyExtractor={(pageNumber) => String(pageNumber)}
+        horizontal
+        inverted
+        pagingEnabled
+        showsHorizontalScrollIndicator={false}
+        initialScrollIndex={page - 1}
+        getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+        windowSize={3}
+        initialNumToRender={1}
+        maxToRenderPerBatch={2}
+        onMomentumScrollEnd={handleMomentumEnd}
+        renderItem={({ item }) => (
+          <MushafPageView
+            pageNumber={item}
+            width={width}
+            arabicFontSize={arabicFontSize}
+            onBookmarkVerse={onBookmarkVerse}
+            isVerseBookmarked={isVerseBookmarked}
+          />
+        )}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  jumpRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  jumpLabel: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  jumpInput: {
+    width: 72,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    fontSize: 14,
+    textAlign: "center",
+  },
+  jumpButton: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 5,
+  },
+  jumpButtonLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  page: {
+    paddingHorizontal: 12,
+  },
+  frame: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 4,
+    paddingVertical: 12,
+  },
+  line: {
+    flexDirection: "row-reverse",
+    alignItems: "center",
+  },
+  surahHeader: {
+    borderWidth: 1.5,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+    marginVertical: 4,
+  },
+  surahHeaderText: {
+    textAlign: "center",
+  },
+  bismillah: {
+    textAlign: "center",
+  },
+  pageNumber: {
+    textAlign: "center",
+    fontSize: 14,
+    marginTop: 8,
+  },
+  status: {
+    minHeight: 320,
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 12,
+  },
+  statusText: {
+    fontSize: 14,
+    textAlign: "center",
+  },
+  retryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  retryLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
+
+export default MushafReader;
@@ -0,0 +1,203 @@
+import React from "react";
+import { Pressable, ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "../../contexts/ThemeContext";
+import { useQuran } from "../../contexts/QuranContext";
+import { useQuranAudio } from "../../contexts/QuranAudioContext";
+import { JUZ_COUNT } from "../../services/quranDivisions";
+import {
+  QueueItem,
+  formatQueueItem,
+  getJuzQueue,
+  getSurahRunQueue,
+} from "../../services/quranPlaybackQueue";
+
+interface PlaybackQueuePanelProps {
+  // Surah open in the reader, offered as the starting point for the presets
+  surahId: number;
+}
+
+const PlaybackQueuePanel = ({ surahId }: PlaybackQueuePanelProps) => {
+  const { colors } = useTheme();
+  const { getSurahByNumber } = useQuran();
+  const {
+    playbackQueue,
+    continuousPlayback,
+    setContinuousPlayback,
+    playQueue,
+    addToQueue,
+    removeFromQueue,
+    clearQueue,
+  } = useQuranAudio();
+
+  const getItemLabel = (item: QueueItem) =>
+    formatQueueItem(
+      item,
+      getSurahByNumber(item.surahId)?.transliteration ?? `Surah ${item.surahId}`
+    );
+
+  const presets = [
+    // Juz 'Amma is the last juz, the short surahs most often listened through
+    {
+      key: "juzAmma",
+      label: "Juz 'Amma",
+      onPress: () => playQueue(getJuzQueue(JUZ_COUNT)),
+    },
+    {
+      key: "fromHere",
+      label: "From this surah",
+      onPress: () => playQueue(getSurahRunQueue(surahId)),
+    },
+    { key: "quran", label: "Whole Quran", onPress: () => playQueue(getSurahRunQueue(1)) },
+    { key: "add", label: "Queue this surah", onPress: () => addToQueue({ surahId }) },
+  ];
+
+  return (
+    <View style={styles.panel}>
+      <Text style={[styles.heading, { color: colors.foreground }]}>Continuous play</Text>
+      <Pressable
+        style={styles.row}
+        onPress={() => setContinuousPlayback(!continuousPlayback)}
+        accessibilityState={{ checked: continuousPlayback }}
+      >
+        <Text style={[styles.label, { color: colors.foreground }]}>
+          Continue to the next surah
+        </Text>
+        <Ionicons
+          name={continuousPlayback ? "checkbox" : "square-outline"}
+          size={22}
+          color={continuousPlayback ? colors.primary : colors.textSecondary}
+        />
+      </Pressable>
+      <View style={styles.presets}>
+        {presets.map((preset) => (
+          <TouchableOpacity
+            key={preset.key}
+            style={[styles.preset, { borderColor: colors.border }]}
+            onPress={preset.onPress}
+          >
+            <Text style={[styles.presetLabel, { color: colors.foreground }]}>
+              {preset.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {playbackQueue ? (
+        <>
+          <View style={styles.row}>
+            <Text style={[styles.heading, { color: colors.foreground }]}>
+              Queue · {playbackQueue.index + 1} of {playbackQueue.items.length}
+            </Text>
+            <TouchableOpacity onPress={clearQueue} hitSlop={8}>
+              <Text style={[styles.clear, { color: colors.primary }]}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+          <ScrollView style={styles.list} nestedScrollEnabled>
+            {playbackQueue.items.map((item, index) => {
+              const isCurrent = index === playbackQueue.index;
+              return (
+                <View
+                  key={`${index}-${item.surahId}-${item.startVerse ?? ""}`}
+                  style={[styles.item, { borderColor: colors.border }]}
+                >
+                  <TouchableOpacity
+                    style={styles.itemLabelWrap}
+                    onPress={() => playQueue(playbackQueue.items, index)}
+                  >
+                    <Text
+                      style={[
+                        styles.itemLabel,
+                        {
+                          color: isCurrent
+                            ? colors.primary
+                            : index < playbackQueue.index
+                              ? colors.textSecondary
+                              : colors.foreground,
+                        },
+                        isCurrent && styles.itemLabelCurrent,
+                      ]}
+                      numberOfLines={1}
+                    >
+                      {getItemLabel(item)}
+                    </Text>
+                  </TouchableOpacity>
+                  {isCurrent ? (
+                    <Ionicons name="volume-medium" size={16} color={colors.primary} />
+                  ) : (
+                    <TouchableOpacity
+                      onPress={() => removeFromQueue(index)}
+                      hitSlop={6}
+                      accessibilityLabel={`Remove ${getItemLabel(item)} from the queue`}
+                    >
+                      <Ionicons name="close" size={16} color={colors.textSecondary} />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              );
+            })}
+          </ScrollView>
+        </>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  panel: {
+    gap: 8,
+    marginTop: 8,
+  },
+  heading: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  label: {
+    fontSize: 14,
+  },
+  presets: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  preset: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  presetLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  clear: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  list: {
+    maxHeight: 180,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  itemLabelWrap: {
+    flex: 1,
+  },
+  itemLabel: {
+    fontSize: 13,
+  },
+  itemLabelCurrent: {
+    fontWeight: "700",
+  },
+});
+
+export default PlaybackQueuePanel;
@@ -1,22 +1,31 @@
 import React, { memo, useState, useEffect, useRef } from "react";
-import { View, Text, StyleSheet, TouchableOpacity, Animated, Platform } from "react-native";
-import { Verse, ThematicPassage } from "../../contexts/QuranContext";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Pressable,
+  Animated,
+  Platform,
+  Vibration,
+} from "react-native";
+import { Verse, ThematicPassage, useQuran } from "../../contexts/QuranContext";
 import { stripFootnoteTags } from "../../utils/stripFootnoteTags";
+import { toArabicNumeral } from "../../utils/arabicNumerals";
+import { VerseRange } from "../../utils/verseRange";
+import {
+  getHizbOfRub,
+  getJuzOfRub,
+  getRubQuarter,
+  isJuzStart,
+} from "../../services/quranDivisions";
 import { useQuranAudio } from "../../contexts/QuranAudioContext";
 import NoteModal from "./NoteModal";
 import { TextWithFootnotes } from "./TextWithFootnotes";
 import ThematicFootnotes from "./ThematicFootnotes";
 import { useTheme } from "../../contexts/ThemeContext";
-
-// Convert Western numerals to Arabic-Indic numerals
-const toArabicNumeral = (num: number): string => {
-  const arabicNumerals = ["٠", "١", "٢", "٣", "٤", "٥", "٦", "٧", "٨", "٩"];
-  return num
-    .toString()
-    .split("")
-    .map((digit) => arabicNumerals[parseInt(digit, 10)])
-    .join("");
-};
+import { useLanguage } from "../../contexts/LanguageContext";
+import { useArabicText } from "../../contexts/ArabicTextContext";
 
 const AnimatedCard = ({
   children,
@@ -67,9 +76,12 @@ interface QuranReaderProps {
   showArabic?: boolean;
   showTranslation?: boolean;
   showTransliteration?: boolean;
+  showWordByWord?: boolean;
+  showTajweed?: boolean;
   surahNumber: number;
   onSectionLayout?: (y: number) => void;
   onVerseLayout?: (verseNumber: number, y: number) => void;
+  onPassageLayout?: (passageId: string, y: number) => void;
   onThematicPassagePlay?: (passageId: string) => void;
   currentPlayingPassageId?: string | null;
   isPlayingThematicPassage?: boolean;
@@ -85,6 +97,17 @@ interface QuranReaderProps {
   onShareVerse?: (verseNumber: number) => void;
   canAccessFootnotes?: (surahNumber: number, passageIndex: number) => boolean;
   onRequestUpgrade?: () => void;
+  // Words to highlight in one verse's Arabic text, as 1-based word positions
+  highlightedWords?: { verseNumber: number; positions: number[] };
+  // Verses a range link opened on
+  highlightedRange?: VerseRange | null;
+  // Verses picked by long-pressing one and tapping another to extend
+  selectedRange?: VerseRange | null;
+  onSelectRange?: (range: VerseRange | null) => void;
+  // Passage opened through a theme link
+  highlightedPassageId?: string | null;
+  // Label under each passage title, for lists that span several surahs
+  getPassageSource?: (passage: ThematicPassage) => string;
 }
 
 const QuranReader = memo(function QuranReader({
@@ -96,6 +119,8 @@ const QuranReader = memo(function QuranReader({
   showArabic = true,
   showTranslation = true,
   showTransliteration = false,
+  showWordByWord = false,
+  showTajweed = false,
   surahNumber,
   onThematicPassagePlay,
   currentPlayingPassageId,
@@ -114,10 +139,35 @@ const QuranReader = memo(function QuranReader({
   onRequestUpgrade,
   onSectionLayout,
   onVerseLayout,
+  onPassageLayout,
+  highlightedWords,
+  highlightedRange,
+  selectedRange,
+  onSelectRange,
+  highlightedPassageId,
+  getPassageSource,
 }: QuranReaderProps) {
-  const { currentVerseKey, playbackState, pendingVerseNumber, playVerse, pause } =
-    useQuranAudio();
-  const { colors } = useTheme();
+  const {
+    currentVerseKey,
+    playbackState,
+    pendingVerseNumber,
+    playVerse,
+    pause,
+    repeatPlan,
+    repeatPosition,
+  } = useQuranAudio();
+  const { colors, tajweedColors } = useTheme();
+  const { currentTranslation } = useQuran();
+  const { translationLayout } = useLanguage();
+  const {
+    arabicScript,
+    arabicFontFamily,
+    arabicLetterSpacing,
+    getArabicLineHeight,
+    getArabicFontStyle,
+  } = useArabicText();
+  const translationDirectionStyle =
+    currentTranslation?.direction === "rtl" ? styles.rtlTranslation : null;
   const isPlaying = playbackState === "playing";
   const renderPageMarker = (page: number) => (
     <View style={styles.pageMarker}>
@@ -128,6 +178,19 @@ const QuranReader = memo(function QuranReader({
       <View style={[styles.pageLine, { backgroundColor: colors.border }]} />
     </View>
   );
+  // Juz and hizb boundaries, labelled like the margin marks of a printed mushaf
+  const renderDivisionMarker = (rub: number, startsJuz: boolean) => {
+    const hizb = `${["", "¼ ", "½ ", "¾ "][getRubQuarter(rub)]}Hizb ${getHizbOfRub(rub)}`;
+    return (
+      <View style={styles.pageMarker}>
+        <View style={[styles.pageLine, { backgroundColor: colors.primary }]} />
+        <Text style={[styles.pageLabel, { color: colors.primary }]}>
+          {startsJuz ? `Juz ${getJuzOfRub(rub)} · ${hizb}` : hizb}
+        </Text>
+        <View style={[styles.pageLine, { backgroundColor: colors.primary }]} />
+      </View>
+    );
+  };
   const [noteModalOpen, setNoteModalOpen] = useState(false);
   const [noteTarget, setNoteTarget] = useState<{
     type: "verse" | "passage";
@@ -138,6 +201,8 @@ const QuranReader = memo(function QuranReader({
   const [activeFootnotes, setActiveFootnotes] = useState<
     Record<string, string | null>
   >({});
+  // Word whose gloss is shown in word-by-word mode, as "surah:verse:position"
+  const [activeWordKey, setActiveWordKey] = useState<string | null>(null);
   if (viewMode === "thematic") {
     let lastPage: number | null = null;
     return (
@@ -162,17 +227,33 @@ const QuranReader = memo(function QuranReader({
               {showPageMarker && typeof item.page === "number"
                 ? renderPageMarker(item.page)
                 : null}
-              <AnimatedCard delay={cardDelay}>
+              <AnimatedCard
+                delay={cardDelay}
+                onLayout={(event) => {
+                  onPassageLayout?.(item.id, event.nativeEvent.layout.y);
+                }}
+              >
                 <View
                   style={[
                     styles.card,
                     { backgroundColor: colors.card, borderColor: colors.border },
+                    highlightedPassageId === item.id && [
+                      styles.cardActive,
+                      { borderColor: colors.primary },
+                    ],
                   ]}
                 >
                   <View style={styles.themeHeader}>
-                    <Text style={[styles.themeTitle, { color: colors.foreground }]}>
-                      {item.themeName}
-                    </Text>
+                    <View style={styles.themeTitleWrap}>
+                      <Text style={[styles.themeTitle, { color: colors.foreground }]}>
+                        {item.themeName}
+                      </Text>
+                      {getPassageSource ? (
+                        <Text style={[styles.passageSource, { color: colors.textSecondary }]}>
+                          {getPassageSource(item)}
+                        </Text>
+                      ) : null}
+                    </View>
                     <View style={styles.actionRow}>
                       {onThematicPassagePlay ? (
                         <TouchableOpacity
@@ -247,8 +328,9 @@ const QuranReader = memo(function QuranReader({
                         {
                           fontSize: arabicFontSize,
                           color: colors.foreground,
-                          fontFamily: "ScheherazadeNew_400Regular",
-                          lineHeight: Math.ceil(arabicFontSize * 1.6),
+                          fontFamily: arabicFontFamily,
+                          lineHeight: getArabicLineHeight(arabicFontSize),
+                          letterSpacing: arabicLetterSpacing,
                           paddingTop: 10,
                           paddingBottom: 4,
                         },
@@ -257,7 +339,9 @@ const QuranReader = memo(function QuranReader({
                       {item.verseTranslations?.length
                         ? item.verseTranslations.map((verse) => (
                             <Text key={verse.verseNumber}>
-                              {verse.arabic}{" "}
+                              {arabicScript === "indopak"
+                                ? verse.arabicIndopak
+                                : verse.arabic}{" "}
                               <Text
                                 style={[styles.verseMarker, { color: colors.textSecondary }]}
                               >
@@ -273,6 +357,7 @@ const QuranReader = memo(function QuranReader({
                       style={[
                         styles.translationText,
                         { fontSize: englishFontSize, color: colors.foreground },
+                        translationDirectionStyle,
                       ]}
                     >
                       {item.verseTranslations?.length ? (
@@ -328,11 +413,72 @@ const QuranReader = memo(function QuranReader({
     );
   }
 
+  // Word positions refer to the Uthmani text, so only that script is highlighted
+  const renderHighlightedArabic = (text: string, positions: number[]) =>
+    text.split(" ").map((word, index) => (
+      <React.Fragment key={index}>
+        {index > 0 ? " " : null}
+        <Text
+          style={
+            positions.includes(index + 1)
+              ? { color: colors.primary, backgroundColor: `${colors.primary}1A` }
+              : undefined
+          }
+        >
+          {word}
+        </Text>
+      </React.Fragment>
+    ));
+
   const renderVerseItem = ({ item, index }: { item: Verse; index: number }) => {
     const verseKey = `${item.surahNumber}:${item.verseNumber}`;
     const isActiveVerse = currentVerseKey === verseKey && isPlaying;
     const isLoadingThisVerse = pendingVerseNumber === item.verseNumber;
+    // Repetition count for the verse a repeat plan is on
+    const repeatCount =
+      repeatPlan &&
+      repeatPosition &&
+      repeatPlan.surahId === item.surahNumber &&
+      repeatPosition.verseNumber === item.verseNumber
+        ? `${repeatPosition.verseRepetition}/${repeatPlan.verseRepeats}`
+        : null;
     const showPageMarker = index === 0 || item.page !== verses[index - 1]?.page;
+    const previousVerse = verses[index - 1];
+    const nextVerse = verses[index + 1];
+    // The first verse shown can only be checked against the fixed juz starts
+    const startsJuz = previousVerse
+      ? getJuzOfRub(item.rub) !== getJuzOfRub(previousVerse.rub)
+      : isJuzStart(item.surahNumber, item.verseNumber);
+    const startsRub = previousVerse ? item.rub !== previousVerse.rub : startsJuz;
+    const endsRuku = !!nextVerse && nextVerse.ruku !== item.ruku;
+    const hasFootnoteAccess = canAccessFootnotes
+      ? canAccessFootnotes(item.surahNumber, index)
+      : true;
+
+    const isSelected =
+      !!selectedRange &&
+      item.verseNumber >= selectedRange.start &&
+      item.verseNumber <= selectedRange.end;
+    const isHighlighted =
+      !!highlightedRange &&
+      item.verseNumber >= highlightedRange.start &&
+      item.verseNumber <= highlightedRange.end;
+
+    // Tapping outside the selection extends it; tapping inside makes that verse
+    // its last, and tapping a lone selected verse clears it
+    const handleSelectPress = () => {
+      if (!selectedRange || !onSelectRange) return;
+      const { start, end } = selectedRange;
+      if (item.verseNumber < start) {
+        onSelectRange({ start: item.verseNumber, end });
+      } else if (item.verseNumber > end) {
+        onSelectRange({ start, end: item.verseNumber });
+      } else if (start === end) {
+        onSelectRange(null);
+      } else {
+        onSelectRange({ start, end: Math.max(start, item.verseNumber) });
+      }
+    };
 
     const handleVersePlayClick = async () => {
       if (isActiveVerse) {
@@ -348,32 +494,56 @@ const QuranReader = memo(function QuranReader({
         {showPageMarker && typeof item.page === "number"
           ? renderPageMarker(item.page)
           : null}
+        {startsRub ? renderDivisionMarker(item.rub, startsJuz) : null}
         <AnimatedCard
           delay={cardDelay}
           onLayout={(event) => {
             onVerseLayout?.(item.verseNumber, event.nativeEvent.layout.y);
           }}
         >
-          <View
+          <Pressable
+            disabled={!onSelectRange}
+            onLongPress={() => {
+              Vibration.vibrate(10);
+              onSelectRange?.({ start: item.verseNumber, end: item.verseNumber });
+            }}
+            onPress={selectedRange ? handleSelectPress : undefined}
             style={[
               styles.card,
               { backgroundColor: colors.card, borderColor: colors.border },
-              isActiveVerse && [styles.cardActive, { borderColor: colors.primary }],
+              isHighlighted && { borderColor: colors.primary },
+              (isActiveVerse || isSelected) && [
+                styles.cardActive,
+                { borderColor: colors.primary },
+              ],
+              isSelected && { backgroundColor: `${colors.primary}14` },
             ]}
           >
             <View style={styles.verseHeader}>
-              <Text
-                style={[
-                  styles.verseBadge,
-                  {
-                    backgroundColor: `${colors.primary}1A`,
-                    borderColor: `${colors.primary}33`,
-                    color: colors.primary,
-                  },
-                ]}
-              >
-                {item.verseNumber}
-              </Text>
+              <View style={styles.verseBadgeRow}>
+                <Text
+                  style={[
+                    styles.verseBadge,
+                    {
+                      backgroundColor: `${colors.primary}1A`,
+                      borderColor: `${colors.primary}33`,
+                      color: colors.primary,
+                    },
+                  ]}
+                >
+                  {item.verseNumber}
+                </Text>
+                {repeatCount ? (
+                  <Text
+                    style={[
+                      styles.repeatBadge,
+                      { backgroundColor: colors.primary, color: colors.primaryForeground },
+                    ]}
+                  >
+                    ↻ {repeatCount}
+                  </Text>
+                ) : null}
+              </View>
               <View style={styles.actionRow}>
                 <TouchableOpacity
                   style={[styles.playButton, { borderColor: colors.border }]}
@@ -429,21 +599,90 @@ const QuranReader = memo(function QuranReader({
                 ) : null}
               </View>
             </View>
-            {showArabic ? (
+            {showWordByWord && item.words && item.words.length > 0 ? (
+              <View style={styles.wordGrid}>
+                {item.words.map((word) => {
+                  const wordKey = `${verseKey}:${word.position}`;
+                  const isActiveWord = activeWordKey === wordKey;
+                  const isHighlighted =
+                    highlightedWords?.verseNumber === item.verseNumber &&
+                    highlightedWords.positions.includes(word.position);
+                  return (
+                    <TouchableOpacity
+                      key={word.position}
+                      style={[
+                        styles.wordCell,
+                        { borderColor: colors.border },
+                        (isActiveWord || isHighlighted) && {
+                          borderColor: colors.primary,
+                          backgroundColor: `${colors.primary}1A`,
+                        },
+                      ]}
+                      onPress={() => setActiveWordKey(isActiveWord ? null : wordKey)}
+                    >
+                      {/* Word forms are always Uthmani, whichever script is selected */}
+                      <Text
+                        style={[
+                          getArabicFontStyle("uthmani", arabicFontSize),
+                          { color: isHighlighted ? colors.primary : colors.foreground },
+                        ]}
+                      >
+                        {word.arabic}
+                      </Text>
+                      {word.transliteration ? (
+                        <Text
+                          style={[
+                            styles.wordTransliteration,
+                            { fontSize: englishFontSize * 0.75, color: colors.textSecondary },
+                          ]}
+                        >
+                          {word.transliteration}
+                        </Text>
+                      ) : null}
+                      {isActiveWord && word.gloss ? (
+                        <Text
+                          style={[
+                            styles.wordGloss,
+                            { fontSize: englishFontSize * 0.8, color: colors.foreground },
+                          ]}
+                        >
+                          {word.gloss}
+                        </Text>
+                      ) : null}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            ) : showArabic ? (
               <Text
                 style={[
                   styles.arabicText,
                   {
                     fontSize: arabicFontSize,
                     color: colors.foreground,
-                    fontFamily: "ScheherazadeNew_400Regular",
-                    lineHeight: Math.ceil(arabicFontSize * 1.5),
+                    fontFamily: arabicFontFamily,
+                    lineHeight: getArabicLineHeight(arabicFontSize),
+                    letterSpacing: arabicLetterSpacing,
                     paddingTop: 8,
                     paddingBottom: 4,
                   },
                 ]}
               >
-                {item.arabic}
+                {arabicScript === "uthmani" &&
+                highlightedWords?.verseNumber === item.verseNumber
+                  ? renderHighlightedArabic(item.arabic, highlightedWords.positions)
+                  : showTajweed && item.tajweed
+                    ? item.tajweed.map((segment, segmentIndex) => (
+                        <Text
+                          key={segmentIndex}
+                          style={
+                            segment.rule ? { color: tajweedColors[segment.rule] } : undefined
+                          }
+                        >
+                          {segment.text}
+                        </Text>
+                      ))
+                    : item.arabic}
               </Text>
             ) : null}
             {showTransliteration && item.transliteration ? (
@@ -456,18 +695,83 @@ const QuranReader = memo(function QuranReader({
                 {item.transliteration}
               </Text>
             ) : null}
-            {showTranslation ? (
+            {showTranslation && item.translations && item.translations.length > 1 ? (
+              <View
+                style={[
+                  styles.parallelTranslations,
+                  translationLayout === "columns" && styles.parallelColumns,
+                ]}
+              >
+                {item.translations.map((translation) => {
+                  const footnoteKey = `${verseKey}:${translation.translationId}`;
+                  const activeFootnoteId = activeFootnotes[footnoteKey];
+                  return (
+                    <View
+                      key={translation.translationId}
+                      style={[
+                        styles.parallelItem,
+                        translationLayout === "columns" && styles.parallelColumn,
+                        { borderColor: colors.border },
+                      ]}
+                    >
+                      <Text style={[styles.translatorLabel, { color: colors.textSecondary }]}>
+                        {translation.translator}
+                      </Text>
+                      <Text
+                        style={[
+                          styles.translationText,
+                          { fontSize: englishFontSize, color: colors.foreground },
+                          translation.direction === "rtl" && styles.rtlTranslation,
+                        ]}
+                      >
+                        <TextWithFootnotes
+                          text={translation.text}
+                          verseNumber={item.verseNumber}
+                          onFootnoteClick={(footnoteId) =>
+                            setActiveFootnotes((prev) => ({
+                              ...prev,
+                              [footnoteKey]: footnoteId,
+                            }))
+                          }
+                          hasPremiumAccess={hasFootnoteAccess}
+                          onPremiumClick={onRequestUpgrade}
+                        />
+                      </Text>
+                      {activeFootnoteId && hasFootnoteAccess ? (
+                        <ThematicFootnotes
+                          footnotes={translation.footnotes.map((footnote) => ({
+                            ...footnote,
+                            verseNumber: item.verseNumber,
+                          }))}
+                          fontSize={englishFontSize}
+                          activeFootnoteId={activeFootnoteId}
+                        />
+                      ) : null}
+                    </View>
+                  );
+                })}
+              </View>
+            ) : showTranslation ? (
               <Text
                 style={[
                   styles.translationText,
                   { fontSize: englishFontSize, color: colors.foreground },
+                  translationDirectionStyle,
                 ]}
               >
                 {stripFootnoteTags(item.translation)}
               </Text>
             ) : null}
-          </View>
+          </Pressable>
         </AnimatedCard>
+        {endsRuku ? (
+          <Text
+            style={[styles.rukuMarker, { color: colors.textSecondary }]}
+            accessibilityLabel="End of ruku"
+          >
+            ع
+          </Text>
+        ) : null}
       </View>
     );
   };
@@ -542,6 +846,11 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     textTransform: "uppercase",
   },
+  rukuMarker: {
+    textAlign: "center",
+    fontSize: 16,
+    marginBottom: 4,
+  },
   card: {
     backgroundColor: "#121212",
     borderRadius: 16,
@@ -561,6 +870,19 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginBottom: 10,
   },
+  verseBadgeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  repeatBadge: {
+    borderRadius: 999,
+    overflow: "hidden",
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    fontSize: 11,
+    fontWeight: "700",
+  },
   verseBadge: {
     borderRadius: 999,
     borderWidth: 1,
@@ -608,9 +930,15 @@ const styles = StyleSheet.create({
     color: "#ffffff",
     fontSize: 16,
     fontWeight: "700",
+  },
+  themeTitleWrap: {
     flex: 1,
     marginRight: 12,
   },
+  passageSource: {
+    fontSize: 12,
+    marginTop: 2,
+  },
   themeHeader: {
     flexDirection: "row",
     alignItems: "center",
@@ -639,10 +967,57 @@ const styles = StyleSheet.create({
     fontStyle: "italic",
     marginBottom: 8,
   },
+  wordGrid: {
+    flexDirection: "row-reverse",
+    flexWrap: "wrap",
+    gap: 6,
+    paddingTop: 8,
+    marginBottom: 12,
+  },
+  wordCell: {
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    maxWidth: 160,
+  },
+  wordTransliteration: {
+    fontStyle: "italic",
+    textAlign: "center",
+  },
+  wordGloss: {
+    textAlign: "center",
+    marginTop: 2,
+  },
   translationText: {
     color: "#e5e7eb",
     lineHeight: 24,
   },
+  rtlTranslation: {
+    writingDirection: "rtl",
+    textAlign: "right",
+  },
+  parallelTranslations: {
+    gap: 10,
+  },
+  parallelColumns: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+  },
+  parallelItem: {
+    borderLeftWidth: 2,
+    paddingLeft: 10,
+  },
+  parallelColumn: {
+    flex: 1,
+  },
+  translatorLabel: {
+    fontSize: 11,
+    fontWeight: "600",
+    textTransform: "uppercase",
+    marginBottom: 4,
+  },
 });
 
 export default QuranReader;
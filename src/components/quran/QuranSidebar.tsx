@@ -16,26 +16,37 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { Surah, useQuran } from "../../contexts/QuranContext";
 import { useTheme } from "../../contexts/ThemeContext";
+import { JUZ_COUNT, getJuzStart } from "../../services/quranDivisions";
+
+const JUZ_NUMBERS = Array.from({ length: JUZ_COUNT }, (_, index) => index + 1);
 
 interface QuranSidebarProps {
   visible: boolean;
   onClose: () => void;
   currentSurahNumber?: string;
+  currentJuzNumber?: number;
   searchQuery: string;
   onSearchChange: (value: string) => void;
+  onSearchQuran: (query: string) => void;
+  onBrowseTopics: () => void;
   onSelectSurah: (surahNumber: number) => void;
+  onSelectVerse: (surahNumber: number, verseNumber: number) => void;
 }
 
 const QuranSidebar = ({
   visible,
   onClose,
   currentSurahNumber,
+  currentJuzNumber,
   searchQuery,
   onSearchChange,
+  onSearchQuran,
+  onBrowseTopics,
   onSelectSurah,
+  onSelectVerse,
 }: QuranSidebarProps) => {
-  const [activeTab, setActiveTab] = useState<"all" | "popular">("all");
-  const { surahs, getPopularSurahs, isLoading, error } = useQuran();
+  const [activeTab, setActiveTab] = useState<"all" | "popular" | "juz">("all");
+  const { surahs, getPopularSurahs, getSurahByNumber, isLoading, error } = useQuran();
   const popularSurahs = getPopularSurahs();
   const { colors } = useTheme();
   const insets = useSafeAreaInsets();
@@ -100,6 +111,7 @@ const QuranSidebar = ({
 
   const tryAutoScroll = () => {
     if (!visible || !listReady || autoScrollHandledRef.current) return;
+    if (activeTab === "juz") return;
     if (hasUserScrolledRef.current) return;
     if (!currentSurahNumber) return;
     if (
@@ -182,6 +194,52 @@ const QuranSidebar = ({
     );
   };
 
+  const renderJuz = ({ item }: { item: number }) => {
+    const start = getJuzStart(item);
+    if (!start) return null;
+    const isActive = currentJuzNumber === item;
+    const surah = getSurahByNumber(start.surahNumber);
+    return (
+      <TouchableOpacity
+        style={[
+          styles.surahItem,
+          isActive && styles.surahItemActive,
+          isActive && { borderColor: colors.primary, backgroundColor: colors.muted },
+        ]}
+        onPress={() => {
+          onSelectVerse(start.surahNumber, start.verseNumber);
+          onClose();
+        }}
+      >
+        <View style={[styles.badge, { backgroundColor: colors.muted }]}>
+          <Text
+            style={[
+              styles.badgeText,
+              { color: colors.textSecondary },
+              isActive && { color: colors.primary },
+            ]}
+          >
+            {item}
+          </Text>
+        </View>
+        <View style={styles.surahText}>
+          <Text
+            style={[
+              styles.surahName,
+              { color: colors.foreground },
+              isActive && { color: colors.primary },
+            ]}
+          >
+            Juz {item}
+          </Text>
+          <Text style={[styles.surahTranslation, { color: colors.textSecondary }]}>
+            {`Starts at ${surah?.transliteration ?? "Surah"} ${start.surahNumber}:${start.verseNumber}`}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
   if (!isMounted) return null;
 
   return (
@@ -248,6 +306,21 @@ const QuranSidebar = ({
                   Popular
                 </Text>
               </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.tab,
+                  { borderColor: colors.border },
+                  activeTab === "juz" && {
+                    backgroundColor: colors.muted,
+                    borderColor: colors.primary,
+                  },
+                ]}
+                onPress={() => setActiveTab("juz")}
+              >
+                <Text style={[styles.tabText, { color: colors.foreground }]}>
+                  Juz
+                </Text>
+              </TouchableOpacity>
             </View>
 
             <View style={[styles.searchWrap, { borderColor: colors.border }]}>
@@ -261,6 +334,37 @@ const QuranSidebar = ({
               />
             </View>
 
+            <TouchableOpacity
+              style={[styles.searchAllRow, { borderColor: colors.border }]}
+              onPress={() => {
+                onClose();
+                onBrowseTopics();
+              }}
+            >
+              <Ionicons name="pricetags-outline" size={16} color={colors.primary} />
+              <Text style={[styles.searchAllText, { color: colors.primary }]}>
+                Browse topics
+              </Text>
+            </TouchableOpacity>
+
+            {searchQuery.trim() ? (
+              <TouchableOpacity
+                style={[styles.searchAllRow, { borderColor: colors.border }]}
+                onPress={() => {
+                  onClose();
+                  onSearchQuran(searchQuery.trim());
+                }}
+              >
+                <Ionicons name="book-outline" size={16} color={colors.primary} />
+                <Text
+                  style={[styles.searchAllText, { color: colors.primary }]}
+                  numberOfLines={1}
+                >
+                  Search verses for "{searchQuery.trim()}"
+                </Text>
+              </TouchableOpacity>
+            ) : null}
+
             {isLoading ? (
               <View style={styles.center}>
                 <Text style={[styles.muted, { color: colors.textSecondary }]}>
@@ -273,6 +377,19 @@ const QuranSidebar = ({
                   Failed to load surahs.
                 </Text>
               </View>
+            ) : activeTab === "juz" ? (
+              <FlatList
+                data={JUZ_NUMBERS}
+                keyExtractor={(item) => String(item)}
+                renderItem={renderJuz}
+                extraData={currentJuzNumber}
+                initialScrollIndex={Math.max(0, (currentJuzNumber ?? 1) - 3)}
+                getItemLayout={(_, index) => ({
+                  length: ITEM_HEIGHT,
+                  offset: ITEM_HEIGHT * index,
+                  index,
+                })}
+              />
             ) : (
               <FlatList
                 ref={listRef}
@@ -376,6 +493,21 @@ const styles = StyleSheet.create({
     flex: 1,
     fontSize: 13,
   },
+  searchAllRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    marginBottom: 12,
+  },
+  searchAllText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: "600",
+  },
   surahItem: {
     flexDirection: "row",
     alignItems: "center",
@@ -0,0 +1,134 @@
+import React from "react";
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "../../contexts/ThemeContext";
+import { useQuranAudio } from "../../contexts/QuranAudioContext";
+import { RecitationStyle, ReciterInfo } from "../../services/quranAudioService";
+
+const STYLE_LABELS: Record<RecitationStyle, string> = {
+  murattal: "Murattal",
+  mujawwad: "Mujawwad",
+};
+
+// Style and bitrate when the catalogue has them, and a note when verse-by-verse
+// playback isn't available
+const getReciterDetails = (reciter: ReciterInfo): string =>
+  [
+    reciter.style ? STYLE_LABELS[reciter.style] : null,
+    reciter.bitrate ? `${reciter.bitrate} kbps` : null,
+    reciter.hasTimings ? null : "Whole-surah playback only",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const ReciterPicker = () => {
+  const { colors } = useTheme();
+  const {
+    reciters,
+    selectedReciterId,
+    setReciter,
+    previewReciterId,
+    previewReciter,
+    stopPreview,
+  } = useQuranAudio();
+
+  return (
+    <View style={styles.list}>
+      <Text style={[styles.heading, { color: colors.foreground }]}>Reciter</Text>
+      <ScrollView
+        style={styles.scroll}
+        contentContainerStyle={styles.options}
+        nestedScrollEnabled
+      >
+        {reciters.map((reciter) => {
+          const isSelected = reciter.id === selectedReciterId;
+          const isPreviewing = reciter.id === previewReciterId;
+          const details = getReciterDetails(reciter);
+          return (
+            <TouchableOpacity
+              key={reciter.id}
+              style={[
+                styles.option,
+                { borderColor: colors.border },
+                isSelected && { borderColor: colors.primary, backgroundColor: colors.muted },
+              ]}
+              onPress={() => setReciter(reciter.id)}
+              accessibilityState={{ selected: isSelected }}
+            >
+              <View style={styles.details}>
+                <Text style={[styles.name, { color: colors.foreground }]}>{reciter.name}</Text>
+                {details ? (
+                  <Text style={[styles.style, { color: colors.textSecondary }]}>{details}</Text>
+                ) : null}
+              </View>
+              <TouchableOpacity
+                style={[styles.sampleButton, { borderColor: colors.border }]}
+                onPress={() => (isPreviewing ? stopPreview() : previewReciter(reciter.id))}
+                hitSlop={6}
+                accessibilityLabel={
+                  isPreviewing ? "Stop sample" : `Play a sample of ${reciter.name}`
+                }
+              >
+                <Ionicons
+                  name={isPreviewing ? "stop" : "volume-medium-outline"}
+                  size={14}
+                  color={colors.foreground}
+                />
+              </TouchableOpacity>
+              {isSelected ? (
+                <Ionicons name="checkmark" size={16} color={colors.primary} />
+              ) : null}
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  list: {
+    gap: 8,
+    marginTop: 8,
+  },
+  // The catalogue can grow past what fits in the player sheet
+  scroll: {
+    maxHeight: 280,
+  },
+  options: {
+    gap: 8,
+  },
+  heading: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  details: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  style: {
+    fontSize: 12,
+  },
+  sampleButton: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
+
+export default ReciterPicker;
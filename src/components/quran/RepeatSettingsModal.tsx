@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from "react";
+import { Modal, Pressable, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "../../contexts/ThemeContext";
+import {
+  MAX_GAP_SECONDS,
+  MAX_REPEATS,
+  RepeatSettings,
+} from "../../services/quranRepeatPlan";
+
+interface RepeatSettingsModalProps {
+  visible: boolean;
+  // Reference of the verses to repeat, e.g. "2:255-257"
+  label: string;
+  // Range repeats and build-up only apply to more than one verse
+  isRange: boolean;
+  initialSettings: RepeatSettings;
+  onStart: (settings: RepeatSettings) => void;
+  onClose: () => void;
+}
+
+const Stepper = ({
+  label,
+  value,
+  unit,
+  min,
+  max,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  unit: string;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}) => {
+  const { colors } = useTheme();
+  return (
+    <View style={styles.row}>
+      <Text style={[styles.label, { color: colors.foreground }]}>{label}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          style={[styles.stepButton, { borderColor: colors.border }]}
+          onPress={() => onChange(Math.max(min, value - 1))}
+          disabled={value <= min}
+          accessibilityLabel={`Decrease ${label.toLowerCase()}`}
+        >
+          <Ionicons name="remove" size={16} color={colors.foreground} />
+        </TouchableOpacity>
+        <Text style={[styles.value, { color: colors.primary }]}>
+          {value}
+          {unit}
+        </Text>
+        <TouchableOpacity
+          style={[styles.stepButton, { borderColor: colors.border }]}
+          onPress={() => onChange(Math.min(max, value + 1))}
+          disabled={value >= max}
+          accessibilityLabel={`Increase ${label.toLowerCase()}`}
+        >
+          <Ionicons name="add" size={16} color={colors.foreground} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const RepeatSettingsModal = ({
+  visible,
+  label,
+  isRange,
+  initialSettings,
+  onStart,
+  onClose,
+}: RepeatSettingsModalProps) => {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const [settings, setSettings] = useState(initialSettings);
+
+  useEffect(() => {
+    setSettings(initialSettings);
+  }, [initialSettings, visible]);
+
+  const update = (updates: Partial<RepeatSettings>) =>
+    setSettings((prev) => ({ ...prev, ...updates }));
+
+  return (
+    <Modal visible={visible} transparent animationType="none">
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View
+        style={[
+          styles.sheet,
+          {
+            backgroundColor: colors.background,
+            paddingBottom: 16 + insets.bottom,
+          },
+        ]}
+      >
+        <Text style={[styles.title, { color: colors.foreground }]}>Repeat {label}</Text>
+        <Stepper
+          label="Each verse"
+          value={settings.verseRepeats}
+          unit="×"
+          min={1}
+          max={MAX_REPEATS}
+          onChange={(verseRepeats) => update({ verseRepeats })}
+        />
+        {isRange ? (
+          <Stepper
+            label="Whole range"
+            value={settings.rangeRepeats}
+            unit="×"
+            min={1}
+            max={MAX_REPEATS}
+            onChange={(rangeRepeats) => update({ rangeRepeats })}
+          />
+        ) : null}
+        <Stepper
+          label="Pause between"
+          value={settings.gapSeconds}
+          unit="s"
+          min={0}
+          max={MAX_GAP_SECONDS}
+          onChange={(gapSeconds) => update({ gapSeconds })}
+        />
+        {isRange ? (
+          <Pressable style={styles.row} onPress={() => update({ buildUp: !settings.buildUp })}>
+            <View style={styles.details}>
+              <Text style={[styles.label, { color: colors.foreground }]}>Gradual build-up</Text>
+              <Text style={[styles.hint, { color: colors.textSecondary }]}>
+                Adds one verse per round: 1, 1–2, 1–3…
+              </Text>
+            </View>
+            <Ionicons
+              name={settings.buildUp ? "checkbox" : "square-outline"}
+              size={22}
+              color={settings.buildUp ? colors.primary : colors.textSecondary}
+            />
+          </Pressable>
+        ) : null}
+        <View style={styles.actions}>
+          <Pressable style={[styles.cancel, { borderColor: colors.border }]} onPress={onClose}>
+            <Text style={[styles.cancelLabel, { color: colors.textSecondary }]}>Cancel</Text>
+          </Pressable>
+          <Pressable
+            style={[styles.start, { backgroundColor: colors.primary }]}
+            onPress={() => {
+              // Single verses never carry range settings into the plan
+              onStart(isRange ? settings : { ...settings, rangeRepeats: 1, buildUp: false });
+              onClose();
+            }}
+          >
+            <Text style={[styles.startLabel, { color: colors.primaryForeground }]}>Start</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.5)",
+  },
+  sheet: {
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    gap: 14,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  details: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 14,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  stepButton: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  value: {
+    minWidth: 32,
+    textAlign: "center",
+    fontWeight: "700",
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: 12,
+    marginTop: 4,
+  },
+  cancel: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  cancelLabel: {
+    fontWeight: "600",
+  },
+  start: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  startLabel: {
+    fontWeight: "600",
+  },
+});
+
+export default RepeatSettingsModal;
@@ -0,0 +1,104 @@
+import React from "react";
+import { Modal, View, Text, StyleSheet, Pressable, ScrollView } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useTheme } from "../../contexts/ThemeContext";
+import { TAJWEED_RULES } from "../../utils/tajweed";
+
+interface TajweedLegendModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const TajweedLegendModal = ({ visible, onClose }: TajweedLegendModalProps) => {
+  const { colors, tajweedColors } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View
+        style={[
+          styles.sheet,
+          { backgroundColor: colors.background, paddingBottom: 24 + insets.bottom },
+        ]}
+      >
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: colors.foreground }]}>Tajweed colours</Text>
+          <Pressable onPress={onClose}>
+            <Text style={[styles.closeLabel, { color: colors.primary }]}>Done</Text>
+          </Pressable>
+        </View>
+        <ScrollView style={styles.scroll}>
+          {TAJWEED_RULES.map(({ rule, name, description }) => (
+            <View key={rule} style={[styles.rule, { borderTopColor: colors.border }]}>
+              <View style={[styles.swatch, { backgroundColor: tajweedColors[rule] }]} />
+              <View style={styles.ruleText}>
+                <Text style={[styles.ruleName, { color: tajweedColors[rule] }]}>{name}</Text>
+                <Text style={[styles.ruleDescription, { color: colors.textSecondary }]}>
+                  {description}
+                </Text>
+              </View>
+            </View>
+          ))}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+  },
+  sheet: {
+    maxHeight: "80%",
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  closeLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  rule: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  swatch: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    marginTop: 3,
+  },
+  ruleText: {
+    flex: 1,
+  },
+  ruleName: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  ruleDescription: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+});
+
+export default TajweedLegendModal;
@@ -0,0 +1,126 @@
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "../../contexts/ThemeContext";
+
+interface VerseSelectionBarProps {
+  // Reference of the selected verses, e.g. "2:255-257"
+  label: string;
+  isPlaying: boolean;
+  isBookmarked: boolean;
+  onPlay: () => void;
+  onBookmark: () => void;
+  onCopy: () => void;
+  onShare: () => void;
+  onRepeat: () => void;
+  onQueue: () => void;
+  onClose: () => void;
+}
+
+const VerseSelectionBar = ({
+  label,
+  isPlaying,
+  isBookmarked,
+  onPlay,
+  onBookmark,
+  onCopy,
+  onShare,
+  onRepeat,
+  onQueue,
+  onClose,
+}: VerseSelectionBarProps) => {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const actions = [
+    {
+      key: "play",
+      icon: isPlaying ? "pause" : "play",
+      label: isPlaying ? "Pause" : "Play",
+      onPress: onPlay,
+    },
+    {
+      key: "bookmark",
+      icon: isBookmarked ? "bookmark" : "bookmark-outline",
+      label: "Bookmark",
+      onPress: onBookmark,
+    },
+    { key: "repeat", icon: "repeat", label: "Repeat", onPress: onRepeat },
+    { key: "queue", icon: "list", label: "Queue", onPress: onQueue },
+    { key: "copy", icon: "copy-outline", label: "Copy", onPress: onCopy },
+    { key: "share", icon: "share-outline", label: "Share", onPress: onShare },
+  ] as const;
+
+  return (
+    <View
+      style={[
+        styles.bar,
+        {
+          backgroundColor: colors.card,
+          borderColor: colors.border,
+          bottom: insets.bottom + 16,
+        },
+      ]}
+    >
+      <View style={styles.labelRow}>
+        <Text style={[styles.label, { color: colors.foreground }]}>{label}</Text>
+        <TouchableOpacity onPress={onClose} hitSlop={8} accessibilityLabel="Clear selection">
+          <Ionicons name="close" size={18} color={colors.textSecondary} />
+        </TouchableOpacity>
+      </View>
+      <View style={styles.actions}>
+        {actions.map((action) => (
+          <TouchableOpacity key={action.key} style={styles.action} onPress={action.onPress}>
+            <Ionicons name={action.icon} size={20} color={colors.primary} />
+            <Text style={[styles.actionLabel, { color: colors.foreground }]}>
+              {action.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  bar: {
+    position: "absolute",
+    left: 16,
+    right: 16,
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 10,
+    shadowColor: "#000",
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+    shadowOffset: { width: 0, height: 4 },
+    elevation: 6,
+  },
+  labelRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+  },
+  action: {
+    alignItems: "center",
+    gap: 4,
+    minWidth: 48,
+  },
+  actionLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+});
+
+export default VerseSelectionBar;
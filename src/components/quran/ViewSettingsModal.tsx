@@ -1,21 +1,32 @@
-import React from "react";
+import React, { useState } from "react";
 import {
   Modal,
   View,
   Text,
   StyleSheet,
   Pressable,
+  ScrollView,
   TouchableOpacity,
   Vibration,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useTheme } from "../../contexts/ThemeContext";
+import TajweedLegendModal from "./TajweedLegendModal";
+import { TranslationLayout, useLanguage } from "../../contexts/LanguageContext";
+import { ArabicScript, useQuran } from "../../contexts/QuranContext";
+import {
+  ARABIC_FONTS,
+  ArabicFontId,
+  useArabicText,
+} from "../../contexts/ArabicTextContext";
 import { ThemeName } from "../../theme/themes";
 
 interface ViewSettings {
   showArabic: boolean;
   showTranslation: boolean;
   showTransliteration: boolean;
+  showWordByWord: boolean;
+  showTajweed: boolean;
   showIntro: boolean;
 }
 
@@ -31,6 +42,9 @@ interface ViewSettingsModalProps {
   onResetFontSizes: () => void;
 }
 
+// Al-Fatiha 1:2, shown to preview the Arabic font settings
+const PREVIEW_VERSE = "ٱلْحَمْدُ لِلَّهِ رَبِّ ٱلْعَـٰلَمِينَ";
+
 const ViewSettingsModal = ({
   visible,
   onClose,
@@ -43,10 +57,54 @@ const ViewSettingsModal = ({
   onResetFontSizes,
 }: ViewSettingsModalProps) => {
   const { colors, themeName, setThemeName } = useTheme();
+  const {
+    language,
+    setLanguage,
+    setTranslationId,
+    parallelTranslationIds,
+    setParallelTranslationIds,
+    translationLayout,
+    setTranslationLayout,
+  } = useLanguage();
+  const { translations, currentTranslation, languages } = useQuran();
+  const {
+    arabicScript,
+    setArabicScript,
+    arabicFontId,
+    setArabicFontId,
+    arabicFontTuning,
+    setArabicFontTuning,
+    resetArabicFontTuning,
+    arabicFontFamily,
+    arabicLetterSpacing,
+    getArabicLineHeight,
+  } = useArabicText();
   const insets = useSafeAreaInsets();
+  const [legendOpen, setLegendOpen] = useState(false);
   const toggle = (key: keyof ViewSettings) => {
     onSettingsChange({ ...settings, [key]: !settings[key] });
   };
+  const toggleParallelTranslation = (translationId: string) => {
+    setParallelTranslationIds(
+      parallelTranslationIds.includes(translationId)
+        ? parallelTranslationIds.filter((id) => id !== translationId)
+        : [...parallelTranslationIds, translationId]
+    );
+  };
+  const comparisonOptions = translations.filter((t) => t.id !== currentTranslation?.id);
+  const adjustLineHeight = (delta: number) => {
+    const lineHeight = Math.round((arabicFontTuning.lineHeight + delta) * 10) / 10;
+    setArabicFontTuning({
+      ...arabicFontTuning,
+      lineHeight: Math.min(2.4, Math.max(1.2, lineHeight)),
+    });
+  };
+  const adjustLetterSpacing = (delta: number) => {
+    setArabicFontTuning({
+      ...arabicFontTuning,
+      letterSpacing: Math.min(4, Math.max(-2, arabicFontTuning.letterSpacing + delta)),
+    });
+  };
 
   return (
     <Modal visible={visible} transparent animationType="none">
@@ -72,138 +130,442 @@ const ViewSettingsModal = ({
           </Pressable>
         </View>
 
-        <View style={[styles.section, { borderTopColor: colors.border }]}>
-          <View style={styles.rowBetween}>
-            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
-              Font size
-            </Text>
-            <TouchableOpacity
-              style={[styles.resetButton, { borderColor: colors.border }]}
-              onPress={onResetFontSizes}
-            >
-              <Text style={[styles.resetLabel, { color: colors.primary }]}>
-                Reset
+        <ScrollView style={styles.scroll}>
+          <View style={[styles.section, { borderTopColor: colors.border }]}>
+            <View style={styles.rowBetween}>
+              <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                Font size
               </Text>
-            </TouchableOpacity>
-          </View>
-          <Text style={[styles.fontLabel, { color: colors.textSecondary }]}>
-            English
-          </Text>
-          <View style={styles.fontRow}>
-            <Pressable
-              style={[styles.fontButton, { borderColor: colors.border }]}
-              onPress={() => onEnglishFontSizeChange(Math.max(12, englishFontSize - 1))}
-            >
-              <Text style={[styles.fontButtonLabel, { color: colors.foreground }]}>
-                A-
+              <TouchableOpacity
+                style={[styles.resetButton, { borderColor: colors.border }]}
+                onPress={onResetFontSizes}
+              >
+                <Text style={[styles.resetLabel, { color: colors.primary }]}>
+                  Reset
+                </Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={[styles.fontLabel, { color: colors.textSecondary }]}>
+              English
+            </Text>
+            <View style={styles.fontRow}>
+              <Pressable
+                style={[styles.fontButton, { borderColor: colors.border }]}
+                onPress={() => onEnglishFontSizeChange(Math.max(12, englishFontSize - 1))}
+              >
+                <Text style={[styles.fontButtonLabel, { color: colors.foreground }]}>
+                  A-
+                </Text>
+              </Pressable>
+              <Text style={[styles.fontValue, { color: colors.foreground }]}>
+                {englishFontSize}
               </Text>
-            </Pressable>
-            <Text style={[styles.fontValue, { color: colors.foreground }]}>
-              {englishFontSize}
+              <Pressable
+                style={[styles.fontButton, { borderColor: colors.border }]}
+                onPress={() => onEnglishFontSizeChange(Math.min(24, englishFontSize + 1))}
+              >
+                <Text style={[styles.fontButtonLabel, { color: colors.foreground }]}>
+                  A+
+                </Text>
+              </Pressable>
+            </View>
+            <Text style={[styles.fontLabel, { color: colors.textSecondary }]}>
+              Arabic
             </Text>
-            <Pressable
-              style={[styles.fontButton, { borderColor: colors.border }]}
-              onPress={() => onEnglishFontSizeChange(Math.min(24, englishFontSize + 1))}
-            >
-              <Text style={[styles.fontButtonLabel, { color: colors.foreground }]}>
-                A+
+            <View style={styles.fontRow}>
+              <Pressable
+                style={[styles.fontButton, { borderColor: colors.border }]}
+                onPress={() => onArabicFontSizeChange(Math.max(16, arabicFontSize - 1))}
+              >
+                <Text style={[styles.fontButtonLabel, { color: colors.foreground }]}>
+                  A-
+                </Text>
+              </Pressable>
+              <Text style={[styles.fontValue, { color: colors.foreground }]}>
+                {arabicFontSize}
               </Text>
-            </Pressable>
+              <Pressable
+                style={[styles.fontButton, { borderColor: colors.border }]}
+                onPress={() => onArabicFontSizeChange(Math.min(32, arabicFontSize + 1))}
+              >
+                <Text style={[styles.fontButtonLabel, { color: colors.foreground }]}>
+                  A+
+                </Text>
+              </Pressable>
+            </View>
           </View>
-          <Text style={[styles.fontLabel, { color: colors.textSecondary }]}>
-            Arabic
-          </Text>
-          <View style={styles.fontRow}>
-            <Pressable
-              style={[styles.fontButton, { borderColor: colors.border }]}
-              onPress={() => onArabicFontSizeChange(Math.max(16, arabicFontSize - 1))}
-            >
-              <Text style={[styles.fontButtonLabel, { color: colors.foreground }]}>
-                A-
+
+          <View style={[styles.section, { borderTopColor: colors.border }]}>
+            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+              Theme
+            </Text>
+            <View style={styles.themeRow}>
+              {(
+                [
+                  { key: "default", label: "Default" },
+                  { key: "night", label: "Night" },
+                  { key: "sepia", label: "Sepia" },
+                  { key: "contrast", label: "Contrast" },
+                ] as { key: ThemeName; label: string }[]
+              ).map((t) => {
+                const isActive = themeName === t.key;
+                return (
+                  <TouchableOpacity
+                    key={t.key}
+                    style={[
+                      styles.themeButton,
+                      { borderColor: colors.border },
+                      isActive && { borderColor: colors.primary, backgroundColor: colors.muted },
+                    ]}
+                    onPress={() => {
+                      Vibration.vibrate(10);
+                      setThemeName(t.key);
+                    }}
+                  >
+                    <Text
+                      style={[
+                        styles.themeLabel,
+                        { color: isActive ? colors.primary : colors.foreground },
+                      ]}
+                    >
+                      {t.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={[styles.section, { borderTopColor: colors.border }]}>
+            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+              Arabic script
+            </Text>
+            <View style={styles.themeRow}>
+              {(
+                [
+                  { key: "uthmani", label: "Uthmani" },
+                  { key: "indopak", label: "IndoPak" },
+                ] as { key: ArabicScript; label: string }[]
+              ).map((option) => {
+                const isActive = arabicScript === option.key;
+                return (
+                  <TouchableOpacity
+                    key={option.key}
+                    style={[
+                      styles.themeButton,
+                      { borderColor: colors.border },
+                      isActive && { borderColor: colors.primary, backgroundColor: colors.muted },
+                    ]}
+                    onPress={() => {
+                      Vibration.vibrate(10);
+                      setArabicScript(option.key);
+                    }}
+                  >
+                    <Text
+                      style={[
+                        styles.themeLabel,
+                        { color: isActive ? colors.primary : colors.foreground },
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={[styles.section, { borderTopColor: colors.border }]}>
+            <View style={styles.rowBetween}>
+              <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                Arabic font
+              </Text>
+              <TouchableOpacity
+                style={[styles.resetButton, { borderColor: colors.border }]}
+                onPress={resetArabicFontTuning}
+              >
+                <Text style={[styles.resetLabel, { color: colors.primary }]}>
+                  Reset
+                </Text>
+              </TouchableOpacity>
+            </View>
+            <View style={styles.themeRow}>
+              {(Object.keys(ARABIC_FONTS) as ArabicFontId[]).map((fontId) => {
+                const isActive = arabicFontId === fontId;
+                return (
+                  <TouchableOpacity
+                    key={fontId}
+                    style={[
+                      styles.themeButton,
+                      { borderColor: colors.border },
+                      isActive && { borderColor: colors.primary, backgroundColor: colors.muted },
+                    ]}
+                    onPress={() => {
+                      Vibration.vibrate(10);
+                      setArabicFontId(fontId);
+                    }}
+                  >
+                    <Text
+                      style={[
+                        styles.themeLabel,
+                        { color: isActive ? colors.primary : colors.foreground },
+                      ]}
+                    >
+                      {ARABIC_FONTS[fontId].label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {arabicScript === "indopak" ? (
+              <Text style={[styles.fontNote, { color: colors.textSecondary }]}>
+                IndoPak text always uses Noore Hira; these fonts apply to Uthmani.
+              </Text>
+            ) : null}
+            <Text style={[styles.fontLabel, { color: colors.textSecondary }]}>
+              Line spacing
+            </Text>
+            <View style={styles.fontRow}>
+              <Pressable
+                style={[styles.fontButton, { borderColor: colors.border }]}
+                onPress={() => adjustLineHeight(-0.1)}
+              >
+                <Text style={[styles.fontButtonLabel, { color: colors.foreground }]}>
+                  -
+                </Text>
+              </Pressable>
+              <Text style={[styles.fontValue, { color: colors.foreground }]}>
+                {arabicFontTuning.lineHeight.toFixed(1)}
               </Text>
-            </Pressable>
-            <Text style={[styles.fontValue, { color: colors.foreground }]}>
-              {arabicFontSize}
+              <Pressable
+                style={[styles.fontButton, { borderColor: colors.border }]}
+                onPress={() => adjustLineHeight(0.1)}
+              >
+                <Text style={[styles.fontButtonLabel, { color: colors.foreground }]}>
+                  +
+                </Text>
+              </Pressable>
+            </View>
+            <Text style={[styles.fontLabel, { color: colors.textSecondary }]}>
+              Letter spacing
             </Text>
-            <Pressable
-              style={[styles.fontButton, { borderColor: colors.border }]}
-              onPress={() => onArabicFontSizeChange(Math.min(32, arabicFontSize + 1))}
-            >
-              <Text style={[styles.fontButtonLabel, { color: colors.foreground }]}>
-                A+
+            <View style={styles.fontRow}>
+              <Pressable
+                style={[styles.fontButton, { borderColor: colors.border }]}
+                onPress={() => adjustLetterSpacing(-0.5)}
+              >
+                <Text style={[styles.fontButtonLabel, { color: colors.foreground }]}>
+                  -
+                </Text>
+              </Pressable>
+              <Text style={[styles.fontValue, { color: colors.foreground }]}>
+                {arabicFontTuning.letterSpacing}
+              </Text>
+              <Pressable
+                style={[styles.fontButton, { borderColor: colors.border }]}
+                onPress={() => adjustLetterSpacing(0.5)}
+              >
+                <Text style={[styles.fontButtonLabel, { color: colors.foreground }]}>
+                  +
+                </Text>
+              </Pressable>
+            </View>
+            <View style={[styles.preview, { borderColor: colors.border }]}>
+              <Text
+                style={{
+                  fontSize: arabicFontSize,
+                  lineHeight: getArabicLineHeight(arabicFontSize),
+                  letterSpacing: arabicLetterSpacing,
+                  fontFamily: arabicFontFamily,
+                  color: colors.foreground,
+                  textAlign: "right",
+                  writingDirection: "rtl",
+                }}
+              >
+                {PREVIEW_VERSE}
               </Text>
-            </Pressable>
+            </View>
           </View>
-        </View>
 
-        <View style={[styles.section, { borderTopColor: colors.border }]}>
-          <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
-            Theme
-          </Text>
-          <View style={styles.themeRow}>
-            {(
-              [
-                { key: "default", label: "Default" },
-                { key: "night", label: "Night" },
-                { key: "sepia", label: "Sepia" },
-                { key: "contrast", label: "Contrast" },
-              ] as { key: ThemeName; label: string }[]
-            ).map((t) => {
-              const isActive = themeName === t.key;
-              return (
-                <TouchableOpacity
-                  key={t.key}
-                  style={[
-                    styles.themeButton,
-                    { borderColor: colors.border },
-                    isActive && { borderColor: colors.primary, backgroundColor: colors.muted },
-                  ]}
-                  onPress={() => {
-                    Vibration.vibrate(10);
-                    setThemeName(t.key);
-                  }}
-                >
-                  <Text
+          <View style={[styles.section, { borderTopColor: colors.border }]}>
+            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+              Language
+            </Text>
+            <View style={styles.themeRow}>
+              {languages.map((l) => {
+                const isActive = language === l.code;
+                return (
+                  <TouchableOpacity
+                    key={l.code}
                     style={[
-                      styles.themeLabel,
-                      { color: isActive ? colors.primary : colors.foreground },
+                      styles.themeButton,
+                      { borderColor: colors.border },
+                      isActive && { borderColor: colors.primary, backgroundColor: colors.muted },
                     ]}
+                    onPress={() => {
+                      Vibration.vibrate(10);
+                      setLanguage(l.code);
+                    }}
                   >
-                    {t.label}
-                  </Text>
-                </TouchableOpacity>
-              );
-            })}
+                    <Text
+                      style={[
+                        styles.themeLabel,
+                        { color: isActive ? colors.primary : colors.foreground },
+                      ]}
+                    >
+                      {l.name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
           </View>
-        </View>
 
-        <View style={[styles.section, { borderTopColor: colors.border }]}>
-          <SettingRow
-            label="Arabic"
-            value={settings.showArabic}
-            onToggle={() => toggle("showArabic")}
-            color={colors.foreground}
-          />
-          <SettingRow
-            label="Translation"
-            value={settings.showTranslation}
-            onToggle={() => toggle("showTranslation")}
-            color={colors.foreground}
-          />
-          <SettingRow
-            label="Transliteration"
-            value={settings.showTransliteration}
-            onToggle={() => toggle("showTransliteration")}
-            color={colors.foreground}
-          />
-          <SettingRow
-            label="Surah introduction"
-            value={settings.showIntro}
-            onToggle={() => toggle("showIntro")}
-            color={colors.foreground}
-          />
-        </View>
+          {translations.length > 0 ? (
+            <View style={[styles.section, { borderTopColor: colors.border }]}>
+              <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                Translation
+              </Text>
+              {translations.map((t) => {
+                const isActive = currentTranslation?.id === t.id;
+                return (
+                  <TouchableOpacity
+                    key={t.id}
+                    style={[
+                      styles.translationOption,
+                      { borderColor: colors.border },
+                      isActive && { borderColor: colors.primary, backgroundColor: colors.muted },
+                    ]}
+                    onPress={() => {
+                      Vibration.vibrate(10);
+                      setTranslationId(t.id);
+                    }}
+                  >
+                    <Text
+                      style={[
+                        styles.themeLabel,
+                        { color: isActive ? colors.primary : colors.foreground },
+                      ]}
+                    >
+                      {t.name}
+                    </Text>
+                    <Text style={[styles.translationMeta, { color: colors.textSecondary }]}>
+                      {t.languageName} · {t.translator}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+              {currentTranslation?.copyright ? (
+                <Text style={[styles.translationMeta, { color: colors.textSecondary }]}>
+                  {currentTranslation.copyright}
+                </Text>
+              ) : null}
+            </View>
+          ) : null}
+
+          {comparisonOptions.length > 0 ? (
+            <View style={[styles.section, { borderTopColor: colors.border }]}>
+              <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                Compare with
+              </Text>
+              {comparisonOptions.map((t) => (
+                <SettingRow
+                  key={t.id}
+                  label={`${t.name} (${t.translator})`}
+                  value={parallelTranslationIds.includes(t.id)}
+                  onToggle={() => toggleParallelTranslation(t.id)}
+                  color={colors.foreground}
+                />
+              ))}
+              {comparisonOptions.some((t) => parallelTranslationIds.includes(t.id)) ? (
+                <View style={styles.themeRow}>
+                  {(
+                    [
+                      { key: "stacked", label: "Stacked" },
+                      { key: "columns", label: "Columns" },
+                    ] as { key: TranslationLayout; label: string }[]
+                  ).map((layout) => {
+                    const isActive = translationLayout === layout.key;
+                    return (
+                      <TouchableOpacity
+                        key={layout.key}
+                        style={[
+                          styles.themeButton,
+                          { borderColor: colors.border },
+                          isActive && {
+                            borderColor: colors.primary,
+                            backgroundColor: colors.muted,
+                          },
+                        ]}
+                        onPress={() => {
+                          Vibration.vibrate(10);
+                          setTranslationLayout(layout.key);
+                        }}
+                      >
+                        <Text
+                          style={[
+                            styles.themeLabel,
+                            { color: isActive ? colors.primary : colors.foreground },
+                          ]}
+                        >
+                          {layout.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              ) : null}
+            </View>
+          ) : null}
+
+          <View style={[styles.section, { borderTopColor: colors.border }]}>
+            <SettingRow
+              label="Arabic"
+              value={settings.showArabic}
+              onToggle={() => toggle("showArabic")}
+              color={colors.foreground}
+            />
+            <SettingRow
+              label="Translation"
+              value={settings.showTranslation}
+              onToggle={() => toggle("showTranslation")}
+              color={colors.foreground}
+            />
+            <SettingRow
+              label="Transliteration"
+              value={settings.showTransliteration}
+              onToggle={() => toggle("showTransliteration")}
+              color={colors.foreground}
+            />
+            <SettingRow
+              label="Word by word"
+              value={settings.showWordByWord}
+              onToggle={() => toggle("showWordByWord")}
+              color={colors.foreground}
+            />
+            <SettingRow
+              label="Tajweed colours"
+              value={settings.showTajweed}
+              onToggle={() => toggle("showTajweed")}
+              color={colors.foreground}
+            />
+            {settings.showTajweed ? (
+              <Pressable onPress={() => setLegendOpen(true)}>
+                <Text style={[styles.legendLink, { color: colors.primary }]}>
+                  Colour guide
+                </Text>
+              </Pressable>
+            ) : null}
+            <SettingRow
+              label="Surah introduction"
+              value={settings.showIntro}
+              onToggle={() => toggle("showIntro")}
+              color={colors.foreground}
+            />
+          </View>
+        </ScrollView>
       </View>
+      <TajweedLegendModal visible={legendOpen} onClose={() => setLegendOpen(false)} />
     </Modal>
   );
 };
@@ -238,12 +600,16 @@ const styles = StyleSheet.create({
     backgroundColor: "rgba(0, 0, 0, 0.5)",
   },
   sheet: {
+    maxHeight: "90%",
     borderTopLeftRadius: 16,
     borderTopRightRadius: 16,
     paddingHorizontal: 16,
     paddingTop: 16,
     paddingBottom: 24,
   },
+  scroll: {
+    flexGrow: 0,
+  },
   header: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -310,6 +676,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "600",
   },
+  fontNote: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+  preview: {
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
   themeRow: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -325,6 +702,17 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "600",
   },
+  translationOption: {
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1,
+    marginBottom: 6,
+  },
+  translationMeta: {
+    fontSize: 11,
+    marginTop: 2,
+  },
   row: {
     flexDirection: "row",
     alignItems: "center",
@@ -335,6 +723,11 @@ const styles = StyleSheet.create({
     color: "#ffffff",
     fontSize: 15,
   },
+  legendLink: {
+    fontSize: 13,
+    fontWeight: "600",
+    paddingBottom: 10,
+  },
   toggle: {
     width: 44,
     height: 24,
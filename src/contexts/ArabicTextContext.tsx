@@ -0,0 +1,153 @@
+import React, { createContext, useContext } from "react";
+import type { ArabicScript } from "./QuranContext";
+import { DEFAULT_ARABIC_FONT_SIZES, useReaderPreferences } from "./ReaderPreferencesContext";
+
+export type ArabicFontId = "scheherazade" | "amiri" | "kfgqpc";
+
+// Spacing applied to Arabic text in the selected font
+export interface ArabicFontTuning {
+  // Line height as a multiple of the font size
+  lineHeight: number;
+  letterSpacing: number;
+}
+
+export interface ArabicFontStyle {
+  fontFamily: string;
+  fontSize: number;
+  lineHeight: number;
+  letterSpacing: number;
+}
+
+interface ArabicFontOption {
+  label: string;
+  family: string;
+  defaults: ArabicFontTuning;
+}
+
+interface ArabicTextContextType {
+  arabicScript: ArabicScript;
+  setArabicScript: (script: ArabicScript) => void;
+  // Font size for the selected script; each script remembers its own
+  arabicFontSize: number;
+  setArabicFontSize: (size: number) => void;
+  resetArabicFontSize: () => void;
+  // Font chosen for Uthmani text
+  arabicFontId: ArabicFontId;
+  setArabicFontId: (fontId: ArabicFontId) => void;
+  // Tuning of the chosen font; each font remembers its own
+  arabicFontTuning: ArabicFontTuning;
+  setArabicFontTuning: (tuning: ArabicFontTuning) => void;
+  resetArabicFontTuning: () => void;
+  // Font and spacing the selected script is rendered with
+  arabicFontFamily: string;
+  arabicLetterSpacing: number;
+  getArabicLineHeight: (fontSize: number) => number;
+  // Font and spacing for text in a given script, whichever script is selected
+  getArabicFontStyle: (script: ArabicScript, fontSize: number) => ArabicFontStyle;
+}
+
+const ArabicTextContext = createContext<ArabicTextContextType | undefined>(undefined);
+
+export const ARABIC_FONTS: Record<ArabicFontId, ArabicFontOption> = {
+  scheherazade: {
+    label: "Scheherazade",
+    family: "ScheherazadeNew_400Regular",
+    defaults: { lineHeight: 1.5, letterSpacing: 0 },
+  },
+  amiri: {
+    label: "Amiri",
+    family: "Amiri_400Regular",
+    defaults: { lineHeight: 1.8, letterSpacing: 0 },
+  },
+  kfgqpc: {
+    label: "KFGQPC Uthmanic",
+    family: "KFGQPCUthmanicHafs",
+    defaults: { lineHeight: 1.7, letterSpacing: 0 },
+  },
+};
+
+const INDOPAK_FONT: ArabicFontOption = {
+  label: "Noore Hira",
+  family: "NooreHira",
+  defaults: { lineHeight: 2, letterSpacing: 0 },
+};
+
+export const ArabicTextProvider = ({ children }: { children: React.ReactNode }) => {
+  const { preferences, updatePreferences } = useReaderPreferences();
+  const { arabicScript, arabicFontSizes, arabicFontId, arabicFontTuning: fontTuning } =
+    preferences;
+
+  const setArabicScript = (script: ArabicScript) => {
+    updatePreferences({ arabicScript: script });
+  };
+
+  const setArabicFontSize = (size: number) => {
+    updatePreferences({ arabicFontSizes: { ...arabicFontSizes, [arabicScript]: size } });
+  };
+
+  const resetArabicFontSize = () => {
+    setArabicFontSize(DEFAULT_ARABIC_FONT_SIZES[arabicScript]);
+  };
+
+  const setArabicFontId = (fontId: ArabicFontId) => {
+    updatePreferences({ arabicFontId: fontId });
+  };
+
+  const setArabicFontTuning = (tuning: ArabicFontTuning) => {
+    updatePreferences({ arabicFontTuning: { ...fontTuning, [arabicFontId]: tuning } });
+  };
+
+  const resetArabicFontTuning = () => {
+    const { [arabicFontId]: _removed, ...rest } = fontTuning;
+    updatePreferences({ arabicFontTuning: rest });
+  };
+
+  // IndoPak text always uses its own font; the picker applies to Uthmani
+  const uthmaniFont = ARABIC_FONTS[arabicFontId];
+  const activeFont = arabicScript === "indopak" ? INDOPAK_FONT : uthmaniFont;
+  const arabicFontTuning = fontTuning[arabicFontId] ?? ARABIC_FONTS[arabicFontId].defaults;
+  const activeTuning = arabicScript === "indopak" ? INDOPAK_FONT.defaults : arabicFontTuning;
+
+  const getArabicFontStyle = (script: ArabicScript, fontSize: number): ArabicFontStyle => {
+    const font = script === "indopak" ? INDOPAK_FONT : uthmaniFont;
+    const tuning = script === "indopak" ? INDOPAK_FONT.defaults : arabicFontTuning;
+    return {
+      fontFamily: font.family,
+      fontSize,
+      lineHeight: Math.ceil(fontSize * tuning.lineHeight),
+      letterSpacing: tuning.letterSpacing,
+    };
+  };
+
+  return (
+    <ArabicTextContext.Provider
+      value={{
+        arabicScript,
+        setArabicScript,
+        arabicFontSize: arabicFontSizes[arabicScript],
+        setArabicFontSize,
+        resetArabicFontSize,
+        arabicFontId,
+        setArabicFontId,
+        arabicFontTuning,
+        setArabicFontTuning,
+        resetArabicFontTuning,
+        arabicFontFamily: activeFont.family,
+        arabicLetterSpacing: activeTuning.letterSpacing,
+        getArabicFontStyle,
+        getArabicLineHeight: (fontSize: number) =>
+          Math.ceil(fontSize * activeTuning.lineHeight),
+      }}
+    >
+      {children}
+    </ArabicTextContext.Provider>
+  );
+};
+
+export const useArabicText = () => {
+  const context = useContext(ArabicTextContext);
+  if (!context) {
+    throw new Error("useArabicText must be used within ArabicTextProvider");
+  }
+  return context;
+};
@@ -0,0 +1,70 @@
+import React, { createContext, useContext } from "react";
+import { QuranLanguage } from "../services/quranApi";
+import { useReaderPreferences } from "./ReaderPreferencesContext";
+
+export type TranslationLayout = "stacked" | "columns";
+
+interface LanguageContextType {
+  // ISO 639-1 code, e.g. "en"
+  language: QuranLanguage;
+  setLanguage: (language: QuranLanguage) => void;
+  // Selected translation id; null means the default translation for `language`
+  translationId: string | null;
+  setTranslationId: (translationId: string | null) => void;
+  // Extra translations shown under each verse for comparison
+  parallelTranslationIds: string[];
+  setParallelTranslationIds: (translationIds: string[]) => void;
+  translationLayout: TranslationLayout;
+  setTranslationLayout: (layout: TranslationLayout) => void;
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+// Language and translation choices are reader preferences, so they are kept
+// on the device and follow the account like the rest
+export const LanguageProvider = ({ children }: { children: React.ReactNode }) => {
+  const { preferences, updatePreferences } = useReaderPreferences();
+  const { language, translationId, parallelTranslationIds, translationLayout } = preferences;
+
+  const setTranslationId = (next: string | null) => {
+    updatePreferences({ translationId: next });
+  };
+
+  const setParallelTranslationIds = (next: string[]) => {
+    updatePreferences({ parallelTranslationIds: next });
+  };
+
+  const setTranslationLayout = (next: TranslationLayout) => {
+    updatePreferences({ translationLayout: next });
+  };
+
+  // Changing language falls back to that language's default translation
+  const setLanguage = (next: QuranLanguage) => {
+    updatePreferences({ language: next, translationId: null });
+  };
+
+  return (
+    <LanguageContext.Provider
+      value={{
+        language,
+        setLanguage,
+        translationId,
+        setTranslationId,
+        parallelTranslationIds,
+        setParallelTranslationIds,
+        translationLayout,
+        setTranslationLayout,
+      }}
+    >
+      {children}
+    </LanguageContext.Provider>
+  );
+};
+
+export const useLanguage = () => {
+  const context = useContext(LanguageContext);
+  if (!context) {
+    throw new Error("useLanguage must be used within LanguageProvider");
+  }
+  return context;
+};
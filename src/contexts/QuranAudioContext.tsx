@@ -4,16 +4,42 @@ import React, {
   useState,
   useRef,
   useCallback,
+  useEffect,
 } from "react";
-import { Audio } from "expo-av";
+import { Audio, InterruptionModeAndroid, InterruptionModeIOS } from "expo-av";
+import { useQuery } from "@tanstack/react-query";
 import {
+  DEFAULT_RECITER_ID,
+  FALLBACK_RECITERS,
   fetchSurahAudio,
   findCurrentVerseTiming,
   getVerseTimingByNumber,
   VerseTiming,
   ReciterId,
-  RECITERS,
+  ReciterInfo,
+  RECITER_SAMPLE_VERSE,
+  SurahAudioData,
 } from "../services/quranAudioService";
+import { reciterCatalogQuery } from "../services/quranQueries";
+import {
+  RepeatPlan,
+  RepeatPosition,
+  getFirstRepeatPosition,
+  getNextRepeatPosition,
+  getNextVersePosition,
+  getPreviousVersePosition,
+  isRepeatRestart,
+  normalizeRepeatSettings,
+} from "../services/quranRepeatPlan";
+import {
+  PlaybackQueue,
+  QueueItem,
+  getCurrentQueueItem,
+  getNextQueueStep,
+} from "../services/quranPlaybackQueue";
+import { useReaderPreferences } from "./ReaderPreferencesContext";
+import { useQuran } from "./QuranContext";
+import { NowPlaying, useMediaControls } from "../hooks/useMediaControls";
 
 // Unified playback state enum - single source of truth for all UI components
 export type PlaybackState = "idle" | "loading" | "playing" | "paused";
@@ -28,7 +54,18 @@ interface QuranAudioContextType {
   currentTime: number;
   duration: number;
   selectedReciterId: ReciterId;
+  // Reciters the proxy serves, or the built-in list until it has loaded
+  reciters: ReciterInfo[];
+  // False when the loaded audio has no verse timings, so only whole-surah
+  // playback works
+  hasVerseTimings: boolean;
   pendingVerseNumber: number | null;
+  // Memorisation plan being played, and the step it has reached
+  repeatPlan: RepeatPlan | null;
+  repeatPosition: RepeatPosition | null;
+  // Playlist being played, and whether finished surahs roll on to the next
+  playbackQueue: PlaybackQueue | null;
+  continuousPlayback: boolean;
 
   // Derived helpers for convenience
   isPlaying: boolean;
@@ -37,15 +74,50 @@ interface QuranAudioContextType {
   // Actions
   loadSurahAudio: (surahId: number, reciterId?: ReciterId) => Promise<void>;
   playVerse: (surahId: number, verseNumber: number) => Promise<void>;
+  // Plays from the first verse through the last, then pauses
+  playVerseRange: (surahId: number, startVerse: number, endVerse: number) => Promise<void>;
   playSurah: (surahId: number, fromVerse?: number) => Promise<void>;
   pause: () => void;
   resume: () => void;
   togglePlayPause: () => void;
   stop: () => void;
   seekTo: (timeInSeconds: number) => void;
+  // Switches reciter, reloading the current surah at the same verse
   setReciter: (reciterId: ReciterId) => void;
+  // Reciter whose sample clip is playing, if any
+  previewReciterId: ReciterId | null;
+  previewReciter: (reciterId: ReciterId) => Promise<void>;
+  stopPreview: () => void;
+  // Plays a verse range under a repeat plan, replacing any running plan
+  playRepeat: (plan: RepeatPlan) => Promise<void>;
+  // Ends the plan, letting the recitation carry on past the current verse
+  stopRepeat: () => void;
+  // Plays the items in order, replacing any queue
+  playQueue: (items: QueueItem[], startIndex?: number) => Promise<void>;
+  // Queues an item after the last, or plays it when nothing is loaded
+  addToQueue: (item: QueueItem) => Promise<void>;
+  removeFromQueue: (index: number) => void;
+  // Drops the queue; the current item plays to its end
+  clearQueue: () => void;
+  setContinuousPlayback: (enabled: boolean) => void;
 }
 
+interface PreloadedAudio {
+  data: SurahAudioData;
+  sound: Audio.Sound;
+}
+
+// A saved reciter the catalogue no longer lists falls back to the default, or
+// to the first listed reciter if the default is gone too
+const resolveReciterId = (
+  reciterId: ReciterId,
+  catalog: ReciterInfo[] | undefined
+): ReciterId => {
+  if (!catalog || catalog.some((reciter) => reciter.id === reciterId)) return reciterId;
+  if (catalog.some((reciter) => reciter.id === DEFAULT_RECITER_ID)) return DEFAULT_RECITER_ID;
+  return catalog[0]?.id ?? DEFAULT_RECITER_ID;
+};
+
 const QuranAudioContext = createContext<QuranAudioContextType | undefined>(
   undefined
 );
@@ -55,7 +127,28 @@ export function QuranAudioProvider({ children }: { children: React.ReactNode })
   const pendingActionRef = useRef<(() => void) | null>(null);
   // Ref for single-verse end time (in milliseconds)
   const singleVerseEndTimeRef = useRef<number | null>(null);
-  const loadingPromiseRef = useRef<Promise<void> | null>(null);
+  // Surah audio being loaded, and for which reciter
+  const loadingRef = useRef<{
+    surahId: number;
+    reciterId: ReciterId;
+    promise: Promise<void>;
+  } | null>(null);
+  // The status handler is attached once per sound, so it reads timings and the
+  // repeat plan through refs rather than state
+  const verseTimingsRef = useRef<VerseTiming[]>([]);
+  const repeatPlanRef = useRef<RepeatPlan | null>(null);
+  const repeatPositionRef = useRef<RepeatPosition | null>(null);
+  // Set while the player waits out the gap between repetitions
+  const repeatGapTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const queueRef = useRef<PlaybackQueue | null>(null);
+  // Next queue item's audio, loaded while the current one plays
+  const preloadRef = useRef<{
+    surahId: number;
+    reciterId: ReciterId;
+    ready: Promise<PreloadedAudio | null>;
+  } | null>(null);
+  // Set each render; the status handler calls it when an item ends
+  const advanceQueueRef = useRef<() => void>(() => {});
 
   // State
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
@@ -65,56 +158,205 @@ export function QuranAudioProvider({ children }: { children: React.ReactNode })
   const [playbackState, setPlaybackState] = useState<PlaybackState>("idle");
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
-  const [selectedReciterId, setSelectedReciterId] = useState<ReciterId>(
-    RECITERS.MISHARY_ALAFASY
-  );
+  const { preferences, updatePreferences } = useReaderPreferences();
+  const { data: reciterCatalog } = useQuery(reciterCatalogQuery());
+  const reciters = reciterCatalog ?? FALLBACK_RECITERS;
+  const selectedReciterId = resolveReciterId(preferences.reciterId, reciterCatalog);
+  const continuousPlayback = preferences.continuousPlayback;
+  // Reciter of the audio currently loaded, which lags the preference while switching
+  const loadedReciterRef = useRef<ReciterId | null>(null);
+  const previewSoundRef = useRef<Audio.Sound | null>(null);
+  // Bumped on every sample request, so a slow load can tell it was superseded
+  const previewRequestRef = useRef(0);
+  const [previewReciterId, setPreviewReciterId] = useState<ReciterId | null>(null);
   const [isSingleVerseMode, setIsSingleVerseMode] = useState(false);
   const [pendingVerseNumber, setPendingVerseNumber] = useState<number | null>(
     null
   );
+  const [repeatPlan, setRepeatPlan] = useState<RepeatPlan | null>(null);
+  const [repeatPosition, setRepeatPosition] = useState<RepeatPosition | null>(null);
+  const [playbackQueue, setPlaybackQueue] = useState<PlaybackQueue | null>(null);
+  // Values the queue reads when advancing from the status handler
+  const latestRef = useRef({ currentChapterId, selectedReciterId, continuousPlayback });
+  latestRef.current = { currentChapterId, selectedReciterId, continuousPlayback };
 
   // Derived state for convenience
   const isPlaying = playbackState === "playing";
   const isLoading = playbackState === "loading";
+  const hasVerseTimings = verseTimings.length > 0;
 
-  const ensureSound = useCallback(async () => {
-    if (soundRef.current) return soundRef.current;
+  const applyVerseTimings = useCallback((timings: VerseTiming[]) => {
+    verseTimingsRef.current = timings;
+    setVerseTimings(timings);
+  }, []);
 
-    const sound = new Audio.Sound();
-    soundRef.current = sound;
+  const updateRepeatPosition = useCallback((position: RepeatPosition | null) => {
+    repeatPositionRef.current = position;
+    setRepeatPosition(position);
+  }, []);
 
-    sound.setOnPlaybackStatusUpdate((status) => {
-      if (!status.isLoaded) return;
+  const updateQueue = useCallback((queue: PlaybackQueue | null) => {
+    queueRef.current = queue;
+    setPlaybackQueue(queue);
+  }, []);
 
-      setCurrentTime(status.positionMillis / 1000);
-      setDuration((status.durationMillis || 0) / 1000);
+  // Stop at the end of the current queue item when it is a verse range
+  const applyQueueRangeEnd = useCallback((timings: VerseTiming[]) => {
+    const item = getCurrentQueueItem(queueRef.current);
+    const endTiming = item?.endVerse
+      ? getVerseTimingByNumber(item.surahId, item.endVerse, timings)
+      : null;
+    singleVerseEndTimeRef.current = endTiming ? endTiming.timestamp_to : null;
+  }, []);
 
-      if (status.isPlaying) {
-        setPlaybackState("playing");
-      } else if (status.positionMillis > 0 && !status.didJustFinish) {
-        setPlaybackState("paused");
+  const clearRepeatGap = useCallback(() => {
+    if (repeatGapTimerRef.current) {
+      clearTimeout(repeatGapTimerRef.current);
+      repeatGapTimerRef.current = null;
+    }
+  }, []);
+
+  const clearRepeatPlan = useCallback(() => {
+    clearRepeatGap();
+    repeatPlanRef.current = null;
+    setRepeatPlan(null);
+    updateRepeatPosition(null);
+  }, [clearRepeatGap, updateRepeatPosition]);
+
+  // Seek to a step's verse and play it, stopping at the verse end
+  const playRepeatStep = useCallback(
+    async (position: RepeatPosition) => {
+      const plan = repeatPlanRef.current;
+      const sound = soundRef.current;
+      if (!plan || !sound) return;
+
+      const timing = getVerseTimingByNumber(
+        plan.surahId,
+        position.verseNumber,
+        verseTimingsRef.current
+      );
+      if (!timing) {
+        console.warn(`Could not find timing for verse ${position.verseNumber}`);
+        clearRepeatPlan();
+        setPlaybackState("idle");
+        return;
       }
 
-      if (
-        singleVerseEndTimeRef.current !== null &&
-        status.positionMillis >= singleVerseEndTimeRef.current
-      ) {
-        sound.pauseAsync();
-        setPlaybackState("paused");
-        setIsSingleVerseMode(false);
+      updateRepeatPosition(position);
+      await sound.setPositionAsync(timing.timestamp_from);
+      setCurrentVerseKey(timing.verse_key);
+      singleVerseEndTimeRef.current = timing.timestamp_to;
+      try {
+        await sound.playAsync();
+        setPlaybackState("playing");
+      } catch (error) {
+        console.error("Playback failed:", error);
         singleVerseEndTimeRef.current = null;
+        clearRepeatPlan();
+        setPlaybackState("idle");
       }
+    },
+    [clearRepeatPlan, updateRepeatPosition]
+  );
 
-      if (status.isPlaying && verseTimings.length > 0) {
-        const timing = findCurrentVerseTiming(status.positionMillis, verseTimings);
-        if (timing && timing.verse_key !== currentVerseKey) {
-          setCurrentVerseKey(timing.verse_key);
-        }
+  // Runs at the end of each verse while a plan is active. Moving on to the next
+  // verse just extends the boundary; going back pauses for the gap and seeks.
+  const advanceRepeat = useCallback(() => {
+    const plan = repeatPlanRef.current;
+    const position = repeatPositionRef.current;
+    const sound = soundRef.current;
+    if (!plan || !position || !sound) return;
+
+    const next = getNextRepeatPosition(plan, position);
+    if (!next) {
+      singleVerseEndTimeRef.current = null;
+      sound.pauseAsync();
+      setPlaybackState("paused");
+      clearRepeatPlan();
+      return;
+    }
+
+    if (!isRepeatRestart(position, next)) {
+      const timing = getVerseTimingByNumber(
+        plan.surahId,
+        next.verseNumber,
+        verseTimingsRef.current
+      );
+      if (timing) {
+        updateRepeatPosition(next);
+        singleVerseEndTimeRef.current = timing.timestamp_to;
+        return;
       }
-    });
+    }
 
+    singleVerseEndTimeRef.current = null;
+    sound.pauseAsync();
+    // Count the step as reached so pausing in the gap resumes it, not the last one
+    updateRepeatPosition(next);
+    repeatGapTimerRef.current = setTimeout(() => {
+      repeatGapTimerRef.current = null;
+      void playRepeatStep(next);
+    }, plan.gapSeconds * 1000);
+  }, [clearRepeatPlan, playRepeatStep, updateRepeatPosition]);
+
+  const attachStatusHandler = useCallback(
+    (sound: Audio.Sound) => {
+      sound.setOnPlaybackStatusUpdate((status) => {
+        if (!status.isLoaded) return;
+
+        setCurrentTime(status.positionMillis / 1000);
+        setDuration((status.durationMillis || 0) / 1000);
+
+        if (status.isPlaying) {
+          setPlaybackState("playing");
+        } else if (
+          status.positionMillis > 0 &&
+          !status.didJustFinish &&
+          // A repeat gap pauses the sound, but the plan is still playing
+          !repeatGapTimerRef.current
+        ) {
+          setPlaybackState("paused");
+        }
+
+        if (
+          singleVerseEndTimeRef.current !== null &&
+          (status.positionMillis >= singleVerseEndTimeRef.current || status.didJustFinish)
+        ) {
+          if (repeatPlanRef.current) {
+            advanceRepeat();
+          } else if (queueRef.current) {
+            // End of a queued verse range
+            singleVerseEndTimeRef.current = null;
+            advanceQueueRef.current();
+          } else {
+            sound.pauseAsync();
+            setPlaybackState("paused");
+            setIsSingleVerseMode(false);
+            singleVerseEndTimeRef.current = null;
+          }
+        } else if (status.didJustFinish && !repeatPlanRef.current) {
+          advanceQueueRef.current();
+        }
+
+        if (status.isPlaying && verseTimingsRef.current.length > 0) {
+          const timing = findCurrentVerseTiming(status.positionMillis, verseTimingsRef.current);
+          if (timing) {
+            setCurrentVerseKey(timing.verse_key);
+          }
+        }
+      });
+    },
+    [advanceRepeat]
+  );
+
+  const ensureSound = useCallback(async () => {
+    if (soundRef.current) return soundRef.current;
+
+    const sound = new Audio.Sound();
+    soundRef.current = sound;
+    attachStatusHandler(sound);
     return sound;
-  }, [currentVerseKey, verseTimings]);
+  }, [attachStatusHandler]);
 
   // Clear single-verse end boundary
   const clearVerseEndBoundary = useCallback(() => {
@@ -127,13 +369,18 @@ export function QuranAudioProvider({ children }: { children: React.ReactNode })
       const reciter = reciterId || selectedReciterId;
 
       // If already loaded for this surah and reciter, skip
-      if (currentChapterId === surahId && audioUrl) {
+      if (currentChapterId === surahId && audioUrl && loadedReciterRef.current === reciter) {
         return;
       }
 
-      if (loadingPromiseRef.current) {
-        await loadingPromiseRef.current;
-        return;
+      // A repeat or the queue can ask for another surah or reciter while one is
+      // still loading, so only a load of the same audio satisfies this call
+      while (loadingRef.current) {
+        const inFlight = loadingRef.current;
+        await inFlight.promise.catch(() => {});
+        if (inFlight.surahId === surahId && inFlight.reciterId === reciter) {
+          return;
+        }
       }
 
       setPlaybackState("loading");
@@ -143,9 +390,10 @@ export function QuranAudioProvider({ children }: { children: React.ReactNode })
         const data = await fetchSurahAudio(surahId, reciter);
 
         setAudioUrl(data.audioUrl);
-        setVerseTimings(data.verseTimings);
+        applyVerseTimings(data.verseTimings);
         setCurrentChapterId(surahId);
         setDuration(data.duration);
+        loadedReciterRef.current = reciter;
 
         const sound = await ensureSound();
         const status = await sound.getStatusAsync();
@@ -163,37 +411,68 @@ export function QuranAudioProvider({ children }: { children: React.ReactNode })
         }
       };
 
+      const load = { surahId, reciterId: reciter, promise: performLoad() };
       try {
-        loadingPromiseRef.current = performLoad();
-        await loadingPromiseRef.current;
+        loadingRef.current = load;
+        await load.promise;
       } catch (error) {
         console.error("Failed to load surah audio:", error);
         setPendingVerseNumber(null);
         setPlaybackState("idle");
       } finally {
-        loadingPromiseRef.current = null;
+        if (loadingRef.current === load) {
+          loadingRef.current = null;
+        }
       }
     },
-    [selectedReciterId, currentChapterId, audioUrl, clearVerseEndBoundary, ensureSound]
+    [
+      selectedReciterId,
+      currentChapterId,
+      audioUrl,
+      clearVerseEndBoundary,
+      ensureSound,
+      applyVerseTimings,
+    ]
   );
 
-  // Play a specific verse
-  const playVerse = useCallback(
-    async (surahId: number, verseNumber: number) => {
+  // Play a run of verses, stopping at the end of the last one
+  const playVerseRange = useCallback(
+    async (surahId: number, startVerse: number, endVerse: number) => {
       const sound = await ensureSound();
+      clearRepeatPlan();
+      updateQueue(null);
 
-      setPendingVerseNumber(verseNumber);
+      setPendingVerseNumber(startVerse);
 
       if (currentChapterId !== surahId || !audioUrl) {
-        pendingActionRef.current = () => playVerse(surahId, verseNumber);
+        pendingActionRef.current = () => playVerseRange(surahId, startVerse, endVerse);
         await loadSurahAudio(surahId);
         return;
       }
 
-      const timing = getVerseTimingByNumber(surahId, verseNumber, verseTimings);
-      if (!timing) {
+      // Without timings there is no verse to seek to, so play the surah through
+      if (verseTimings.length === 0) {
+        clearVerseEndBoundary();
+        setIsSingleVerseMode(false);
+        setPendingVerseNumber(null);
+        try {
+          await sound.playAsync();
+          setPlaybackState("playing");
+        } catch (error) {
+          console.error("Playback failed:", error);
+          setPlaybackState("idle");
+        }
+        return;
+      }
+
+      const timing = getVerseTimingByNumber(surahId, startVerse, verseTimings);
+      const endTiming =
+        endVerse === startVerse
+          ? timing
+          : getVerseTimingByNumber(surahId, endVerse, verseTimings);
+      if (!timing || !endTiming) {
         setPendingVerseNumber(null);
-        console.warn(`Could not find timing for verse ${verseNumber}`);
+        console.warn(`Could not find timing for verses ${startVerse}-${endVerse}`);
         return;
       }
 
@@ -202,7 +481,7 @@ export function QuranAudioProvider({ children }: { children: React.ReactNode })
       await sound.setPositionAsync(timing.timestamp_from);
       setCurrentVerseKey(timing.verse_key);
       setIsSingleVerseMode(true);
-      singleVerseEndTimeRef.current = timing.timestamp_to;
+      singleVerseEndTimeRef.current = endTiming.timestamp_to;
 
       try {
         await sound.playAsync();
@@ -221,13 +500,26 @@ export function QuranAudioProvider({ children }: { children: React.ReactNode })
       verseTimings,
       loadSurahAudio,
       clearVerseEndBoundary,
+      clearRepeatPlan,
+      updateQueue,
     ]
   );
 
+  // Play a specific verse
+  const playVerse = useCallback(
+    (surahId: number, verseNumber: number) => playVerseRange(surahId, verseNumber, verseNumber),
+    [playVerseRange]
+  );
+
   // Play entire surah
   const playSurah = useCallback(
     async (surahId: number, fromVerse?: number) => {
       const sound = await ensureSound();
+      clearRepeatPlan();
+      // Skipping around the surah being played keeps the rest of the queue
+      if (getCurrentQueueItem(queueRef.current)?.surahId !== surahId) {
+        updateQueue(null);
+      }
 
       if (currentChapterId !== surahId || !audioUrl) {
         pendingActionRef.current = () => playSurah(surahId, fromVerse);
@@ -254,7 +546,15 @@ export function QuranAudioProvider({ children }: { children: React.ReactNode })
         setPlaybackState("idle");
       }
     },
-    [currentChapterId, audioUrl, verseTimings, loadSurahAudio, clearVerseEndBoundary]
+    [
+      currentChapterId,
+      audioUrl,
+      verseTimings,
+      loadSurahAudio,
+      clearVerseEndBoundary,
+      clearRepeatPlan,
+      updateQueue,
+    ]
   );
 
   // Pause playback
@@ -264,16 +564,25 @@ export function QuranAudioProvider({ children }: { children: React.ReactNode })
       sound.pauseAsync();
       setPlaybackState("paused");
       clearVerseEndBoundary();
+      // A running plan keeps its place and picks up again on resume
+      clearRepeatGap();
     }
-  }, [clearVerseEndBoundary]);
+  }, [clearVerseEndBoundary, clearRepeatGap]);
 
   // Resume playback
   const resume = useCallback(async () => {
     const sound = soundRef.current;
     if (!sound || !audioUrl) return;
 
+    // Repeat steps restart from the top of the verse
+    if (repeatPlanRef.current && repeatPositionRef.current) {
+      await playRepeatStep(repeatPositionRef.current);
+      return;
+    }
+
     setIsSingleVerseMode(false);
-    clearVerseEndBoundary();
+    // Pausing drops the boundary, so a queued range needs its end again
+    applyQueueRangeEnd(verseTimingsRef.current);
 
     try {
       await sound.playAsync();
@@ -281,7 +590,7 @@ export function QuranAudioProvider({ children }: { children: React.ReactNode })
     } catch (error) {
       console.error("Resume failed:", error);
     }
-  }, [audioUrl, clearVerseEndBoundary]);
+  }, [audioUrl, applyQueueRangeEnd, playRepeatStep]);
 
   // Toggle play/pause
   const togglePlayPause = useCallback(() => {
@@ -303,13 +612,20 @@ export function QuranAudioProvider({ children }: { children: React.ReactNode })
     setCurrentVerseKey(null);
     setIsSingleVerseMode(false);
     clearVerseEndBoundary();
-  }, [clearVerseEndBoundary]);
+    clearRepeatPlan();
+    updateQueue(null);
+  }, [clearVerseEndBoundary, clearRepeatPlan, updateQueue]);
 
   // Seek to a specific time
   const seekTo = useCallback(
     (timeInSeconds: number) => {
       const sound = soundRef.current;
       if (!sound) return;
+      // Seeking by hand takes over from a running plan
+      if (repeatPlanRef.current) {
+        clearRepeatPlan();
+        clearVerseEndBoundary();
+      }
       sound.setPositionAsync(timeInSeconds * 1000);
       setCurrentTime(timeInSeconds);
       const timing = findCurrentVerseTiming(timeInSeconds * 1000, verseTimings);
@@ -317,22 +633,545 @@ export function QuranAudioProvider({ children }: { children: React.ReactNode })
         setCurrentVerseKey(timing.verse_key);
       }
     },
-    [verseTimings]
+    [verseTimings, clearRepeatPlan, clearVerseEndBoundary]
+  );
+
+  // Reload the loaded surah in another reciter's voice, keeping the verse and
+  // whether it was playing
+  const switchLoadedReciter = useCallback(
+    async (reciterId: ReciterId) => {
+      const sound = soundRef.current;
+      const chapterId = currentChapterId;
+      if (!sound || chapterId === null || loadedReciterRef.current === reciterId) return;
+
+      const status = await sound.getStatusAsync();
+      const wasPlaying = status.isLoaded && status.isPlaying;
+      const verseNumber = currentVerseKey ? parseInt(currentVerseKey.split(":")[1], 10) : null;
+
+      clearVerseEndBoundary();
+      clearRepeatGap();
+      setIsSingleVerseMode(false);
+      setPlaybackState("loading");
+      try {
+        const data = await fetchSurahAudio(chapterId, reciterId);
+        if (status.isLoaded) {
+          await sound.unloadAsync();
+        }
+        await sound.loadAsync({ uri: data.audioUrl });
+        setAudioUrl(data.audioUrl);
+        applyVerseTimings(data.verseTimings);
+        setDuration(data.duration);
+        loadedReciterRef.current = reciterId;
+
+        // A running plan carries on from its current step in the new voice
+        const repeatStep = repeatPositionRef.current;
+        if (repeatPlanRef.current && repeatStep) {
+          if (wasPlaying) {
+            await playRepeatStep(repeatStep);
+          } else {
+            setPlaybackState("paused");
+          }
+          return;
+        }
+
+        const timing = verseNumber
+          ? getVerseTimingByNumber(chapterId, verseNumber, data.verseTimings)
+          : null;
+        if (timing) {
+          await sound.setPositionAsync(timing.timestamp_from);
+        }
+        applyQueueRangeEnd(data.verseTimings);
+        if (wasPlaying) {
+          await sound.playAsync();
+          setPlaybackState("playing");
+        } else {
+          setPlaybackState(timing ? "paused" : "idle");
+        }
+      } catch (error) {
+        console.error("Failed to switch reciter:", error);
+        // Drop the old audio so the next play loads the chosen reciter
+        setAudioUrl(null);
+        setCurrentChapterId(null);
+        applyVerseTimings([]);
+        clearRepeatPlan();
+        loadedReciterRef.current = null;
+        setPlaybackState("idle");
+      }
+    },
+    [
+      currentChapterId,
+      currentVerseKey,
+      clearVerseEndBoundary,
+      clearRepeatGap,
+      clearRepeatPlan,
+      applyVerseTimings,
+      applyQueueRangeEnd,
+      playRepeatStep,
+    ]
   );
 
   // Set reciter
   const setReciter = useCallback(
     (reciterId: ReciterId) => {
-      if (reciterId !== selectedReciterId) {
-        setSelectedReciterId(reciterId);
-        setAudioUrl(null);
-        setCurrentChapterId(null);
-        setVerseTimings([]);
+      if (reciterId === selectedReciterId) return;
+      updatePreferences({ reciterId });
+    },
+    [selectedReciterId, updatePreferences]
+  );
+
+  // Follow the preference, including changes synced from another device
+  useEffect(() => {
+    void switchLoadedReciter(selectedReciterId);
+    // Only a reciter change should reload the audio
+  }, [selectedReciterId]);
+
+  const stopPreview = useCallback(() => {
+    previewRequestRef.current += 1;
+    const preview = previewSoundRef.current;
+    previewSoundRef.current = null;
+    setPreviewReciterId(null);
+    if (preview) {
+      preview.setOnPlaybackStatusUpdate(null);
+      preview.unloadAsync().catch(() => {});
+    }
+  }, []);
+
+  // Play a reciter's sample verse on its own sound, pausing the main player
+  const previewReciter = useCallback(
+    async (reciterId: ReciterId) => {
+      stopPreview();
+      const request = previewRequestRef.current;
+      if (soundRef.current && playbackState === "playing") {
+        soundRef.current.pauseAsync();
+        setPlaybackState("paused");
+        clearVerseEndBoundary();
+      }
+      setPreviewReciterId(reciterId);
+
+      try {
+        const { surahId, verseNumber } = RECITER_SAMPLE_VERSE;
+        const data = await fetchSurahAudio(surahId, reciterId);
+        const timing = getVerseTimingByNumber(surahId, verseNumber, data.verseTimings);
+        const { sound: preview } = await Audio.Sound.createAsync(
+          { uri: data.audioUrl },
+          { positionMillis: timing?.timestamp_from ?? 0 }
+        );
+        // Another sample was picked, or the preview stopped, while this one loaded
+        if (request !== previewRequestRef.current) {
+          await preview.unloadAsync();
+          return;
+        }
+        previewSoundRef.current = preview;
+        preview.setOnPlaybackStatusUpdate((status) => {
+          if (!status.isLoaded) return;
+          const ended = timing
+            ? status.positionMillis >= timing.timestamp_to
+            : status.didJustFinish;
+          if (ended && previewSoundRef.current === preview) {
+            stopPreview();
+          }
+        });
+        await preview.playAsync();
+      } catch (error) {
+        console.error("Failed to play reciter sample:", error);
+        if (request === previewRequestRef.current) {
+          setPreviewReciterId(null);
+        }
+      }
+    },
+    [playbackState, stopPreview, clearVerseEndBoundary]
+  );
+
+  useEffect(() => stopPreview, [stopPreview]);
+
+  const playRepeat = useCallback(
+    async (plan: RepeatPlan) => {
+      stopPreview();
+      clearRepeatPlan();
+      updateQueue(null);
+      clearVerseEndBoundary();
+      setIsSingleVerseMode(false);
+
+      if (
+        currentChapterId !== plan.surahId ||
+        !audioUrl ||
+        loadedReciterRef.current !== selectedReciterId
+      ) {
+        setPendingVerseNumber(plan.startVerse);
+        await loadSurahAudio(plan.surahId);
+        setPendingVerseNumber(null);
+      }
+
+      const normalized: RepeatPlan = { ...plan, ...normalizeRepeatSettings(plan) };
+      repeatPlanRef.current = normalized;
+      setRepeatPlan(normalized);
+      await playRepeatStep(getFirstRepeatPosition(normalized));
+    },
+    [
+      currentChapterId,
+      audioUrl,
+      selectedReciterId,
+      loadSurahAudio,
+      stopPreview,
+      clearRepeatPlan,
+      updateQueue,
+      clearVerseEndBoundary,
+      playRepeatStep,
+    ]
+  );
+
+  const stopRepeat = useCallback(() => {
+    const wasInGap = repeatGapTimerRef.current !== null;
+    clearRepeatPlan();
+    clearVerseEndBoundary();
+    if (wasInGap) {
+      setPlaybackState("paused");
+    }
+  }, [clearRepeatPlan, clearVerseEndBoundary]);
+
+  useEffect(() => clearRepeatGap, [clearRepeatGap]);
+
+  // ============= Queue =============
+
+  const discardPreload = useCallback(() => {
+    const preload = preloadRef.current;
+    preloadRef.current = null;
+    preload?.ready.then((audio) => audio?.sound.unloadAsync()).catch(() => {});
+  }, []);
+
+  const preloadSurahAudio = useCallback(
+    (surahId: number, reciterId: ReciterId) => {
+      discardPreload();
+      const ready = (async (): Promise<PreloadedAudio | null> => {
+        try {
+          const data = await fetchSurahAudio(surahId, reciterId);
+          const { sound } = await Audio.Sound.createAsync(
+            { uri: data.audioUrl },
+            { shouldPlay: false }
+          );
+          return { data, sound };
+        } catch (error) {
+          console.warn("Failed to preload the next surah:", error);
+          return null;
+        }
+      })();
+      preloadRef.current = { surahId, reciterId, ready };
+    },
+    [discardPreload]
+  );
+
+  // Hands over the preloaded audio if it is for this surah and reciter
+  const takePreload = useCallback(
+    async (surahId: number, reciterId: ReciterId): Promise<PreloadedAudio | null> => {
+      const preload = preloadRef.current;
+      if (!preload || preload.surahId !== surahId || preload.reciterId !== reciterId) {
+        discardPreload();
+        return null;
       }
+      preloadRef.current = null;
+      return preload.ready;
     },
-    [selectedReciterId]
+    [discardPreload]
   );
 
+  // Play the queue's current item, reusing the loaded or preloaded audio when
+  // it is the right surah
+  const startQueueItem = useCallback(
+    async (queue: PlaybackQueue) => {
+      const item = queue.items[queue.index];
+      const { currentChapterId: loadedChapterId, selectedReciterId: reciterId } =
+        latestRef.current;
+      updateQueue(queue);
+      clearVerseEndBoundary();
+      setIsSingleVerseMode(false);
+      setPendingVerseNumber(item.startVerse ?? 1);
+
+      try {
+        let sound = soundRef.current;
+        let timings = verseTimingsRef.current;
+        const isLoaded =
+          !!sound && loadedChapterId === item.surahId && loadedReciterRef.current === reciterId;
+
+        if (!sound || !isLoaded) {
+          setPlaybackState("loading");
+          const preloaded = await takePreload(item.surahId, reciterId);
+          let data: SurahAudioData;
+          if (preloaded) {
+            const previous = soundRef.current;
+            previous?.setOnPlaybackStatusUpdate(null);
+            previous?.unloadAsync().catch(() => {});
+            sound = preloaded.sound;
+            soundRef.current = sound;
+            attachStatusHandler(sound);
+            data = preloaded.data;
+          } else {
+            data = await fetchSurahAudio(item.surahId, reciterId);
+            sound = await ensureSound();
+            const status = await sound.getStatusAsync();
+            if (status.isLoaded) {
+              await sound.unloadAsync();
+            }
+            await sound.loadAsync({ uri: data.audioUrl });
+          }
+          setAudioUrl(data.audioUrl);
+          applyVerseTimings(data.verseTimings);
+          setCurrentChapterId(item.surahId);
+          setDuration(data.duration);
+          loadedReciterRef.current = reciterId;
+          timings = data.verseTimings;
+        }
+
+        // The queue was cleared or replaced while this loaded
+        if (queueRef.current !== queue) {
+          setPlaybackState("idle");
+          return;
+        }
+
+        const startTiming = getVerseTimingByNumber(
+          item.surahId,
+          item.startVerse ?? 1,
+          timings
+        );
+        await sound.setPositionAsync(item.startVerse ? (startTiming?.timestamp_from ?? 0) : 0);
+        setCurrentVerseKey(startTiming?.verse_key ?? null);
+        applyQueueRangeEnd(timings);
+        await sound.playAsync();
+        setPlaybackState("playing");
+      } catch (error) {
+        console.error("Failed to play queued surah:", error);
+        updateQueue(null);
+        setPlaybackState("idle");
+      } finally {
+        setPendingVerseNumber(null);
+      }
+    },
+    [
+      updateQueue,
+      clearVerseEndBoundary,
+      takePreload,
+      attachStatusHandler,
+      ensureSound,
+      applyVerseTimings,
+      applyQueueRangeEnd,
+    ]
+  );
+
+  // Move on when an item ends: the next queued item, the next surah when
+  // continuous playback is on, or stop
+  const advanceQueue = useCallback(() => {
+    const { currentChapterId: chapterId, continuousPlayback: continuous } = latestRef.current;
+    const next = getNextQueueStep(queueRef.current, chapterId, continuous);
+    if (!next) {
+      updateQueue(null);
+      setPlaybackState("idle");
+      return;
+    }
+    void startQueueItem(next);
+  }, [startQueueItem, updateQueue]);
+  advanceQueueRef.current = advanceQueue;
+
+  // Step a verse forward or back within whatever is playing: a running plan
+  // moves to its next or previous verse, and a queued range stays in bounds,
+  // moving on to the next item past its end
+  const skipVerse = useCallback(
+    async (offset: 1 | -1) => {
+      const sound = soundRef.current;
+      if (!sound) return;
+
+      const plan = repeatPlanRef.current;
+      const position = repeatPositionRef.current;
+      if (plan && position) {
+        clearRepeatGap();
+        const next =
+          offset > 0
+            ? getNextVersePosition(plan, position)
+            : getPreviousVersePosition(plan, position);
+        if (next) {
+          await playRepeatStep(next);
+        } else {
+          singleVerseEndTimeRef.current = null;
+          sound.pauseAsync();
+          setPlaybackState("paused");
+          clearRepeatPlan();
+        }
+        return;
+      }
+
+      const chapterId = latestRef.current.currentChapterId;
+      const verseNumber = currentVerseKey ? parseInt(currentVerseKey.split(":")[1], 10) : null;
+      if (chapterId === null || verseNumber === null) return;
+
+      const item = getCurrentQueueItem(queueRef.current);
+      const range = item?.surahId === chapterId ? item : null;
+      let target = verseNumber + offset;
+      if (range?.startVerse && target < range.startVerse) {
+        target = range.startVerse;
+      }
+      const timing =
+        range?.endVerse && target > range.endVerse
+          ? null
+          : getVerseTimingByNumber(chapterId, target, verseTimingsRef.current);
+      if (!timing) {
+        // Past the end of the item or surah, carry on as if it had finished
+        if (offset > 0 && (queueRef.current || latestRef.current.continuousPlayback)) {
+          singleVerseEndTimeRef.current = null;
+          advanceQueue();
+        }
+        return;
+      }
+
+      await sound.setPositionAsync(timing.timestamp_from);
+      setCurrentVerseKey(timing.verse_key);
+      setIsSingleVerseMode(false);
+      if (range) {
+        applyQueueRangeEnd(verseTimingsRef.current);
+      } else {
+        clearVerseEndBoundary();
+      }
+      try {
+        await sound.playAsync();
+        setPlaybackState("playing");
+      } catch (error) {
+        console.error("Playback failed:", error);
+        setPlaybackState("idle");
+      }
+    },
+    [
+      currentVerseKey,
+      advanceQueue,
+      applyQueueRangeEnd,
+      clearRepeatGap,
+      clearRepeatPlan,
+      clearVerseEndBoundary,
+      playRepeatStep,
+    ]
+  );
+
+  const playQueue = useCallback(
+    async (items: QueueItem[], startIndex = 0) => {
+      if (items.length === 0) return;
+      stopPreview();
+      clearRepeatPlan();
+      await startQueueItem({
+        items,
+        index: Math.min(Math.max(startIndex, 0), items.length - 1),
+      });
+    },
+    [stopPreview, clearRepeatPlan, startQueueItem]
+  );
+
+  const addToQueue = useCallback(
+    async (item: QueueItem) => {
+      const queue = queueRef.current;
+      if (queue) {
+        updateQueue({ ...queue, items: [...queue.items, item] });
+        return;
+      }
+      // The loaded surah becomes the first item, so the new one follows it
+      if (currentChapterId !== null && playbackState !== "idle") {
+        updateQueue({ items: [{ surahId: currentChapterId }, item], index: 0 });
+        return;
+      }
+      await playQueue([item]);
+    },
+    [currentChapterId, playbackState, updateQueue, playQueue]
+  );
+
+  // The playing item can't be removed; clear the queue to stop after it instead
+  const removeFromQueue = useCallback(
+    (index: number) => {
+      const queue = queueRef.current;
+      if (!queue || index === queue.index || !queue.items[index]) return;
+      updateQueue({
+        items: queue.items.filter((_, itemIndex) => itemIndex !== index),
+        index: index < queue.index ? queue.index - 1 : queue.index,
+      });
+    },
+    [updateQueue]
+  );
+
+  const clearQueue = useCallback(() => {
+    updateQueue(null);
+    discardPreload();
+  }, [updateQueue, discardPreload]);
+
+  const setContinuousPlayback = useCallback(
+    (enabled: boolean) => updatePreferences({ continuousPlayback: enabled }),
+    [updatePreferences]
+  );
+
+  // Load the next item while this one plays, so it starts without a wait
+  useEffect(() => {
+    if (playbackState !== "playing" || currentChapterId === null) return;
+    const nextItem = getCurrentQueueItem(
+      getNextQueueStep(playbackQueue, currentChapterId, continuousPlayback)
+    );
+    // Another range of the loaded surah reuses the audio already playing
+    if (!nextItem || nextItem.surahId === currentChapterId) {
+      discardPreload();
+      return;
+    }
+    const preload = preloadRef.current;
+    if (preload?.surahId === nextItem.surahId && preload.reciterId === selectedReciterId) {
+      return;
+    }
+    preloadSurahAudio(nextItem.surahId, selectedReciterId);
+  }, [
+    playbackState,
+    currentChapterId,
+    playbackQueue,
+    continuousPlayback,
+    selectedReciterId,
+    discardPreload,
+    preloadSurahAudio,
+  ]);
+
+  useEffect(() => discardPreload, [discardPreload]);
+
+  // ============= Background and lock screen =============
+
+  // Keep reciting with the screen locked or the app in the background
+  useEffect(() => {
+    Audio.setAudioModeAsync({
+      staysActiveInBackground: true,
+      playsInSilentModeIOS: true,
+      interruptionModeIOS: InterruptionModeIOS.DoNotMix,
+      interruptionModeAndroid: InterruptionModeAndroid.DoNotMix,
+      shouldDuckAndroid: true,
+      playThroughEarpieceAndroid: false,
+    }).catch((error) => console.warn("Failed to configure the audio session:", error));
+  }, []);
+
+  const { getSurahByNumber } = useQuran();
+  const playingVerseNumber = currentVerseKey
+    ? parseInt(currentVerseKey.split(":")[1], 10)
+    : null;
+  const playingSurah = currentChapterId !== null ? getSurahByNumber(currentChapterId) : undefined;
+  const nowPlaying: NowPlaying | null =
+    currentChapterId === null
+      ? null
+      : {
+          title: [
+            playingSurah?.transliteration ?? `Surah ${currentChapterId}`,
+            playingVerseNumber ? `Verse ${playingVerseNumber}` : null,
+          ]
+            .filter(Boolean)
+            .join(" · "),
+          artist:
+            reciters.find((reciter) => reciter.id === selectedReciterId)?.name ?? "Recitation",
+          album: "The Clear Quran",
+          duration,
+        };
+
+  useMediaControls(playbackState, nowPlaying, currentTime, {
+    onPlay: () => void resume(),
+    onPause: pause,
+    onStop: stop,
+    onNext: () => void skipVerse(1),
+    onPrevious: () => void skipVerse(-1),
+    onSeek: seekTo,
+  });
+
   const value: QuranAudioContextType = {
     audioUrl,
     verseTimings,
@@ -344,9 +1183,16 @@ export function QuranAudioProvider({ children }: { children: React.ReactNode })
     currentTime,
     duration,
     selectedReciterId,
+    reciters,
+    hasVerseTimings,
     pendingVerseNumber,
+    repeatPlan,
+    repeatPosition,
+    playbackQueue,
+    continuousPlayback,
     loadSurahAudio,
     playVerse,
+    playVerseRange,
     playSurah,
     pause,
     resume,
@@ -354,6 +1200,16 @@ export function QuranAudioProvider({ children }: { children: React.ReactNode })
     stop,
     seekTo,
     setReciter,
+    previewReciterId,
+    previewReciter,
+    stopPreview,
+    playRepeat,
+    stopRepeat,
+    playQueue,
+    addToQueue,
+    removeFromQueue,
+    clearQueue,
+    setContinuousPlayback,
   };
 
   return (
@@ -5,23 +5,45 @@ import React, {
   useEffect,
   ReactNode,
   useCallback,
+  useMemo,
 } from "react";
+import { AppState } from "react-native";
+import { isCancelledError, useQuery, useQueryClient } from "@tanstack/react-query";
 import {
-  executeQuranQuery,
-  getSurah as fetchSurahVerses,
-  fetchThemesBySurah,
-  fetchVersesForThemes,
-  fetchFootnotesByIds,
+  getSurahName,
+  getSurahIntroduction,
   getVerseText,
   getThemeName,
   getFootnoteText,
+  getWordGloss,
+  ApiFootnote,
   ApiSurah,
+  ApiTranslation,
   ApiVerse,
-  ApiTheme,
-  ApiThemeVerse,
+  ApiVerseTranslation,
+  ApiVerseWord,
+  BUILT_IN_LANGUAGES,
+  QuranLanguage,
+  QuranLanguageInfo,
 } from "../services/quranApi";
-
-const QURAN_LANG = process.env.EXPO_PUBLIC_QURAN_LANG || "english";
+import {
+  ThematicContent,
+  chaptersQuery,
+  quranKeys,
+  surahFootnotesQuery,
+  surahThematicQuery,
+  surahTranslationsQuery,
+  surahVersesQuery,
+  surahWordsQuery,
+  themePassagesQuery,
+  translationsQuery,
+} from "../services/quranQueries";
+import { syncQuranContent } from "../services/quranContentSync";
+import { QuranQueryError, toQuranQueryError } from "../services/quranErrors";
+import { useLanguage } from "./LanguageContext";
+import { useArabicText } from "./ArabicTextContext";
+import { TajweedSegment, parseTajweed } from "../utils/tajweed";
+import { toThemeSlug } from "../utils/themeSlug";
 
 // Normalized Surah type for components (matching existing interface)
 export interface Surah {
@@ -44,6 +66,48 @@ export interface Verse {
   translation: string;
   transliteration?: string;
   page: number;
+  // Rub' al-hizb and ruku' numbers; juz and hizb follow from the rub'
+  rub: number;
+  ruku: number;
+  // Primary and comparison translations, present when comparing translations
+  translations?: VerseTranslation[];
+  // Word-by-word breakdown, present once word data has loaded
+  words?: VerseWord[];
+  // Arabic text split by tajweed rule, when tajweed markup is available
+  tajweed?: TajweedSegment[];
+}
+
+// One word of a verse with its transliteration and gloss
+export interface VerseWord {
+  position: number;
+  arabic: string;
+  transliteration: string | null;
+  gloss: string | null;
+}
+
+// One translation of a verse, with the footnotes its text references
+export interface VerseTranslation {
+  translationId: string;
+  name: string;
+  translator: string;
+  direction: "ltr" | "rtl";
+  text: string;
+  footnotes: {
+    id: string;
+    marker: string;
+    text: string;
+  }[];
+}
+
+// Normalized translation registry entry
+export interface Translation {
+  id: string;
+  name: string;
+  languageCode: string;
+  languageName: string;
+  direction: "ltr" | "rtl";
+  translator: string;
+  copyright: string | null;
 }
 
 // Arabic script type
@@ -54,6 +118,8 @@ export interface ThematicPassage {
   id: string;
   surahNumber: number;
   themeName: string;
+  // Identifies the theme in links, independent of the reader's language
+  themeSlug: string;
   verseRange: {
     start: number;
     end: number;
@@ -84,47 +150,181 @@ interface QuranContextType {
   // New verse/theme fetching methods
   fetchSurahWithVerses: (surahId: number) => Promise<Verse[]>;
   fetchThematicPassages: (surahId: number) => Promise<ThematicPassage[]>;
+  // Passages of the given themes across every surah they appear in
+  fetchThemePassages: (themeIds: number[]) => Promise<ThematicPassage[]>;
+  prefetchSurah: (surahId: number) => void;
+  // Translation registry and the translation verses are shown in
+  translations: Translation[];
+  currentTranslation: Translation | null;
+  // Languages the reader can choose: the built-in ones and any in the registry
+  languages: QuranLanguageInfo[];
   // Cached data
   currentSurahVerses: Verse[];
   currentThematicPassages: ThematicPassage[];
   versesLoading: boolean;
   passagesLoading: boolean;
+  // Why the current surah failed to load, if it did
+  versesError: QuranQueryError | null;
+  passagesError: QuranQueryError | null;
+  retryCurrentSurah: () => void;
+  // Content version of the local store; changes when editorial updates land
+  contentVersion: number | null;
 }
 
 const QuranContext = createContext<QuranContextType | undefined>(undefined);
 
 // Transform API surah to normalized format
-const transformSurah = (apiSurah: ApiSurah): Surah => {
+const transformSurah = (apiSurah: ApiSurah, language: QuranLanguage): Surah => {
+  const introduction = getSurahIntroduction(apiSurah, language);
   return {
     number: apiSurah.id,
     name: apiSurah.name_arabic,
     transliteration: apiSurah.name_transliteration,
-    translation:
-      QURAN_LANG === "spanish"
-        ? apiSurah.name_spanish
-        : apiSurah.name_english,
+    translation: getSurahName(apiSurah, language),
     type: apiSurah.revelation_type === "Meccan" ? "Meccan" : "Medinan",
     verses: apiSurah.number_of_verses,
-    description:
-      (QURAN_LANG === "spanish"
-        ? apiSurah.introduction_spanish
-        : apiSurah.introduction_english) || "",
+    description: introduction || "",
     nameArabic: apiSurah.name_arabic,
-    introduction:
-      QURAN_LANG === "spanish"
-        ? apiSurah.introduction_spanish
-        : apiSurah.introduction_english,
+    introduction,
   };
 };
 
+// Transform API translation to normalized format
+const transformTranslation = (apiTranslation: ApiTranslation): Translation => {
+  return {
+    id: apiTranslation.id,
+    name: apiTranslation.name,
+    languageCode: apiTranslation.language_code,
+    languageName: apiTranslation.language_name,
+    direction: apiTranslation.direction === "rtl" ? "rtl" : "ltr",
+    translator: apiTranslation.translator,
+    copyright: apiTranslation.copyright,
+  };
+};
+
+// Verse text per translation id, then per verse_key
+type TranslationTexts = Map<string, Map<string, string>>;
+
+const toTranslationTexts = (rows: ApiVerseTranslation[] | undefined): TranslationTexts => {
+  const texts: TranslationTexts = new Map();
+  (rows || []).forEach((row) => {
+    if (!texts.has(row.translation_id)) {
+      texts.set(row.translation_id, new Map());
+    }
+    texts.get(row.translation_id)!.set(row.verse_key, row.text);
+  });
+  return texts;
+};
+
+// Everything needed to turn API rows into the translations the reader selected
+interface TranslationSelection {
+  language: QuranLanguage;
+  script: ArabicScript;
+  primary: Translation | null;
+  parallel: Translation[];
+  texts: TranslationTexts;
+  footnotes: Map<number, ApiFootnote>;
+  // Word-level rows per verse_key, in reading order
+  words: Map<string, ApiVerseWord[]>;
+}
+
+const groupWordsByVerse = (rows: ApiVerseWord[]): Map<string, ApiVerseWord[]> => {
+  const words = new Map<string, ApiVerseWord[]>();
+  rows.forEach((row) => {
+    if (!words.has(row.verse_key)) {
+      words.set(row.verse_key, []);
+    }
+    words.get(row.verse_key)!.push(row);
+  });
+  return words;
+};
+
+// Verses not yet in the registry fall back to the built-in translation columns
+const resolveVerseText = (
+  verse: Pick<ApiVerse, "verse_key" | "text_english" | "text_spanish">,
+  selection: TranslationSelection
+): string =>
+  (selection.primary &&
+    selection.texts.get(selection.primary.id)?.get(verse.verse_key)) ??
+  getVerseText(verse, selection.language);
+
+const toVerseTranslation = (
+  translation: Translation,
+  text: string,
+  verseNumber: number,
+  footnotes: Map<number, ApiFootnote>
+): VerseTranslation => ({
+  translationId: translation.id,
+  name: translation.name,
+  translator: translation.translator,
+  direction: translation.direction,
+  text,
+  footnotes: parseFootnoteIds(text, verseNumber).map((fn) => {
+    const footnote = footnotes.get(fn.id);
+    return {
+      id: String(fn.id),
+      marker: fn.number,
+      text: footnote
+        ? getFootnoteText(footnote, translation.id, translation.languageCode)
+        : "",
+    };
+  }),
+});
+
+// Verses without IndoPak text fall back to Uthmani
+const arabicTextFor = (
+  verse: Pick<ApiVerse, "text_uthmani" | "text_indopak">,
+  script: ArabicScript
+): string => (script === "indopak" && verse.text_indopak) || verse.text_uthmani;
+
 // Transform API verse to normalized format
-const transformVerse = (apiVerse: ApiVerse): Verse => {
+const transformVerse = (apiVerse: ApiVerse, selection: TranslationSelection): Verse => {
+  const translation = resolveVerseText(apiVerse, selection);
+  const { primary, parallel, texts, footnotes, language, script } = selection;
+
+  let translations: VerseTranslation[] | undefined;
+  if (primary && parallel.length > 0) {
+    translations = [
+      toVerseTranslation(primary, translation, apiVerse.verse_number, footnotes),
+    ];
+    parallel.forEach((t) => {
+      const text = texts.get(t.id)?.get(apiVerse.verse_key);
+      if (text) {
+        translations!.push(
+          toVerseTranslation(t, text, apiVerse.verse_number, footnotes)
+        );
+      }
+    });
+  }
+
+  const words = selection.words.get(apiVerse.verse_key)?.map((word) => ({
+    position: word.position,
+    arabic: word.text_uthmani,
+    transliteration: word.transliteration,
+    gloss: getWordGloss(word, language),
+  }));
+  // The full-verse transliteration is the words' transliterations in order
+  const transliteration = words
+    ?.map((word) => word.transliteration)
+    .filter(Boolean)
+    .join(" ");
+
   return {
     surahNumber: apiVerse.chapter_number,
     verseNumber: apiVerse.verse_number,
-    arabic: apiVerse.text_uthmani,
-    translation: getVerseText(apiVerse),
+    arabic: arabicTextFor(apiVerse, script),
+    translation,
+    transliteration: transliteration || undefined,
     page: apiVerse.page_number,
+    rub: apiVerse.rub_number,
+    ruku: apiVerse.ruku_number,
+    translations,
+    words,
+    // Tajweed markup follows the Uthmani text
+    tajweed:
+      script === "uthmani" && apiVerse.text_uthmani_tajweed
+        ? parseTajweed(apiVerse.text_uthmani_tajweed)
+        : undefined,
   };
 };
 
@@ -133,7 +333,7 @@ const parseFootnoteIds = (
   text: string,
   verseNumber: number
 ): { id: number; number: string; verseNumber: number }[] => {
-  const footnoteRegex = /<footnote\\s+id=\\"(\\d+)\\"\\s+number=\\"(\\d+)\\">/g;
+  const footnoteRegex = /<footnote\s+id="(\d+)"\s+number="(\d+)">/g;
   const footnotes: { id: number; number: string; verseNumber: number }[] = [];
   let match;
   while ((match = footnoteRegex.exec(text)) !== null) {
@@ -147,26 +347,35 @@ const parseFootnoteIds = (
 };
 
 // Transform API themes + verses to ThematicPassage format with footnotes
-const transformToThematicPassages = async (
-  themes: ApiTheme[],
-  themeVerses: ApiThemeVerse[]
-): Promise<ThematicPassage[]> => {
-  // Collect all footnote IDs from all verses
-  const allFootnoteIds: {
-    id: number;
-    number: string;
-    verseNumber: number;
-    themeId: number;
-  }[] = [];
+const transformToThematicPassages = (
+  { themes, verses: themeVerses, footnotes }: ThematicContent,
+  selection: TranslationSelection
+): ThematicPassage[] => {
+  const { language, script, primary } = selection;
+  // Footnotes are worded as the translation the passage is shown in
+  const footnoteTexts = new Map<number, string>();
+  footnotes.forEach((fn) => {
+    footnoteTexts.set(
+      fn.id,
+      getFootnoteText(fn, primary?.id ?? null, primary?.languageCode ?? language)
+    );
+  });
 
-  const passagesData = themes.map((theme) => {
+  return themes.map((theme) => {
     const verses = themeVerses.filter((v) => v.theme_id === theme.id);
-    const arabicText = verses.map((v) => v.text_uthmani).join(" ۝ ");
+    const arabicText = verses.map((v) => arabicTextFor(v, script)).join(" ۝ ");
+    const themeFootnotes: ThematicPassage["footnotes"] = [];
 
     const verseTranslations = verses.map((v) => {
-      const text = QURAN_LANG === "spanish" ? v.text_spanish : v.text_english;
-      const footnoteIds = parseFootnoteIds(text, v.verse_number);
-      footnoteIds.forEach((fn) => allFootnoteIds.push({ ...fn, themeId: theme.id }));
+      const text = resolveVerseText(v, selection);
+      parseFootnoteIds(text, v.verse_number).forEach((fn) => {
+        themeFootnotes.push({
+          id: String(fn.id),
+          verseNumber: fn.verseNumber,
+          marker: fn.number,
+          text: footnoteTexts.get(fn.id) || "",
+        });
+      });
       return {
         verseNumber: v.verse_number,
         text,
@@ -175,48 +384,17 @@ const transformToThematicPassages = async (
       };
     });
 
-    const translation = verseTranslations.map((v) => v.text).join(" ");
-    const page = verses[0]?.page_number || 1;
-
-    return { theme, arabicText, translation, verseTranslations, page };
-  });
-
-  // Fetch all footnotes in one batch
-  const uniqueIds = [...new Set(allFootnoteIds.map((f) => f.id))];
-  const footnoteTexts = new Map<number, string>();
-
-  if (uniqueIds.length > 0) {
-    const result = await fetchFootnotesByIds(uniqueIds);
-    if (result.success && result.data) {
-      result.data.forEach((fn) => {
-        // Handle id that could be string or number from API
-        const fnId = typeof fn.id === "string" ? parseInt(fn.id, 10) : fn.id;
-        footnoteTexts.set(fnId, getFootnoteText(fn));
-      });
-    }
-  }
-
-  // Build passages with populated footnotes
-  return passagesData.map((p) => {
-    const themeFootnotes = allFootnoteIds
-      .filter((fn) => fn.themeId === p.theme.id)
-      .map((fn) => ({
-        id: String(fn.id),
-        verseNumber: fn.verseNumber,
-        marker: fn.number,
-        text: footnoteTexts.get(fn.id) || "",
-      }));
-
     return {
-      id: `${p.theme.chapter_number}-${p.theme.start_verse}-${p.theme.end_verse}`,
-      surahNumber: p.theme.chapter_number,
-      themeName: getThemeName(p.theme),
-      verseRange: { start: p.theme.start_verse, end: p.theme.end_verse },
-      arabicText: p.arabicText,
-      translation: p.translation,
-      verseTranslations: p.verseTranslations,
+      id: `${theme.chapter_number}-${theme.start_verse}-${theme.end_verse}`,
+      surahNumber: theme.chapter_number,
+      themeName: getThemeName(theme, language),
+      themeSlug: toThemeSlug(theme.theme_name_english),
+      verseRange: { start: theme.start_verse, end: theme.end_verse },
+      arabicText,
+      translation: verseTranslations.map((v) => v.text).join(" "),
+      verseTranslations,
       footnotes: themeFootnotes,
-      page: p.page,
+      page: verses[0]?.page_number || 1,
     };
   });
 };
@@ -226,48 +404,172 @@ const POPULAR_SURAH_NUMBERS = [1, 2, 3, 4, 18, 36, 55, 67, 112];
 export const QuranProvider: React.FC<{ children: ReactNode }> = ({
   children,
 }) => {
-  const [surahs, setSurahs] = useState<Surah[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  // Cached current surah data
-  const [currentSurahVerses, setCurrentSurahVerses] = useState<Verse[]>([]);
-  const [currentThematicPassages, setCurrentThematicPassages] = useState<
-    ThematicPassage[]
-  >([]);
-  const [versesLoading, setVersesLoading] = useState(false);
-  const [passagesLoading, setPassagesLoading] = useState(false);
-
-  // Load all surahs on mount
-  useEffect(() => {
-    const loadSurahs = async () => {
-      setIsLoading(true);
-      setError(null);
+  const queryClient = useQueryClient();
+  const { language, translationId, parallelTranslationIds } = useLanguage();
+  const { arabicScript } = useArabicText();
+  const [contentVersion, setContentVersion] = useState<number | null>(null);
 
-      try {
-        const result = await executeQuranQuery<ApiSurah[]>(
-          "SELECT * FROM Chapters ORDER BY id",
-          []
-        );
+  // Surah currently shown by the reader; queries stay disabled until one is requested
+  const [versesSurahId, setVersesSurahId] = useState<number | null>(null);
+  const [passagesSurahId, setPassagesSurahId] = useState<number | null>(null);
 
-        if (result.success && result.data) {
-          const transformedSurahs = result.data.map(transformSurah);
-          setSurahs(transformedSurahs);
-        } else {
-          throw new Error(result.error || "Failed to load surahs");
+  // Keep the local store in step with editorial updates, on launch and
+  // whenever the app returns to the foreground
+  useEffect(() => {
+    const runSync = async () => {
+      try {
+        const result = await syncQuranContent();
+        if (result.updated) {
+          setContentVersion(result.version);
+          // Cached responses predate the update; refetch whatever is mounted
+          queryClient.invalidateQueries({ queryKey: quranKeys.all });
         }
       } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : "Failed to load surahs";
-        setError(errorMessage);
-        console.error("Failed to load surahs:", err);
+        console.warn("Quran content sync failed:", err);
+      }
+    };
+
+    runSync();
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") {
+        runSync();
+      }
+    });
+    return () => subscription.remove();
+  }, [queryClient]);
+
+  const chapters = useQuery(chaptersQuery());
+  const registry = useQuery(translationsQuery());
+
+  const translations = useMemo(
+    () => (registry.data ? registry.data.map(transformTranslation) : []),
+    [registry.data]
+  );
+
+  // The selected translation, else the first one registered for the language.
+  // Null while the registry is unavailable; verses then use the built-in columns.
+  const currentTranslation = useMemo(
+    () =>
+      translations.find((t) => t.id === translationId) ??
+      translations.find((t) => t.languageCode === language) ??
+      null,
+    [translations, translationId, language]
+  );
+  const languages = useMemo(() => {
+    const names = new Map(BUILT_IN_LANGUAGES.map((l) => [l.code, l.name]));
+    translations.forEach((t) => {
+      if (!names.has(t.languageCode)) {
+        names.set(t.languageCode, t.languageName);
       }
+    });
+    return [...names].map(([code, name]) => ({ code, name }));
+  }, [translations]);
+  // Comparison translations need a primary translation to be compared against
+  const parallelTranslations = useMemo(
+    () =>
+      currentTranslation
+        ? parallelTranslationIds
+            .map((id) => translations.find((t) => t.id === id))
+            .filter(
+              (t): t is Translation => !!t && t.id !== currentTranslation.id
+            )
+        : [],
+    [translations, parallelTranslationIds, currentTranslation]
+  );
+  const translationIds = useMemo(
+    () =>
+      currentTranslation
+        ? [currentTranslation.id, ...parallelTranslations.map((t) => t.id)]
+        : [],
+    [currentTranslation, parallelTranslations]
+  );
+  const isComparing = parallelTranslations.length > 0;
+
+  const versesQuery = useQuery({
+    ...surahVersesQuery(versesSurahId ?? 0),
+    enabled: versesSurahId !== null,
+  });
+  const versesTranslationQuery = useQuery({
+    ...surahTranslationsQuery(versesSurahId ?? 0, translationIds),
+    enabled: versesSurahId !== null && translationIds.length > 0,
+  });
+  // Per-translation footnotes are only listed under verses when comparing
+  const versesFootnotesQuery = useQuery({
+    ...surahFootnotesQuery(versesSurahId ?? 0),
+    enabled: versesSurahId !== null && isComparing,
+  });
+  const versesWordsQuery = useQuery({
+    ...surahWordsQuery(versesSurahId ?? 0, language),
+    enabled: versesSurahId !== null,
+  });
+  const passagesQuery = useQuery({
+    ...surahThematicQuery(passagesSurahId ?? 0),
+    enabled: passagesSurahId !== null,
+  });
+  const passagesTranslationQuery = useQuery({
+    ...surahTranslationsQuery(passagesSurahId ?? 0, translationIds),
+    enabled: passagesSurahId !== null && translationIds.length > 0,
+  });
 
-      setIsLoading(false);
+  // Abort in-flight requests for a surah once the reader moves away from it
+  useEffect(() => {
+    if (versesSurahId === null) return;
+    return () => {
+      queryClient.cancelQueries({ queryKey: quranKeys.surah(versesSurahId) });
     };
+  }, [versesSurahId, queryClient]);
+
+  useEffect(() => {
+    if (chapters.error) {
+      console.error("Failed to load surahs:", chapters.error);
+    }
+  }, [chapters.error]);
 
-    loadSurahs();
-  }, []);
+  // Rows carry every language, so switching language re-renders in place
+  const surahs = useMemo(
+    () =>
+      chapters.data ? chapters.data.map((s) => transformSurah(s, language)) : [],
+    [chapters.data, language]
+  );
+  const buildSelection = useCallback(
+    (
+      texts: TranslationTexts,
+      footnotes: ApiFootnote[] = [],
+      words: ApiVerseWord[] = []
+    ): TranslationSelection => ({
+      language,
+      script: arabicScript,
+      primary: currentTranslation,
+      parallel: parallelTranslations,
+      texts,
+      footnotes: new Map(footnotes.map((fn) => [fn.id, fn])),
+      words: groupWordsByVerse(words),
+    }),
+    [language, arabicScript, currentTranslation, parallelTranslations]
+  );
+
+  const currentSurahVerses = useMemo(() => {
+    if (!versesQuery.data) return [];
+    const selection = buildSelection(
+      toTranslationTexts(versesTranslationQuery.data),
+      versesFootnotesQuery.data,
+      versesWordsQuery.data
+    );
+    return versesQuery.data.map((v) => transformVerse(v, selection));
+  }, [
+    versesQuery.data,
+    versesTranslationQuery.data,
+    versesFootnotesQuery.data,
+    versesWordsQuery.data,
+    buildSelection,
+  ]);
+  const currentThematicPassages = useMemo(() => {
+    if (!passagesQuery.data) return [];
+    return transformToThematicPassages(
+      passagesQuery.data,
+      buildSelection(toTranslationTexts(passagesTranslationQuery.data))
+    );
+  }, [passagesQuery.data, passagesTranslationQuery.data, buildSelection]);
 
   const getSurahByNumber = (number: number): Surah | undefined => {
     return surahs.find((s) => s.number === number);
@@ -277,93 +579,137 @@ export const QuranProvider: React.FC<{ children: ReactNode }> = ({
     return surahs.filter((s) => POPULAR_SURAH_NUMBERS.includes(s.number));
   };
 
-  // Fetch verses for a specific surah
+  // Selected translations' text for a surah; empty when it cannot be loaded
+  const fetchTranslationTexts = useCallback(
+    async (surahId: number): Promise<TranslationTexts> => {
+      if (translationIds.length === 0) return new Map();
+      try {
+        const rows = await queryClient.fetchQuery(
+          surahTranslationsQuery(surahId, translationIds)
+        );
+        return toTranslationTexts(rows);
+      } catch {
+        return new Map();
+      }
+    },
+    [queryClient, translationIds]
+  );
+
+  // Fetch verses for a specific surah, served from cache when fresh
   const fetchSurahWithVerses = useCallback(
     async (surahId: number): Promise<Verse[]> => {
-      setVersesLoading(true);
+      setVersesSurahId(surahId);
 
       try {
-        const result = await fetchSurahVerses(surahId);
-
-        if (result.success && result.data) {
-          const transformedVerses = result.data.map(transformVerse);
-          setCurrentSurahVerses(transformedVerses);
-          return transformedVerses;
-        }
-        console.error("Failed to fetch verses:", result.error);
-        return [];
+        const [verses, translationTexts, footnotes, words] = await Promise.all([
+          queryClient.fetchQuery(surahVersesQuery(surahId)),
+          fetchTranslationTexts(surahId),
+          isComparing
+            ? queryClient.fetchQuery(surahFootnotesQuery(surahId)).catch(() => [])
+            : [],
+          // Verses still render without word data
+          queryClient.fetchQuery(surahWordsQuery(surahId, language)).catch(() => []),
+        ]);
+        const selection = buildSelection(translationTexts, footnotes, words);
+        return verses.map((v) => transformVerse(v, selection));
       } catch (err) {
-        console.error("Error fetching surah verses:", err);
+        if (!isCancelledError(err)) {
+          console.error("Error fetching surah verses:", err);
+        }
         return [];
-      } finally {
-        setVersesLoading(false);
       }
     },
-    []
+    [queryClient, language, isComparing, fetchTranslationTexts, buildSelection]
   );
 
-  // Fetch thematic passages for a specific surah
+  // Fetch thematic passages for a specific surah, served from cache when fresh
   const fetchThematicPassages = useCallback(
     async (surahId: number): Promise<ThematicPassage[]> => {
-      setPassagesLoading(true);
+      setPassagesSurahId(surahId);
 
       try {
-        // First fetch themes for this surah
-        const themesResult = await fetchThemesBySurah(surahId);
-
-        if (
-          !themesResult.success ||
-          !themesResult.data ||
-          themesResult.data.length === 0
-        ) {
-          setCurrentThematicPassages([]);
-          return [];
+        const [content, translationTexts] = await Promise.all([
+          queryClient.fetchQuery(surahThematicQuery(surahId)),
+          fetchTranslationTexts(surahId),
+        ]);
+        return transformToThematicPassages(content, buildSelection(translationTexts));
+      } catch (err) {
+        if (!isCancelledError(err)) {
+          console.error("Error fetching thematic passages:", err);
         }
+        return [];
+      }
+    },
+    [queryClient, fetchTranslationTexts, buildSelection]
+  );
 
-        const themes = themesResult.data;
-        const themeIds = themes.map((t) => t.id);
-
-        // Fetch verses for all themes
-        const versesResult = await fetchVersesForThemes(themeIds);
-
-        if (!versesResult.success || !versesResult.data) {
-          console.error("Failed to fetch theme verses:", versesResult.error);
-          setCurrentThematicPassages([]);
-          return [];
-        }
+  const fetchThemePassages = useCallback(
+    async (themeIds: number[]): Promise<ThematicPassage[]> => {
+      const content = await queryClient.fetchQuery(themePassagesQuery(themeIds));
+      const chapterNumbers = [...new Set(content.themes.map((t) => t.chapter_number))];
+      const perSurah = await Promise.all(chapterNumbers.map(fetchTranslationTexts));
+      // Merge each surah's texts into one lookup per translation
+      const translationTexts: TranslationTexts = new Map();
+      perSurah.forEach((texts) => {
+        texts.forEach((verses, id) => {
+          const merged = translationTexts.get(id) ?? new Map<string, string>();
+          verses.forEach((text, verseKey) => merged.set(verseKey, text));
+          translationTexts.set(id, merged);
+        });
+      });
+      return transformToThematicPassages(content, buildSelection(translationTexts));
+    },
+    [queryClient, fetchTranslationTexts, buildSelection]
+  );
 
-        // Transform with async footnote fetching
-        const passages = await transformToThematicPassages(
-          themes,
-          versesResult.data
-        );
-        setCurrentThematicPassages(passages);
-        return passages;
-      } catch (err) {
-        console.error("Error fetching thematic passages:", err);
-        setCurrentThematicPassages([]);
-        return [];
-      } finally {
-        setPassagesLoading(false);
+  // Re-run whichever of the current surah's queries failed
+  const retryCurrentSurah = useCallback(() => {
+    if (versesSurahId === null) return;
+    queryClient.refetchQueries({
+      queryKey: quranKeys.surah(versesSurahId),
+      predicate: (query) => query.state.status === "error",
+    });
+  }, [queryClient, versesSurahId]);
+
+  // Warm the cache for a surah the reader is likely to open next
+  const prefetchSurah = useCallback(
+    (surahId: number) => {
+      if (surahId < 1 || surahId > 114) return;
+      queryClient.prefetchQuery(surahVersesQuery(surahId));
+      queryClient.prefetchQuery(surahThematicQuery(surahId));
+      queryClient.prefetchQuery(surahWordsQuery(surahId, language));
+      if (translationIds.length > 0) {
+        queryClient.prefetchQuery(surahTranslationsQuery(surahId, translationIds));
       }
     },
-    []
+    [queryClient, language, translationIds]
   );
 
   return (
     <QuranContext.Provider
       value={{
         surahs,
-        isLoading,
-        error,
+        isLoading: chapters.isLoading,
+        error: chapters.error ? chapters.error.message : null,
         getSurahByNumber,
         getPopularSurahs,
+        translations,
+        currentTranslation,
+        languages,
         fetchSurahWithVerses,
         fetchThematicPassages,
+        fetchThemePassages,
+        prefetchSurah,
         currentSurahVerses,
         currentThematicPassages,
-        versesLoading,
-        passagesLoading,
+        versesLoading: versesQuery.isLoading || versesTranslationQuery.isLoading,
+        passagesLoading: passagesQuery.isLoading || passagesTranslationQuery.isLoading,
+        versesError: versesQuery.error ? toQuranQueryError(versesQuery.error) : null,
+        passagesError: passagesQuery.error
+          ? toQuranQueryError(passagesQuery.error)
+          : null,
+        retryCurrentSurah,
+        contentVersion,
       }}
     >
       {children}
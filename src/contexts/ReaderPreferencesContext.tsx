@@ -0,0 +1,377 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useAuth } from "./AuthContext";
+import { supabase } from "../integrations/supabase/client";
+import { ThemeName, themes } from "../theme/themes";
+import {
+  DEFAULT_QURAN_LANGUAGE,
+  QuranLanguage,
+  toQuranLanguage,
+} from "../services/quranApi";
+import type { ArabicScript } from "./QuranContext";
+import type { ArabicFontId, ArabicFontTuning } from "./ArabicTextContext";
+import type { TranslationLayout } from "./LanguageContext";
+import { DEFAULT_RECITER_ID, ReciterId, isReciterId } from "../services/quranAudioService";
+import {
+  DEFAULT_REPEAT_SETTINGS,
+  RepeatSettings,
+  normalizeRepeatSettings,
+} from "../services/quranRepeatPlan";
+
+export type ReadingMode = "regular" | "thematic" | "mushaf";
+
+export interface ViewSettings {
+  showArabic: boolean;
+  showTranslation: boolean;
+  showTransliteration: boolean;
+  showWordByWord: boolean;
+  showTajweed: boolean;
+  showIntro: boolean;
+}
+
+export interface ReaderPreferences {
+  themeName: ThemeName;
+  // Preferred mode; thematic still needs premium access to take effect
+  readingMode: ReadingMode;
+  view: ViewSettings;
+  englishFontSize: number;
+  arabicScript: ArabicScript;
+  arabicFontSizes: Record<ArabicScript, number>;
+  arabicFontId: ArabicFontId;
+  // Only fonts the reader has tuned are stored
+  arabicFontTuning: Partial<Record<ArabicFontId, ArabicFontTuning>>;
+  // ISO 639-1 code, e.g. "en"
+  language: QuranLanguage;
+  // Selected translation id; null means the default translation for `language`
+  translationId: string | null;
+  // Extra translations shown under each verse for comparison
+  parallelTranslationIds: string[];
+  translationLayout: TranslationLayout;
+  reciterId: ReciterId;
+  // Last repeat settings used, offered again for the next range
+  repeat: RepeatSettings;
+  // Carry on into the next surah when one finishes
+  continuousPlayback: boolean;
+  // ISO timestamp of the last change, used to pick between device and account copies
+  updatedAt: string;
+}
+
+export type ReaderPreferencesUpdate = Partial<Omit<ReaderPreferences, "updatedAt">>;
+
+interface ReaderPreferencesContextType {
+  preferences: ReaderPreferences;
+  updatePreferences: (updates: ReaderPreferencesUpdate) => void;
+  // False until the device copy has been read
+  isLoaded: boolean;
+}
+
+const ReaderPreferencesContext = createContext<ReaderPreferencesContextType | undefined>(
+  undefined
+);
+
+const STORAGE_KEY = "readerPreferences";
+// Column on `profiles` holding the account copy
+const PROFILE_COLUMN = "reader_preferences";
+const SYNC_DELAY_MS = 1500;
+
+// Language settings earlier versions kept per account, with signed-out
+// readers using the bare key
+const LEGACY_LANGUAGE_KEYS = {
+  language: "quranLanguage",
+  translation: "quranTranslation",
+  parallelTranslations: "quranParallelTranslations",
+  translationLayout: "quranTranslationLayout",
+};
+
+// Keys written by earlier versions, folded into the store on first launch
+const LEGACY_KEYS = {
+  theme: "readingTheme",
+  readingMode: "preferredReadingMode",
+  arabicScript: "arabicScript",
+  arabicFontSizes: "arabicFontSizes",
+  arabicFont: "arabicFont",
+  arabicFontTuning: "arabicFontTuning",
+  ...LEGACY_LANGUAGE_KEYS,
+};
+
+// IndoPak text carries more marks per word and reads better slightly larger
+export const DEFAULT_ARABIC_FONT_SIZES: Record<ArabicScript, number> = {
+  uthmani: 24,
+  indopak: 26,
+};
+
+export const DEFAULT_ENGLISH_FONT_SIZE = 16;
+
+export const DEFAULT_READER_PREFERENCES: ReaderPreferences = {
+  themeName: "default",
+  readingMode: "regular",
+  view: {
+    showArabic: true,
+    showTranslation: true,
+    showTransliteration: false,
+    showWordByWord: false,
+    showTajweed: false,
+    showIntro: true,
+  },
+  englishFontSize: DEFAULT_ENGLISH_FONT_SIZE,
+  arabicScript: "uthmani",
+  arabicFontSizes: DEFAULT_ARABIC_FONT_SIZES,
+  arabicFontId: "scheherazade",
+  arabicFontTuning: {},
+  language: DEFAULT_QURAN_LANGUAGE,
+  translationId: null,
+  parallelTranslationIds: [],
+  translationLayout: "stacked",
+  reciterId: DEFAULT_RECITER_ID,
+  repeat: DEFAULT_REPEAT_SETTINGS,
+  continuousPlayback: false,
+  // Untouched defaults always lose to a saved copy
+  updatedAt: new Date(0).toISOString(),
+};
+
+const ARABIC_FONT_IDS: ArabicFontId[] = ["scheherazade", "amiri", "kfgqpc"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const pick = <T,>(value: unknown, isValid: (value: unknown) => boolean, fallback: T): T =>
+  isValid(value) ? (value as T) : fallback;
+
+const isNumber = (value: unknown) => typeof value === "number" && Number.isFinite(value);
+const isBoolean = (value: unknown) => typeof value === "boolean";
+const isStringList = (value: unknown) =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const parseJson = (value: string | null): unknown => {
+  try {
+    return value ? JSON.parse(value) : null;
+  } catch {
+    return null;
+  }
+};
+
+const parseFontTuning = (
+  value: unknown
+): Partial<Record<ArabicFontId, ArabicFontTuning>> => {
+  if (!isRecord(value)) return {};
+  const tuning: Partial<Record<ArabicFontId, ArabicFontTuning>> = {};
+  for (const fontId of ARABIC_FONT_IDS) {
+    const entry = value[fontId];
+    if (isRecord(entry) && isNumber(entry.lineHeight) && isNumber(entry.letterSpacing)) {
+      tuning[fontId] = {
+        lineHeight: entry.lineHeight as number,
+        letterSpacing: entry.letterSpacing as number,
+      };
+    }
+  }
+  return tuning;
+};
+
+// Accepts any stored or synced value and fills gaps from the defaults
+const parsePreferences = (value: unknown): ReaderPreferences | null => {
+  if (!isRecord(value)) return null;
+  const defaults = DEFAULT_READER_PREFERENCES;
+  const view = isRecord(value.view) ? value.view : {};
+  const sizes = isRecord(value.arabicFontSizes) ? value.arabicFontSizes : {};
+  const repeat = isRecord(value.repeat) ? value.repeat : {};
+  return {
+    themeName: pick(value.themeName, (v) => typeof v === "string" && v in themes, defaults.themeName),
+    readingMode: pick(
+      value.readingMode,
+      (v) => v === "regular" || v === "thematic" || v === "mushaf",
+      defaults.readingMode
+    ),
+    view: {
+      showArabic: pick(view.showArabic, isBoolean, defaults.view.showArabic),
+      showTranslation: pick(view.showTranslation, isBoolean, defaults.view.showTranslation),
+      showTransliteration: pick(view.showTransliteration, isBoolean, defaults.view.showTransliteration),
+      showWordByWord: pick(view.showWordByWord, isBoolean, defaults.view.showWordByWord),
+      showTajweed: pick(view.showTajweed, isBoolean, defaults.view.showTajweed),
+      showIntro: pick(view.showIntro, isBoolean, defaults.view.showIntro),
+    },
+    englishFontSize: pick(value.englishFontSize, isNumber, defaults.englishFontSize),
+    arabicScript: pick(value.arabicScript, (v) => v === "uthmani" || v === "indopak", defaults.arabicScript),
+    arabicFontSizes: {
+      uthmani: pick(sizes.uthmani, isNumber, DEFAULT_ARABIC_FONT_SIZES.uthmani),
+      indopak: pick(sizes.indopak, isNumber, DEFAULT_ARABIC_FONT_SIZES.indopak),
+    },
+    arabicFontId: pick(
+      value.arabicFontId,
+      (v) => ARABIC_FONT_IDS.includes(v as ArabicFontId),
+      defaults.arabicFontId
+    ),
+    arabicFontTuning: parseFontTuning(value.arabicFontTuning),
+    language: toQuranLanguage(value.language) ?? defaults.language,
+    translationId: pick(value.translationId, (v) => typeof v === "string", defaults.translationId),
+    parallelTranslationIds: pick(value.parallelTranslationIds, isStringList, defaults.parallelTranslationIds),
+    translationLayout: pick(value.translationLayout, (v) => v === "stacked" || v === "columns", defaults.translationLayout),
+    reciterId: pick(value.reciterId, isReciterId, defaults.reciterId),
+    repeat: normalizeRepeatSettings({
+      verseRepeats: pick(repeat.verseRepeats, isNumber, defaults.repeat.verseRepeats),
+      rangeRepeats: pick(repeat.rangeRepeats, isNumber, defaults.repeat.rangeRepeats),
+      gapSeconds: pick(repeat.gapSeconds, isNumber, defaults.repeat.gapSeconds),
+      buildUp: pick(repeat.buildUp, isBoolean, defaults.repeat.buildUp),
+    }),
+    continuousPlayback: pick(value.continuousPlayback, isBoolean, defaults.continuousPlayback),
+    updatedAt: pick(value.updatedAt, (v) => typeof v === "string", defaults.updatedAt),
+  };
+};
+
+// Language settings from the legacy keys ending in `suffix`, in store form
+const toLanguageSettings = (saved: Record<string, string | null>, suffix: string) => ({
+  language: saved[LEGACY_LANGUAGE_KEYS.language + suffix],
+  translationId: saved[LEGACY_LANGUAGE_KEYS.translation + suffix],
+  parallelTranslationIds: parseJson(saved[LEGACY_LANGUAGE_KEYS.parallelTranslations + suffix]),
+  translationLayout: saved[LEGACY_LANGUAGE_KEYS.translationLayout + suffix],
+});
+
+// Builds the store from the separate keys earlier versions wrote
+const migrateLegacyPreferences = async (): Promise<ReaderPreferences> => {
+  const keys = Object.values(LEGACY_KEYS);
+  const entries = await AsyncStorage.multiGet(keys);
+  const saved = Object.fromEntries(entries) as Record<string, string | null>;
+  const migrated =
+    parsePreferences({
+      themeName: saved[LEGACY_KEYS.theme],
+      readingMode: saved[LEGACY_KEYS.readingMode],
+      arabicScript: saved[LEGACY_KEYS.arabicScript],
+      arabicFontSizes: parseJson(saved[LEGACY_KEYS.arabicFontSizes]),
+      arabicFontId: saved[LEGACY_KEYS.arabicFont],
+      arabicFontTuning: parseJson(saved[LEGACY_KEYS.arabicFontTuning]),
+      ...toLanguageSettings(saved, ""),
+    }) ?? DEFAULT_READER_PREFERENCES;
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(migrated));
+  await AsyncStorage.multiRemove(keys);
+  return migrated;
+};
+
+const loadDevicePreferences = async (): Promise<ReaderPreferences> => {
+  const saved = parsePreferences(parseJson(await AsyncStorage.getItem(STORAGE_KEY)));
+  return saved ?? migrateLegacyPreferences();
+};
+
+const legacyAccountKeys = (userId: string) =>
+  Object.values(LEGACY_LANGUAGE_KEYS).map((key) => `${key}:${userId}`);
+
+// Language settings an earlier version kept for this account, null when there are none
+const readLegacyAccountSettings = async (
+  userId: string
+): Promise<ReaderPreferencesUpdate | null> => {
+  const entries = await AsyncStorage.multiGet(legacyAccountKeys(userId));
+  if (entries.every(([, value]) => value === null)) return null;
+  const { language, translationId, parallelTranslationIds, translationLayout } =
+    parsePreferences(toLanguageSettings(Object.fromEntries(entries), `:${userId}`)) ??
+    DEFAULT_READER_PREFERENCES;
+  return { language, translationId, parallelTranslationIds, translationLayout };
+};
+
+export const ReaderPreferencesProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [preferences, setPreferences] = useState(DEFAULT_READER_PREFERENCES);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Account copy as last read or written, so unchanged preferences aren't re-sent
+  const syncedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    loadDevicePreferences()
+      .then(setPreferences)
+      .catch((error) => console.warn("Failed to load reader preferences:", error))
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  const preferencesRef = useRef(preferences);
+  preferencesRef.current = preferences;
+
+  const pushPreferences = async (next: ReaderPreferences, accountId: string) => {
+    const { error } = await supabase
+      .from("profiles")
+      .update({ [PROFILE_COLUMN]: next })
+      .eq("id", accountId);
+    if (error) {
+      console.warn("Failed to sync reader preferences:", error);
+    } else {
+      syncedRef.current = JSON.stringify(next);
+    }
+  };
+
+  // On sign-in, the newer of the device and account copies wins
+  useEffect(() => {
+    syncedRef.current = null;
+    if (!userId || !isLoaded) return;
+    let cancelled = false;
+    const reconcile = async () => {
+      const accountSettings = await readLegacyAccountSettings(userId).catch((error) => {
+        console.warn("Failed to read account language settings:", error);
+        return null;
+      });
+      if (cancelled) return;
+      if (accountSettings) {
+        // Settings this account last used on the device are its newest
+        preferencesRef.current = {
+          ...preferencesRef.current,
+          ...accountSettings,
+          updatedAt: new Date().toISOString(),
+        };
+        setPreferences(preferencesRef.current);
+        AsyncStorage.multiRemove(legacyAccountKeys(userId));
+      }
+      const { data, error } = await supabase
+        .from("profiles")
+        .select(PROFILE_COLUMN)
+        .eq("id", userId)
+        .maybeSingle();
+      if (cancelled) return;
+      if (error) {
+        console.warn("Failed to fetch synced reader preferences:", error);
+        return;
+      }
+      const remote = parsePreferences(data?.[PROFILE_COLUMN]);
+      const local = preferencesRef.current;
+      if (remote && remote.updatedAt >= local.updatedAt) {
+        syncedRef.current = JSON.stringify(remote);
+        setPreferences(remote);
+      } else {
+        pushPreferences(local, userId);
+      }
+    };
+    reconcile();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, isLoaded]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const serialized = JSON.stringify(preferences);
+    AsyncStorage.setItem(STORAGE_KEY, serialized).catch((error) =>
+      console.warn("Failed to persist reader preferences:", error)
+    );
+    // Wait for the sign-in reconcile before sending changes
+    if (!userId || syncedRef.current === null || serialized === syncedRef.current) return;
+    const timeout = setTimeout(() => pushPreferences(preferences, userId), SYNC_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [preferences, isLoaded, userId]);
+
+  const updatePreferences = (updates: ReaderPreferencesUpdate) => {
+    setPreferences((prev) => ({
+      ...prev,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    }));
+  };
+
+  return (
+    <ReaderPreferencesContext.Provider value={{ preferences, updatePreferences, isLoaded }}>
+      {children}
+    </ReaderPreferencesContext.Provider>
+  );
+};
+
+export const useReaderPreferences = () => {
+  const context = useContext(ReaderPreferencesContext);
+  if (!context) {
+    throw new Error("useReaderPreferences must be used within ReaderPreferencesProvider");
+  }
+  return context;
+};
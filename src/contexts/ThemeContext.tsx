@@ -1,38 +1,38 @@
-import React, { createContext, useContext, useEffect, useState } from "react";
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import { ThemeName, themes, ThemeColors } from "../theme/themes";
+import React, { createContext, useContext } from "react";
+import {
+  ThemeName,
+  themes,
+  ThemeColors,
+  TajweedPalette,
+  tajweedPalettes,
+} from "../theme/themes";
+import { useReaderPreferences } from "./ReaderPreferencesContext";
 
 interface ThemeContextType {
   themeName: ThemeName;
   colors: ThemeColors;
+  tajweedColors: TajweedPalette;
   setThemeName: (theme: ThemeName) => void;
 }
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
 
-const STORAGE_KEY = "readingTheme";
-
 export const ThemeProvider = ({ children }: { children: React.ReactNode }) => {
-  const [themeName, setThemeNameState] = useState<ThemeName>("default");
-
-  useEffect(() => {
-    const load = async () => {
-      const saved = await AsyncStorage.getItem(STORAGE_KEY);
-      if (saved && (saved in themes)) {
-        setThemeNameState(saved as ThemeName);
-      }
-    };
-    load();
-  }, []);
+  const { preferences, updatePreferences } = useReaderPreferences();
+  const { themeName } = preferences;
 
   const setThemeName = (theme: ThemeName) => {
-    setThemeNameState(theme);
-    AsyncStorage.setItem(STORAGE_KEY, theme);
+    updatePreferences({ themeName: theme });
   };
 
   return (
     <ThemeContext.Provider
-      value={{ themeName, colors: themes[themeName], setThemeName }}
+      value={{
+        themeName,
+        colors: themes[themeName],
+        tajweedColors: tajweedPalettes[themeName],
+        setThemeName,
+      }}
     >
       {children}
     </ThemeContext.Provider>
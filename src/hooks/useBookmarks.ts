@@ -177,6 +177,90 @@ export const useBookmarks = () => {
     }
   };
 
+  // Bookmarks every verse of the range, or clears them all if each is already saved
+  const toggleVerseRangeBookmark = async (
+    surahNumber: number,
+    startVerse: number,
+    endVerse: number
+  ) => {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      toast({
+        title: "Sign in to bookmark",
+        description: "Please sign in to save verses",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const verseNumbers = Array.from(
+      { length: endVerse - startVerse + 1 },
+      (_, index) => startVerse + index
+    );
+    const missing = verseNumbers.filter((verse) => !isBookmarked(surahNumber, verse));
+    const label = `Surah ${surahNumber}, Verses ${startVerse}-${endVerse}`;
+    const previousBookmarks = [...bookmarks];
+
+    try {
+      if (missing.length === 0) {
+        setBookmarks((prev) =>
+          prev.filter(
+            (b) =>
+              !(
+                b.surah_number === surahNumber &&
+                b.verse_number >= startVerse &&
+                b.verse_number <= endVerse
+              )
+          )
+        );
+        const { error } = await supabase
+          .from("verse_bookmarks")
+          .delete()
+          .eq("user_id", user.id)
+          .eq("surah_number", surahNumber)
+          .gte("verse_number", startVerse)
+          .lte("verse_number", endVerse);
+
+        if (error) throw error;
+
+        toast({ title: "Bookmarks removed", description: `${label} removed from your bookmarks` });
+      } else {
+        const createdAt = new Date().toISOString();
+        setBookmarks((prev) => [
+          ...missing.map((verse) => ({
+            id: `temp-${Date.now()}-${verse}`,
+            surah_number: surahNumber,
+            verse_number: verse,
+            created_at: createdAt,
+          })),
+          ...prev,
+        ]);
+        const { error } = await supabase.from("verse_bookmarks").insert(
+          missing.map((verse) => ({
+            user_id: user.id,
+            surah_number: surahNumber,
+            verse_number: verse,
+          }))
+        );
+
+        if (error) throw error;
+
+        toast({ title: "Bookmarks added", description: `${label} have been bookmarked` });
+      }
+      fetchBookmarks();
+    } catch (error) {
+      setBookmarks(previousBookmarks);
+      console.error("Error updating range bookmarks:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update bookmarks",
+        variant: "destructive",
+      });
+    }
+  };
+
   const isThematicPassageBookmarked = (passageId: string) => {
     return thematicBookmarks.some((b) => b.passage_id === passageId);
   };
@@ -384,6 +468,7 @@ export const useBookmarks = () => {
     addBookmark,
     removeBookmark,
     toggleBookmark,
+    toggleVerseRangeBookmark,
     isThematicPassageBookmarked,
     addThematicPassageBookmark,
     removeThematicPassageBookmark,
@@ -0,0 +1,149 @@
+import { useEffect, useRef } from "react";
+import MediaControl, {
+  Command,
+  PlaybackState as MediaPlaybackState,
+} from "expo-media-control";
+import type { PlaybackState } from "../contexts/QuranAudioContext";
+
+export interface NowPlaying {
+  title: string;
+  artist: string;
+  album: string;
+  // Seconds
+  duration: number;
+}
+
+export interface RemoteCommandHandlers {
+  onPlay: () => void;
+  onPause: () => void;
+  onStop: () => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onSeek: (timeInSeconds: number) => void;
+}
+
+const CAPABILITIES = [
+  Command.PLAY,
+  Command.PAUSE,
+  Command.STOP,
+  Command.NEXT_TRACK,
+  Command.PREVIOUS_TRACK,
+  Command.SEEK,
+];
+
+const MEDIA_STATES: Record<PlaybackState, MediaPlaybackState> = {
+  idle: MediaPlaybackState.STOPPED,
+  loading: MediaPlaybackState.BUFFERING,
+  playing: MediaPlaybackState.PLAYING,
+  paused: MediaPlaybackState.PAUSED,
+};
+
+// Playback goes idle briefly between loading a surah and playing it, so the
+// controls only come down once it has stayed idle for a moment
+const RELEASE_DELAY_MS = 2000;
+
+const warn = (error: unknown) => console.warn("Media controls failed:", error);
+
+// Mirrors the player onto the lock screen and notification, and routes their
+// buttons back to the handlers
+export const useMediaControls = (
+  playbackState: PlaybackState,
+  nowPlaying: NowPlaying | null,
+  position: number,
+  handlers: RemoteCommandHandlers
+) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const latestRef = useRef({ playbackState, nowPlaying, position });
+  latestRef.current = { playbackState, nowPlaying, position };
+  // Resolves once the controls are up; null while they are down
+  const enabledRef = useRef<Promise<void> | null>(null);
+
+  useEffect(() => {
+    const removeListener = MediaControl.addListener((event) => {
+      const current = handlersRef.current;
+      switch (event.command) {
+        case Command.PLAY:
+          current.onPlay();
+          break;
+        case Command.PAUSE:
+          current.onPause();
+          break;
+        case Command.STOP:
+          current.onStop();
+          break;
+        case Command.NEXT_TRACK:
+          current.onNext();
+          break;
+        case Command.PREVIOUS_TRACK:
+          current.onPrevious();
+          break;
+        case Command.SEEK:
+          if (typeof event.data?.position === "number") {
+            const position = event.data.position;
+            current.onSeek(position);
+            // The scrubber only moves with a state update, which a seek within
+            // the same verse would not otherwise send
+            enabledRef.current
+              ?.then(() =>
+                MediaControl.updatePlaybackState(
+                  MEDIA_STATES[latestRef.current.playbackState],
+                  position
+                )
+              )
+              .catch(warn);
+          }
+          break;
+      }
+    });
+    return () => {
+      removeListener();
+      if (enabledRef.current) {
+        enabledRef.current = null;
+        MediaControl.disableMediaControls().catch(warn);
+      }
+    };
+  }, []);
+
+  const title = nowPlaying?.title;
+  const artist = nowPlaying?.artist;
+  const album = nowPlaying?.album;
+  const duration = nowPlaying?.duration;
+
+  useEffect(() => {
+    if (playbackState === "idle") {
+      if (!enabledRef.current) return;
+      const timeout = setTimeout(() => {
+        enabledRef.current = null;
+        MediaControl.disableMediaControls().catch(warn);
+      }, RELEASE_DELAY_MS);
+      return () => clearTimeout(timeout);
+    }
+
+    if (!enabledRef.current) {
+      enabledRef.current = MediaControl.enableMediaControls({
+        capabilities: CAPABILITIES,
+        compactCapabilities: [Command.PREVIOUS_TRACK, Command.PLAY, Command.NEXT_TRACK],
+      }).catch((error) => {
+        // Let the next state change try again
+        enabledRef.current = null;
+        throw error;
+      });
+    }
+    enabledRef.current
+      .then(async () => {
+        const latest = latestRef.current;
+        if (latest.nowPlaying) {
+          await MediaControl.updateMetadata({
+            ...latest.nowPlaying,
+            elapsedTime: latest.position,
+          });
+        }
+        await MediaControl.updatePlaybackState(
+          MEDIA_STATES[latest.playbackState],
+          latest.position
+        );
+      })
+      .catch(warn);
+  }, [playbackState, title, artist, album, duration]);
+};
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { supabase } from "../integrations/supabase/client";
 import { useAuth } from "../contexts/AuthContext";
+import { getJuzNumber, isSurahWithinJuz } from "../services/quranDivisions";
 
 export interface OwnedContentItem {
   id: string;
@@ -168,7 +169,7 @@ export const useOwnedContent = () => {
   }, [authLoading, user, fetchOwnedContent]);
 
   const hasOwnedAccess = useCallback(
-    (productType: string, surahNumber?: number): boolean => {
+    (productType: string, surahNumber?: number, verseNumber?: number): boolean => {
       return ownedContent.some((item) => {
         if (item.product.product_type !== productType) return false;
 
@@ -180,8 +181,14 @@ export const useOwnedContent = () => {
           return scopeSurah === surahNumber;
         }
 
-        if (item.product.scope_type === "juz") {
-          return false;
+        // A juz grants a single verse inside it, or a surah lying wholly inside it
+        if (item.product.scope_type === "juz" && surahNumber !== undefined) {
+          const scopeJuz = (item.product.scope_details as { juz_number?: number })
+            ?.juz_number;
+          if (scopeJuz === undefined) return false;
+          return verseNumber !== undefined
+            ? getJuzNumber(surahNumber, verseNumber) === scopeJuz
+            : isSurahWithinJuz(surahNumber, scopeJuz);
         }
 
         return false;
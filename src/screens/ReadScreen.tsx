@@ -4,6 +4,7 @@ import {
   Alert,
   Animated,
   InteractionManager,
+  Pressable,
   ScrollView,
   Share,
   StyleSheet,
@@ -11,36 +12,67 @@ import {
   View,
 } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useQuery } from "@tanstack/react-query";
 import { Audio } from "expo-av";
+import * as Clipboard from "expo-clipboard";
 import { NativeStackScreenProps } from "@react-navigation/native-stack";
 import { SafeAreaView, useSafeAreaInsets } from "react-native-safe-area-context";
 import { RootStackParamList } from "../../App";
 import QuranHeader from "../components/quran/QuranHeader";
 import QuranSidebar from "../components/quran/QuranSidebar";
 import QuranReader from "../components/quran/QuranReader";
+import MushafReader from "../components/quran/MushafReader";
 import ViewSettingsModal from "../components/quran/ViewSettingsModal";
 import FloatingControlBar from "../components/quran/FloatingControlBar";
+import VerseSelectionBar from "../components/quran/VerseSelectionBar";
+import RepeatSettingsModal from "../components/quran/RepeatSettingsModal";
 import SurahNavigation from "../components/quran/SurahNavigation";
 import AuthModal from "../components/auth/AuthModal";
 import { stripFootnoteTags } from "../utils/stripFootnoteTags";
-import { useQuran, Verse } from "../contexts/QuranContext";
+import { ThematicPassage, useQuran, Verse } from "../contexts/QuranContext";
 import { useQuranAudio } from "../contexts/QuranAudioContext";
 import { useBookmarks } from "../hooks/useBookmarks";
 import { useReadingProgress } from "../hooks/useReadingProgress";
 import { usePremiumAccess } from "../hooks/usePremiumAccess";
 import { useTheme } from "../contexts/ThemeContext";
+import { useArabicText } from "../contexts/ArabicTextContext";
+import {
+  DEFAULT_ENGLISH_FONT_SIZE,
+  ReadingMode,
+  ViewSettings,
+  useReaderPreferences,
+} from "../contexts/ReaderPreferencesContext";
 import { supabase } from "../integrations/supabase/client";
+import { getQuranErrorMessage } from "../services/quranErrors";
+import { mushafPageQuery } from "../services/quranQueries";
+import { getJuzNumber } from "../services/quranDivisions";
+import { RepeatSettings } from "../services/quranRepeatPlan";
+import { toThemeSlug } from "../utils/themeSlug";
+import { VerseRange, formatVerseRange, parseVerseRange } from "../utils/verseRange";
 
 type ReadScreenProps =
   | NativeStackScreenProps<RootStackParamList, "Read">
   | NativeStackScreenProps<RootStackParamList, "ReadTheme">;
 
-interface ViewSettings {
-  showArabic: boolean;
-  showTranslation: boolean;
-  showTransliteration: boolean;
-  showIntro: boolean;
-}
+// Passage a theme link points at; the verse settles themes that share a name
+const findLinkedPassage = (
+  passages: ThematicPassage[],
+  themeName: string,
+  verseNumber: number
+): ThematicPassage | null => {
+  const slug = toThemeSlug(themeName);
+  const matches = passages.filter(
+    (passage) => passage.themeSlug === slug || toThemeSlug(passage.themeName) === slug
+  );
+  return (
+    matches.find(
+      (passage) =>
+        verseNumber >= passage.verseRange.start && verseNumber <= passage.verseRange.end
+    ) ??
+    matches[0] ??
+    null
+  );
+};
 
 const ReadScreen = ({ route, navigation }: ReadScreenProps) => {
   const { surahNumber } = route.params || {};
@@ -54,16 +86,35 @@ const ReadScreen = ({ route, navigation }: ReadScreenProps) => {
     isLoading: surahsLoading,
     fetchSurahWithVerses,
     fetchThematicPassages,
+    prefetchSurah,
     currentSurahVerses,
     currentThematicPassages,
     versesLoading,
     passagesLoading,
+    versesError,
+    passagesError,
+    retryCurrentSurah,
   } = useQuran();
-  const { pause: pauseQuranAudio, currentVerseKey } = useQuranAudio();
+  const {
+    pause: pauseQuranAudio,
+    currentVerseKey,
+    isPlaying: isQuranAudioPlaying,
+    playVerseRange,
+    playRepeat,
+    reciters,
+    selectedReciterId,
+    addToQueue,
+    playbackQueue,
+    currentChapterId: playingChapterId,
+  } = useQuranAudio();
   const { colors } = useTheme();
+  const { arabicFontSize, setArabicFontSize, resetArabicFontSize } = useArabicText();
+  const { preferences, updatePreferences } = useReaderPreferences();
+  const { view: settings, englishFontSize, readingMode: preferredReadingMode } = preferences;
   const {
     isBookmarked,
     toggleBookmark,
+    toggleVerseRangeBookmark,
     isThematicPassageBookmarked,
     toggleThematicPassageBookmark,
     bookmarks,
@@ -79,8 +130,6 @@ const ReadScreen = ({ route, navigation }: ReadScreenProps) => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [authOpen, setAuthOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
-  const [englishFontSize, setEnglishFontSize] = useState(16);
-  const [arabicFontSize, setArabicFontSize] = useState(24);
   const [floatingVisible, setFloatingVisible] = useState(true);
   const floatingVisibleRef = useRef(true);
   const [atBottom, setAtBottom] = useState(false);
@@ -116,17 +165,29 @@ const ReadScreen = ({ route, navigation }: ReadScreenProps) => {
   const isUserDraggingRef = useRef(false);
   const shouldToggleOnReleaseRef = useRef(false);
 
-  const [settings, setSettings] = useState<ViewSettings>({
-    showArabic: true,
-    showTranslation: true,
-    showTransliteration: false,
-    showIntro: true,
-  });
-  const [readingMode, setReadingMode] = useState<"regular" | "thematic">("regular");
+  const setSettings = (next: ViewSettings) => updatePreferences({ view: next });
+  const setEnglishFontSize = (size: number) => updatePreferences({ englishFontSize: size });
+  const resetFontSizes = () => {
+    setEnglishFontSize(DEFAULT_ENGLISH_FONT_SIZE);
+    resetArabicFontSize();
+  };
+  const [readingMode, setReadingMode] = useState<ReadingMode>("regular");
+  const [mushafPage, setMushafPage] = useState(1);
+  // Surah the mushaf page was last matched to, so turning pages doesn't jump back
+  const mushafSurahRef = useRef<number | null>(null);
   const [currentPlayingPassageId, setCurrentPlayingPassageId] = useState<string | null>(
     null
   );
   const [isPlayingThematicPassage, setIsPlayingThematicPassage] = useState(false);
+  // Passage opened through a theme link, highlighted until the surah changes
+  const [linkedPassageId, setLinkedPassageId] = useState<string | null>(null);
+  const pendingPassageScrollRef = useRef<string | null>(null);
+  // Verses picked in the reader for the selection actions
+  const [selectedRange, setSelectedRange] = useState<VerseRange | null>(null);
+  // Verses whose repeat settings are being chosen
+  const [repeatRange, setRepeatRange] = useState<VerseRange | null>(null);
+  const passageOffsetsRef = useRef<Record<string, number>>({});
+  const resolvedThemeLinkRef = useRef<string | null>(null);
 
   const currentSurahNumber = surahNumber || "1";
   const surahId = parseInt(currentSurahNumber, 10) || 1;
@@ -134,6 +195,7 @@ const ReadScreen = ({ route, navigation }: ReadScreenProps) => {
   const contextVerseNumber = currentVerseKey
     ? parseInt(currentVerseKey.split(":")[1], 10)
     : 1;
+  const currentJuz = getJuzNumber(surahId, contextVerseNumber);
 
   const tryRestoreScroll = () => {
     if (!contentReadyRef.current) return;
@@ -182,28 +244,27 @@ const ReadScreen = ({ route, navigation }: ReadScreenProps) => {
   };
 
   useEffect(() => {
-    const loadMode = async () => {
-      const savedMode = await AsyncStorage.getItem("preferredReadingMode");
-      if (
-        savedMode === "thematic" &&
-        hasReadAccess &&
-        currentThematicPassages.length > 0
-      ) {
-        setReadingMode("thematic");
-      } else if (savedMode === "regular") {
-        setReadingMode("regular");
-      }
-    };
-    loadMode();
-  }, [currentThematicPassages.length, hasReadAccess]);
+    // A theme link chose the mode for this surah
+    if (linkedPassageId) return;
+    if (
+      preferredReadingMode === "thematic" &&
+      hasReadAccess &&
+      currentThematicPassages.length > 0
+    ) {
+      setReadingMode("thematic");
+    } else if (preferredReadingMode !== "thematic") {
+      setReadingMode(preferredReadingMode);
+    }
+  }, [preferredReadingMode, currentThematicPassages.length, hasReadAccess, linkedPassageId]);
 
-  const handleReadingModeChange = async (mode: "regular" | "thematic") => {
+  const handleReadingModeChange = (mode: ReadingMode) => {
     if (mode === "thematic" && !hasReadAccess) {
       Alert.alert("Premium required", "Subscribe to unlock Thematic Mode and footnotes.");
       return;
     }
     setReadingMode(mode);
-    await AsyncStorage.setItem("preferredReadingMode", mode);
+    setSelectedRange(null);
+    updatePreferences({ readingMode: mode });
   };
 
   useEffect(() => {
@@ -213,6 +274,26 @@ const ReadScreen = ({ route, navigation }: ReadScreenProps) => {
     }
   }, [surahId, fetchSurahWithVerses, fetchThematicPassages]);
 
+  // When the queue moves on to another surah, turn the page with it, unless the
+  // reader had already left the surah that was playing
+  const previousPlayingChapterRef = useRef(playingChapterId);
+  useEffect(() => {
+    const previous = previousPlayingChapterRef.current;
+    previousPlayingChapterRef.current = playingChapterId;
+    if (!playbackQueue || playingChapterId === null || previous !== surahId) return;
+    if (playingChapterId === surahId) return;
+    navigation.navigate("Read", { surahNumber: String(playingChapterId) });
+    scrollRef.current?.scrollTo({ y: 0, animated: true });
+    // Only a change of playing surah should move the reader
+  }, [playingChapterId]);
+
+  // Load the neighbouring surahs in the background so prev/next is instant
+  useEffect(() => {
+    if (versesLoading || surahId <= 0) return;
+    prefetchSurah(surahId + 1);
+    prefetchSurah(surahId - 1);
+  }, [surahId, versesLoading, prefetchSurah]);
+
   useEffect(() => {
     if (currentSurahVerses.length > 0 && contextVerseNumber > 0) {
       updateProgress(surahId, contextVerseNumber, currentSurahVerses.length);
@@ -289,6 +370,8 @@ const ReadScreen = ({ route, navigation }: ReadScreenProps) => {
           typeof data.offsetY === "number" || typeof data.verseNumber === "number";
         restoreCheckedRef.current = true;
         if (route.params?.surahNumber) {
+          // An explicit verse or theme in the link wins over the saved position
+          if (route.params.verse || route.params.themeName) return;
           if (
             String(data.surahNumber) === String(route.params.surahNumber) &&
             typeof data.offsetY === "number"
@@ -353,8 +436,124 @@ const ReadScreen = ({ route, navigation }: ReadScreenProps) => {
     restoreCheckedRef.current = false;
     verseOffsetsRef.current = {};
     readerSectionOffsetRef.current = 0;
+    pendingPassageScrollRef.current = null;
+    passageOffsetsRef.current = {};
+    setLinkedPassageId(null);
+    setSelectedRange(null);
   }, [surahId]);
 
+  // Jump to a verse requested through navigation, e.g. a search result; range
+  // links such as read/2/255-257 land on the first verse and mark the rest
+  const verseParam = route.params?.verse;
+  const wordsParam = route.params?.words;
+  const highlightedRange = useMemo(() => {
+    const range = parseVerseRange(verseParam);
+    return range && range.end > range.start ? range : null;
+  }, [verseParam]);
+  const highlightedWords = useMemo(() => {
+    const verseNumber = verseParam ? parseInt(verseParam, 10) : NaN;
+    const positions = (wordsParam || "")
+      .split(",")
+      .map((position) => parseInt(position, 10))
+      .filter((position) => position > 0);
+    return verseNumber && positions.length ? { verseNumber, positions } : undefined;
+  }, [verseParam, wordsParam]);
+  const jumpToVerse = (verseNumber: number) => {
+    initialScrollOffsetRef.current = null;
+    initialVerseRef.current = verseNumber;
+    initialVerseAppliedRef.current = false;
+    hasRestoreTargetRef.current = true;
+    const offset = verseOffsetsRef.current[verseNumber];
+    if (contentReadyRef.current && typeof offset === "number") {
+      scrollRef.current?.scrollTo({
+        y: Math.max(0, offset - (insets.top + 56 + 12)),
+        animated: true,
+      });
+      initialVerseAppliedRef.current = true;
+    }
+  };
+  useEffect(() => {
+    const verseNumber = verseParam ? parseInt(verseParam, 10) : NaN;
+    if (!verseNumber) return;
+    jumpToVerse(verseNumber);
+  }, [surahId, verseParam]);
+
+  const scrollToPassage = (y: number) => {
+    scrollRef.current?.scrollTo({
+      y: Math.max(0, readerSectionOffsetRef.current + y - (insets.top + 56 + 12)),
+      animated: true,
+    });
+  };
+
+  // Open the passage a theme link names, once this surah's passages are in
+  const themeNameParam = route.params?.themeName;
+  useEffect(() => {
+    if (!themeNameParam || premiumAccessLoading || passagesLoading) return;
+    // Passages are requested with the verses, so once these are in, so are they
+    if (currentSurahVerses[0]?.surahNumber !== surahId) return;
+    const linkKey = `${surahId}/${themeNameParam}`;
+    if (resolvedThemeLinkRef.current === linkKey) return;
+    resolvedThemeLinkRef.current = linkKey;
+
+    const verseNumber = verseParam ? parseInt(verseParam, 10) : NaN;
+    const passage = findLinkedPassage(currentThematicPassages, themeNameParam, verseNumber);
+    if (!passage) {
+      Alert.alert(
+        "Theme not found",
+        `This link's theme isn't in ${selectedSurah?.transliteration ?? "this surah"}, so the surah opens from the start.`
+      );
+      return;
+    }
+    setLinkedPassageId(passage.id);
+    if (!hasReadAccess) {
+      // Thematic mode is premium, so land on the passage's first verse instead
+      jumpToVerse(passage.verseRange.start);
+      return;
+    }
+    setReadingMode("thematic");
+    const offset = passageOffsetsRef.current[passage.id];
+    if (readingMode === "thematic" && typeof offset === "number") {
+      scrollToPassage(offset);
+    } else {
+      pendingPassageScrollRef.current = passage.id;
+    }
+  }, [
+    themeNameParam,
+    verseParam,
+    surahId,
+    currentSurahVerses,
+    currentThematicPassages,
+    passagesLoading,
+    premiumAccessLoading,
+    hasReadAccess,
+  ]);
+
+  // Open the mushaf on the current surah, or the requested verse, unless the
+  // surah changed because the reader turned pages into it
+  useEffect(() => {
+    if (readingMode !== "mushaf" || mushafSurahRef.current === surahId) return;
+    if (currentSurahVerses[0]?.surahNumber !== surahId) return;
+    const verseNumber = verseParam ? parseInt(verseParam, 10) : NaN;
+    const target =
+      currentSurahVerses.find((verse) => verse.verseNumber === verseNumber) ??
+      currentSurahVerses[0];
+    mushafSurahRef.current = surahId;
+    setMushafPage(target.page);
+  }, [readingMode, surahId, currentSurahVerses, verseParam]);
+
+  const { data: mushafPageData } = useQuery({
+    ...mushafPageQuery(mushafPage),
+    enabled: readingMode === "mushaf",
+  });
+  // Keep the header and progress on a surah that is on the visible page
+  useEffect(() => {
+    const surahNumbers = mushafPageData?.surahNumbers;
+    if (readingMode !== "mushaf" || mushafSurahRef.current !== surahId) return;
+    if (!surahNumbers?.length || surahNumbers.includes(surahId)) return;
+    mushafSurahRef.current = surahNumbers[0];
+    navigation.setParams({ surahNumber: String(surahNumbers[0]) });
+  }, [readingMode, surahId, mushafPageData, navigation]);
+
   useEffect(() => {
     return () => {
       if (saveTimeoutRef.current) {
@@ -642,22 +841,100 @@ const ReadScreen = ({ route, navigation }: ReadScreenProps) => {
     if (!passage || !selectedSurah) return;
     const title = `${selectedSurah.transliteration}: ${passage.themeName}`;
     const description = stripFootnoteTags(passage.translation || "").substring(0, 180);
-    const url = `https://theclearquran.org/read/${surahId}/${passage.verseRange.start}-${passage.verseRange.end}`;
+    // Name the verse too when another passage in the surah shares the theme
+    const isAmbiguous = currentThematicPassages.some(
+      (p) => p.id !== passage.id && p.themeSlug === passage.themeSlug
+    );
+    const url = `https://theclearquran.org/read/${surahId}/theme/${passage.themeSlug}${
+      isAmbiguous ? `?verse=${passage.verseRange.start}` : ""
+    }`;
     await Share.share({ message: `${title}\n\n${description}\n\n${url}` });
   };
 
-  const handleShareVerse = async (verseNumber: number) => {
-    const verse = currentSurahVerses.find((v) => v.verseNumber === verseNumber);
-    if (!verse || !selectedSurah) return;
-    const title = `${selectedSurah.transliteration} ${surahId}:${verseNumber}`;
-    const description = stripFootnoteTags(verse.translation || "").substring(0, 180);
-    const url = `https://theclearquran.org/read/${surahId}/${verseNumber}`;
+  const getVersesInRange = ({ start, end }: VerseRange) =>
+    currentSurahVerses.filter((v) => v.verseNumber >= start && v.verseNumber <= end);
+
+  const handleShareVerses = async (range: VerseRange) => {
+    const verses = getVersesInRange(range);
+    if (!verses.length || !selectedSurah) return;
+    const reference = formatVerseRange(range);
+    const title = `${selectedSurah.transliteration} ${surahId}:${reference}`;
+    const description = stripFootnoteTags(verses.map((v) => v.translation).join(" ")).substring(
+      0,
+      180
+    );
+    const url = `https://theclearquran.org/read/${surahId}/${reference}`;
     await Share.share({ message: `${title}\n\n${description}\n\n${url}` });
   };
 
+  const handleShareVerse = (verseNumber: number) =>
+    handleShareVerses({ start: verseNumber, end: verseNumber });
+
+  const handleCopyVerses = async (range: VerseRange) => {
+    const verses = getVersesInRange(range);
+    if (!verses.length || !selectedSurah) return;
+    const reference = `${selectedSurah.transliteration} ${surahId}:${formatVerseRange(range)}`;
+    const body = verses
+      .map((v) => {
+        const lines = [
+          settings.showArabic ? v.arabic : null,
+          settings.showTranslation
+            ? `${v.verseNumber}. ${stripFootnoteTags(v.translation)}`
+            : null,
+        ];
+        return lines.filter(Boolean).join("\n");
+      })
+      .join("\n\n");
+    await Clipboard.setStringAsync(`${body}\n\n— ${reference}`);
+    Alert.alert("Copied", `${reference} copied to the clipboard.`);
+  };
+
+  const handleRepeatVerses = (range: VerseRange) => {
+    const reciter = reciters.find((item) => item.id === selectedReciterId);
+    if (reciter && !reciter.hasTimings) {
+      Alert.alert(
+        "Repeat unavailable",
+        `${reciter.name} has no verse timings, so verses can't be repeated. Choose another reciter in the audio player.`
+      );
+      return;
+    }
+    setRepeatRange(range);
+  };
+
+  const handleQueueVerses = async (range: VerseRange) => {
+    setSelectedRange(null);
+    await addToQueue({ surahId, startVerse: range.start, endVerse: range.end });
+    Alert.alert("Added to queue", `${surahId}:${formatVerseRange(range)} will play in turn.`);
+  };
+
+  const handleStartRepeat = (range: VerseRange, repeat: RepeatSettings) => {
+    updatePreferences({ repeat });
+    setSelectedRange(null);
+    void playRepeat({ surahId, startVerse: range.start, endVerse: range.end, ...repeat });
+  };
+
+  const isSelectionPlaying =
+    !!selectedRange &&
+    isQuranAudioPlaying &&
+    currentVerseKey !== null &&
+    currentVerseKey.startsWith(`${surahId}:`) &&
+    contextVerseNumber >= selectedRange.start &&
+    contextVerseNumber <= selectedRange.end;
+
+  const isSelectionBookmarked =
+    !!selectedRange &&
+    getVersesInRange(selectedRange).every((v) => isBookmarked(surahId, v.verseNumber));
+
   const isRTL = settings.showArabic && !settings.showTranslation;
   const isInitialPremiumLoading = premiumAccessLoading && currentSurahVerses.length === 0;
   const isPageLoading = surahsLoading || versesLoading || passagesLoading || isInitialPremiumLoading;
+  // Show a retry state rather than an empty reader when content failed to load
+  const loadError =
+    readingMode === "thematic" && currentThematicPassages.length === 0
+      ? passagesError || versesError
+      : currentSurahVerses.length === 0
+        ? versesError
+        : null;
 
   const verseNotes = useMemo(() => {
     const notesMap: Record<string, string> = {};
@@ -752,9 +1029,15 @@ const ReadScreen = ({ route, navigation }: ReadScreenProps) => {
         visible={sidebarOpen}
         onClose={() => setSidebarOpen(false)}
         currentSurahNumber={currentSurahNumber}
+        currentJuzNumber={currentJuz}
         searchQuery={searchQuery}
         onSearchChange={setSearchQuery}
+        onSearchQuran={(query) => navigation.navigate("Search", { query })}
+        onBrowseTopics={() => navigation.navigate("Topics", {})}
         onSelectSurah={(surah) => navigation.navigate("Read", { surahNumber: String(surah) })}
+        onSelectVerse={(surah, verse) =>
+          navigation.navigate("Read", { surahNumber: String(surah), verse: String(verse) })
+        }
       />
 
       <ScrollView
@@ -801,6 +1084,36 @@ const ReadScreen = ({ route, navigation }: ReadScreenProps) => {
               Loading...
             </Text>
           </View>
+        ) : loadError ? (
+          <View
+            style={[
+              styles.introCard,
+              { backgroundColor: colors.card, borderColor: colors.border },
+            ]}
+          >
+            <Text style={[styles.introTitle, { color: colors.foreground }]}>
+              Couldn't load this surah
+            </Text>
+            <Text style={[styles.introText, { color: colors.textSecondary }]}>
+              {getQuranErrorMessage(loadError)}
+            </Text>
+            <Pressable
+              onPress={retryCurrentSurah}
+              style={[styles.retryButton, { backgroundColor: colors.primary }]}
+            >
+              <Text style={[styles.retryText, { color: colors.primaryForeground }]}>
+                Try again
+              </Text>
+            </Pressable>
+          </View>
+        ) : selectedSurah && readingMode === "mushaf" ? (
+          <MushafReader
+            page={mushafPage}
+            onPageChange={setMushafPage}
+            arabicFontSize={arabicFontSize}
+            onBookmarkVerse={toggleBookmark}
+            isVerseBookmarked={isBookmarked}
+          />
         ) : selectedSurah ? (
           <>
             {introContent}
@@ -828,7 +1141,13 @@ const ReadScreen = ({ route, navigation }: ReadScreenProps) => {
               showArabic={settings.showArabic}
               showTranslation={settings.showTranslation}
               showTransliteration={settings.showTransliteration}
+              showWordByWord={settings.showWordByWord}
+              showTajweed={settings.showTajweed}
               surahNumber={surahId}
+              highlightedWords={highlightedWords}
+              highlightedRange={highlightedRange}
+              selectedRange={selectedRange}
+              onSelectRange={setSelectedRange}
               onSectionLayout={(y) => {
                 readerSectionOffsetRef.current = y;
               }}
@@ -847,6 +1166,13 @@ const ReadScreen = ({ route, navigation }: ReadScreenProps) => {
                   initialVerseAppliedRef.current = true;
                 }
               }}
+              highlightedPassageId={linkedPassageId}
+              onPassageLayout={(passageId, y) => {
+                passageOffsetsRef.current[passageId] = y;
+                if (pendingPassageScrollRef.current !== passageId) return;
+                pendingPassageScrollRef.current = null;
+                scrollToPassage(y);
+              }}
               onThematicPassagePlay={handleThematicPassagePlay}
               currentPlayingPassageId={currentPlayingPassageId}
               isPlayingThematicPassage={isPlayingThematicPassage}
@@ -882,25 +1208,25 @@ const ReadScreen = ({ route, navigation }: ReadScreenProps) => {
         arabicFontSize={arabicFontSize}
         onEnglishFontSizeChange={setEnglishFontSize}
         onArabicFontSizeChange={setArabicFontSize}
-        onResetFontSizes={() => {
-          setEnglishFontSize(16);
-          setArabicFontSize(24);
-        }}
+        onResetFontSizes={resetFontSizes}
         showArabic={settings.showArabic}
         showTranslation={settings.showTranslation}
         showTransliteration={settings.showTransliteration}
+        showWordByWord={settings.showWordByWord}
         onDisplayToggle={(setting, value) =>
-          setSettings((prev) => ({ ...prev, [setting]: value }))
+          setSettings({ ...settings, [setting]: value })
         }
         onPrevSurah={handlePrevSurah}
         onNextSurah={handleNextSurah}
         currentSurah={`${selectedSurah?.transliteration || ""} - ${selectedSurah?.translation || ""}`}
         searchQuery={searchQuery}
         onSearchChange={setSearchQuery}
+        onSearchQuran={(query) => navigation.navigate("Search", { query })}
         isCurrentVerseBookmarked={isBookmarked(surahId, contextVerseNumber)}
         onToggleBookmark={() => toggleBookmark(surahId, contextVerseNumber)}
         currentStreak={streak?.current_streak || 0}
         completionPercentage={getCompletionPercentage()}
+        currentJuz={currentJuz}
         hasPremiumAccess={hasReadAccess}
         readingMode={readingMode}
         onReadingModeChange={handleReadingModeChange}
@@ -908,7 +1234,37 @@ const ReadScreen = ({ route, navigation }: ReadScreenProps) => {
         onRequestUpgrade={() =>
           Alert.alert("Premium required", "Subscribe to unlock Thematic Mode and footnotes.")
         }
-        isVisible={!chromeHidden && floatingVisible}
+        isVisible={!chromeHidden && floatingVisible && !selectedRange}
+      />
+
+      {selectedRange && readingMode === "regular" ? (
+        <VerseSelectionBar
+          label={`${surahId}:${formatVerseRange(selectedRange)}`}
+          isPlaying={isSelectionPlaying}
+          isBookmarked={isSelectionBookmarked}
+          onPlay={() =>
+            isSelectionPlaying
+              ? pauseQuranAudio()
+              : playVerseRange(surahId, selectedRange.start, selectedRange.end)
+          }
+          onBookmark={() =>
+            toggleVerseRangeBookmark(surahId, selectedRange.start, selectedRange.end)
+          }
+          onCopy={() => handleCopyVerses(selectedRange)}
+          onShare={() => handleShareVerses(selectedRange)}
+          onRepeat={() => handleRepeatVerses(selectedRange)}
+          onQueue={() => handleQueueVerses(selectedRange)}
+          onClose={() => setSelectedRange(null)}
+        />
+      ) : null}
+
+      <RepeatSettingsModal
+        visible={repeatRange !== null}
+        label={repeatRange ? `${surahId}:${formatVerseRange(repeatRange)}` : ""}
+        isRange={!!repeatRange && repeatRange.end > repeatRange.start}
+        initialSettings={preferences.repeat}
+        onStart={(repeat) => repeatRange && handleStartRepeat(repeatRange, repeat)}
+        onClose={() => setRepeatRange(null)}
       />
 
       <SurahNavigation
@@ -929,10 +1285,7 @@ const ReadScreen = ({ route, navigation }: ReadScreenProps) => {
         arabicFontSize={arabicFontSize}
         onEnglishFontSizeChange={setEnglishFontSize}
         onArabicFontSizeChange={setArabicFontSize}
-        onResetFontSizes={() => {
-          setEnglishFontSize(16);
-          setArabicFontSize(24);
-        }}
+        onResetFontSizes={resetFontSizes}
       />
       <AuthModal visible={authOpen} onClose={() => setAuthOpen(false)} />
     </SafeAreaView>
@@ -996,4 +1349,15 @@ const styles = StyleSheet.create({
     fontSize: 14,
     lineHeight: 20,
   },
+  retryButton: {
+    alignSelf: "flex-start",
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 999,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
 });
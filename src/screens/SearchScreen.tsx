@@ -0,0 +1,482 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { RootStackParamList } from "../../App";
+import { useQuran } from "../contexts/QuranContext";
+import { useLanguage } from "../contexts/LanguageContext";
+import { useTheme } from "../contexts/ThemeContext";
+import { getQuranErrorMessage, toQuranQueryError } from "../services/quranErrors";
+import { rootSearchQuery, searchQuery } from "../services/quranQueries";
+import { LemmaGroup, SearchHit, SearchOptions, WordMatch } from "../services/quranSearch";
+import {
+  highlightMatches,
+  toArabicLetters,
+  tokenizeSearchQuery,
+} from "../utils/searchText";
+
+type SearchScreenProps = NativeStackScreenProps<RootStackParamList, "Search">;
+
+const SEARCH_DEBOUNCE_MS = 250;
+const SNIPPET_LENGTH = 160;
+// Verses listed per lemma before "Show all"
+const COLLAPSED_VERSE_COUNT = 5;
+
+type SearchMode = "text" | "root";
+
+const SEARCH_MODES: { key: SearchMode; label: string }[] = [
+  { key: "text", label: "Words" },
+  { key: "root", label: "Root" },
+];
+
+const KIND_LABELS: Record<SearchHit["kind"], string | null> = {
+  verse: null,
+  footnote: "Footnote",
+  theme: "Theme",
+};
+
+const SearchScreen = ({ route, navigation }: SearchScreenProps) => {
+  const { colors } = useTheme();
+  const { language } = useLanguage();
+  const { getSurahByNumber, currentTranslation } = useQuran();
+  const [input, setInput] = useState(route.params?.query ?? "");
+  const [query, setQuery] = useState(input.trim());
+  const [mode, setMode] = useState<SearchMode>(route.params?.mode ?? "text");
+  const [expandedLemmas, setExpandedLemmas] = useState<string[]>([]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(input.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const terms = useMemo(() => tokenizeSearchQuery(query), [query]);
+  const rootLetters = useMemo(() => toArabicLetters(query), [query]);
+  const hasQuery = mode === "text" ? terms.length > 0 : rootLetters.length > 0;
+  const currentTranslationId = currentTranslation?.id;
+  const options = useMemo<SearchOptions>(
+    () => ({
+      languages: [language],
+      translationIds: currentTranslationId ? [currentTranslationId] : [],
+    }),
+    [language, currentTranslationId]
+  );
+
+  const textSearch = useQuery({
+    ...searchQuery(query, options),
+    enabled: mode === "text" && terms.length > 0,
+    placeholderData: keepPreviousData,
+  });
+  const rootSearch = useQuery({
+    ...rootSearchQuery(rootLetters),
+    enabled: mode === "root" && rootLetters.length > 0,
+    placeholderData: keepPreviousData,
+  });
+  const hits = textSearch.data ?? [];
+  const groups = rootSearch.data ?? [];
+  const { error, isFetching, refetch } = mode === "text" ? textSearch : rootSearch;
+  const resultCount = mode === "text" ? hits.length : groups.length;
+
+  const searchError = error ? toQuranQueryError(error) : null;
+  // Search never touches the network; "network" here means the offline copy is missing
+  const errorMessage = searchError
+    ? searchError.kind === "network"
+      ? searchError.message
+      : getQuranErrorMessage(searchError)
+    : null;
+
+  const renderHit = ({ item }: { item: SearchHit }) => {
+    const [surahNumber, verseNumber] = item.verseKey.split(":");
+    const surah = getSurahByNumber(Number(surahNumber));
+    const kindLabel = KIND_LABELS[item.kind];
+    const isArabic = item.language === "ar";
+    const segments = highlightMatches(item.text, terms, SNIPPET_LENGTH);
+
+    return (
+      <TouchableOpacity
+        style={[styles.result, { backgroundColor: colors.card, borderColor: colors.border }]}
+        onPress={() => navigation.navigate("Read", { surahNumber, verse: verseNumber })}
+      >
+        <View style={styles.resultHeader}>
+          <Text style={[styles.resultTitle, { color: colors.foreground }]}>
+            {surah?.transliteration ?? `Surah ${surahNumber}`} {item.verseKey}
+          </Text>
+          {kindLabel ? (
+            <Text style={[styles.kindBadge, { color: colors.primary, borderColor: colors.primary }]}>
+              {kindLabel}
+            </Text>
+          ) : null}
+        </View>
+        <Text
+          style={[
+            styles.snippet,
+            { color: colors.textSecondary },
+            isArabic && styles.arabicSnippet,
+          ]}
+        >
+          {segments.map((segment, index) => (
+            <Text
+              key={index}
+              style={
+                segment.match
+                  ? [styles.match, { color: colors.foreground, backgroundColor: colors.muted }]
+                  : undefined
+              }
+            >
+              {segment.text}
+            </Text>
+          ))}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderArabicWords = (match: WordMatch) =>
+    match.text.split(" ").map((word, index) => (
+      <React.Fragment key={index}>
+        {index > 0 ? " " : null}
+        <Text
+          style={
+            match.positions.includes(index + 1)
+              ? [styles.match, { color: colors.primary }]
+              : undefined
+          }
+        >
+          {word}
+        </Text>
+      </React.Fragment>
+    ));
+
+  const renderGroup = ({ item }: { item: LemmaGroup }) => {
+    const expanded = expandedLemmas.includes(item.lemma);
+    const verses = expanded ? item.verses : item.verses.slice(0, COLLAPSED_VERSE_COUNT);
+
+    return (
+      <View style={[styles.result, { backgroundColor: colors.card, borderColor: colors.border }]}>
+        <View style={styles.resultHeader}>
+          <Text style={[styles.lemma, { color: colors.foreground }]}>{item.lemma}</Text>
+          <Text style={[styles.count, { color: colors.textSecondary }]}>
+            {item.occurrences} {item.occurrences === 1 ? "occurrence" : "occurrences"}
+          </Text>
+        </View>
+        {item.root ? (
+          <Text style={[styles.rootLabel, { color: colors.textSecondary }]}>
+            Root: {Array.from(item.root).join(" ")}
+          </Text>
+        ) : null}
+        <View style={styles.forms}>
+          {item.forms.map((form) => (
+            <Text
+              key={form.form}
+              style={[styles.formChip, { borderColor: colors.border, color: colors.foreground }]}
+            >
+              {form.form} ×{form.count}
+            </Text>
+          ))}
+        </View>
+        {verses.map((verse) => (
+          <TouchableOpacity
+            key={verse.verseKey}
+            style={[styles.wordMatch, { borderColor: colors.border }]}
+            onPress={() =>
+              navigation.navigate("Read", {
+                surahNumber: String(verse.surahNumber),
+                verse: String(verse.verseNumber),
+                words: verse.positions.join(","),
+              })
+            }
+          >
+            <Text style={[styles.resultTitle, { color: colors.foreground }]}>
+              {getSurahByNumber(verse.surahNumber)?.transliteration ??
+                `Surah ${verse.surahNumber}`}{" "}
+              {verse.verseKey}
+            </Text>
+            <Text style={[styles.snippet, styles.arabicSnippet, { color: colors.textSecondary }]}>
+              {renderArabicWords(verse)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        {item.verses.length > COLLAPSED_VERSE_COUNT ? (
+          <TouchableOpacity
+            onPress={() =>
+              setExpandedLemmas((prev) =>
+                expanded ? prev.filter((lemma) => lemma !== item.lemma) : [...prev, item.lemma]
+              )
+            }
+          >
+            <Text style={[styles.showAll, { color: colors.primary }]}>
+              {expanded ? "Show fewer" : `Show all ${item.verses.length} verses`}
+            </Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (!hasQuery) {
+      return (
+        <Text style={[styles.muted, { color: colors.textSecondary }]}>
+          {mode === "text"
+            ? "Search verses in Arabic or translation, footnotes and themes."
+            : "Enter an Arabic root or lemma, e.g. ك ت ب, to find every word derived from it."}
+        </Text>
+      );
+    }
+    if (isFetching) {
+      return <ActivityIndicator color={colors.primary} />;
+    }
+    if (errorMessage) {
+      return (
+        <View style={styles.errorWrap}>
+          <Text style={[styles.muted, { color: colors.textSecondary }]}>{errorMessage}</Text>
+          <Pressable
+            onPress={() => refetch()}
+            style={[styles.retryButton, { backgroundColor: colors.primary }]}
+          >
+            <Text style={[styles.retryText, { color: colors.primaryForeground }]}>
+              Try again
+            </Text>
+          </Pressable>
+        </View>
+      );
+    }
+    return (
+      <Text style={[styles.muted, { color: colors.textSecondary }]}>
+        No results for "{query}".
+      </Text>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} hitSlop={8}>
+          <Ionicons name="chevron-back" size={22} color={colors.foreground} />
+        </TouchableOpacity>
+        <View style={[styles.searchWrap, { borderColor: colors.border }]}>
+          <Ionicons name="search" size={16} color={colors.textSecondary} />
+          <TextInput
+            style={[styles.searchInput, { color: colors.foreground }]}
+            placeholder={mode === "text" ? "Search the Quran..." : "Root or lemma, e.g. ك-ت-ب"}
+            placeholderTextColor={colors.textSecondary}
+            value={input}
+            onChangeText={setInput}
+            autoFocus
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          {input ? (
+            <TouchableOpacity onPress={() => setInput("")} hitSlop={8}>
+              <Ionicons name="close-circle" size={16} color={colors.textSecondary} />
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      </View>
+
+      <View style={styles.modes}>
+        {SEARCH_MODES.map((option) => {
+          const isSelected = mode === option.key;
+          return (
+            <TouchableOpacity
+              key={option.key}
+              style={[
+                styles.modeButton,
+                { borderColor: isSelected ? colors.primary : colors.border },
+                isSelected && { backgroundColor: colors.muted },
+              ]}
+              onPress={() => setMode(option.key)}
+            >
+              <Text style={[styles.modeText, { color: colors.foreground }]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {hasQuery && resultCount > 0 ? (
+        <Text style={[styles.count, styles.resultCount, { color: colors.textSecondary }]}>
+          {mode === "text"
+            ? `${resultCount} ${resultCount === 1 ? "result" : "results"}`
+            : `${resultCount} ${resultCount === 1 ? "lemma" : "lemmas"}`}
+        </Text>
+      ) : null}
+
+      {mode === "text" ? (
+        <FlatList
+          data={hasQuery && !searchError ? hits : []}
+          keyExtractor={(item) => `${item.kind}:${item.verseKey}`}
+          renderItem={renderHit}
+          ListEmptyComponent={renderEmpty}
+          contentContainerStyle={styles.list}
+          keyboardShouldPersistTaps="handled"
+          keyboardDismissMode="on-drag"
+        />
+      ) : (
+        <FlatList
+          data={hasQuery && !searchError ? groups : []}
+          keyExtractor={(item) => item.lemma}
+          renderItem={renderGroup}
+          extraData={expandedLemmas}
+          ListEmptyComponent={renderEmpty}
+          contentContainerStyle={styles.list}
+          keyboardShouldPersistTaps="handled"
+          keyboardDismissMode="on-drag"
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  searchWrap: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+  },
+  modes: {
+    flexDirection: "row",
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 10,
+  },
+  modeButton: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  modeText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  count: {
+    fontSize: 12,
+  },
+  resultCount: {
+    paddingHorizontal: 16,
+    paddingTop: 10,
+  },
+  list: {
+    padding: 16,
+    gap: 10,
+  },
+  result: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 6,
+  },
+  resultHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 8,
+  },
+  resultTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  kindBadge: {
+    fontSize: 11,
+    fontWeight: "600",
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  snippet: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  arabicSnippet: {
+    fontFamily: "ScheherazadeNew_400Regular",
+    fontSize: 20,
+    lineHeight: 34,
+    textAlign: "right",
+    writingDirection: "rtl",
+  },
+  match: {
+    fontWeight: "700",
+  },
+  lemma: {
+    fontFamily: "ScheherazadeNew_700Bold",
+    fontSize: 26,
+  },
+  rootLabel: {
+    fontSize: 13,
+  },
+  forms: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  formChip: {
+    fontFamily: "ScheherazadeNew_400Regular",
+    fontSize: 16,
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 2,
+  },
+  wordMatch: {
+    borderTopWidth: 1,
+    paddingTop: 8,
+    gap: 4,
+  },
+  showAll: {
+    fontSize: 13,
+    fontWeight: "600",
+    paddingTop: 4,
+  },
+  muted: {
+    fontSize: 14,
+    textAlign: "center",
+  },
+  errorWrap: {
+    alignItems: "center",
+  },
+  retryButton: {
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 999,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
+
+export default SearchScreen;
@@ -0,0 +1,224 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { RootStackParamList } from "../../App";
+import QuranReader from "../components/quran/QuranReader";
+import { ThematicPassage, useQuran } from "../contexts/QuranContext";
+import { useTheme } from "../contexts/ThemeContext";
+import { useArabicText } from "../contexts/ArabicTextContext";
+import { useReaderPreferences } from "../contexts/ReaderPreferencesContext";
+import { useBookmarks } from "../hooks/useBookmarks";
+import { usePremiumAccess } from "../hooks/usePremiumAccess";
+import { getQuranErrorMessage, toQuranQueryError } from "../services/quranErrors";
+import { stripFootnoteTags } from "../utils/stripFootnoteTags";
+
+type TopicScreenProps = NativeStackScreenProps<RootStackParamList, "Topic">;
+
+const parseThemeIds = (value: string | undefined): number[] =>
+  (value ?? "")
+    .split(",")
+    .map(Number)
+    .filter((id) => Number.isInteger(id) && id > 0);
+
+const TopicScreen = ({ route, navigation }: TopicScreenProps) => {
+  const { colors } = useTheme();
+  const { fetchThemePassages, getSurahByNumber } = useQuran();
+  const { arabicFontSize } = useArabicText();
+  const { preferences } = useReaderPreferences();
+  const { view: settings, englishFontSize } = preferences;
+  const {
+    isThematicPassageBookmarked,
+    toggleThematicPassageBookmark,
+    thematicBookmarks,
+    updateThematicNote,
+  } = useBookmarks();
+  const { canAccessFootnotes } = usePremiumAccess();
+
+  const themeIdsParam = route.params?.themeIds;
+  const themeIds = useMemo(() => parseThemeIds(themeIdsParam), [themeIdsParam]);
+  const [passages, setPassages] = useState<ThematicPassage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (themeIds.length === 0) {
+      setIsLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetchThemePassages(themeIds)
+      .then((result) => {
+        if (!cancelled) setPassages(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(getQuranErrorMessage(toQuranQueryError(err)));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [themeIds, fetchThemePassages, attempt]);
+
+  const passageNotes = useMemo(() => {
+    const notesMap: Record<string, string> = {};
+    thematicBookmarks.forEach((bookmark) => {
+      if (bookmark.note) {
+        notesMap[bookmark.passage_id] = bookmark.note;
+      }
+    });
+    return notesMap;
+  }, [thematicBookmarks]);
+
+  const getPassageSource = (passage: ThematicPassage) => {
+    const surah = getSurahByNumber(passage.surahNumber);
+    const { start, end } = passage.verseRange;
+    const range = start === end ? `${start}` : `${start}–${end}`;
+    return `${surah?.transliteration ?? `Surah ${passage.surahNumber}`} ${passage.surahNumber}:${range}`;
+  };
+
+  const handleSharePassage = async (passage: ThematicPassage) => {
+    const title = `${getPassageSource(passage)}: ${passage.themeName}`;
+    const description = stripFootnoteTags(passage.translation || "").substring(0, 180);
+    // Other passages of the surah aren't loaded here, so always name the verse
+    const url = `https://theclearquran.org/read/${passage.surahNumber}/theme/${passage.themeSlug}?verse=${passage.verseRange.start}`;
+    await Share.share({ message: `${title}\n\n${description}\n\n${url}` });
+  };
+
+  const title = route.params?.title ?? passages[0]?.themeName ?? "Topic";
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} hitSlop={8}>
+          <Ionicons name="chevron-back" size={22} color={colors.foreground} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.foreground }]} numberOfLines={1}>
+          {title}
+        </Text>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.center}>
+          <ActivityIndicator color={colors.primary} />
+        </View>
+      ) : error ? (
+        <View style={styles.center}>
+          <Text style={[styles.muted, { color: colors.textSecondary }]}>{error}</Text>
+          <Pressable
+            onPress={() => setAttempt((value) => value + 1)}
+            style={[styles.retryButton, { backgroundColor: colors.primary }]}
+          >
+            <Text style={[styles.retryText, { color: colors.primaryForeground }]}>
+              Try again
+            </Text>
+          </Pressable>
+        </View>
+      ) : passages.length === 0 ? (
+        <View style={styles.center}>
+          <Text style={[styles.muted, { color: colors.textSecondary }]}>
+            No passages found for this topic.
+          </Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={[styles.summary, { color: colors.textSecondary }]}>
+            {passages.length} {passages.length === 1 ? "passage" : "passages"} across{" "}
+            {new Set(passages.map((passage) => passage.surahNumber)).size} surahs
+          </Text>
+          <QuranReader
+            thematicPassages={passages}
+            viewMode="thematic"
+            englishFontSize={englishFontSize}
+            arabicFontSize={arabicFontSize}
+            showArabic={settings.showArabic}
+            showTranslation={settings.showTranslation}
+            showTransliteration={settings.showTransliteration}
+            showWordByWord={settings.showWordByWord}
+            showTajweed={settings.showTajweed}
+            surahNumber={passages[0].surahNumber}
+            getPassageSource={getPassageSource}
+            onThematicPassageBookmark={toggleThematicPassageBookmark}
+            isThematicPassageBookmarked={isThematicPassageBookmarked}
+            passageNotes={passageNotes}
+            onThematicNoteSave={updateThematicNote}
+            onSharePassage={handleSharePassage}
+            // A passage's position within its surah isn't known here, so only
+            // the surah-wide access rules apply
+            canAccessFootnotes={(surahNumber) =>
+              canAccessFootnotes(surahNumber, Number.POSITIVE_INFINITY)
+            }
+            onRequestUpgrade={() =>
+              Alert.alert("Premium required", "Subscribe to unlock footnotes and thematic mode.")
+            }
+          />
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  title: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: "700",
+  },
+  content: {
+    paddingVertical: 16,
+  },
+  summary: {
+    fontSize: 12,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  center: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  muted: {
+    fontSize: 14,
+    textAlign: "center",
+  },
+  retryButton: {
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 999,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
+
+export default TopicScreen;
@@ -0,0 +1,282 @@
+import React, { useMemo } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { NativeStackScreenProps } from "@react-navigation/native-stack";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useQuery } from "@tanstack/react-query";
+import { RootStackParamList } from "../../App";
+import { useQuran } from "../contexts/QuranContext";
+import { useLanguage } from "../contexts/LanguageContext";
+import { useTheme } from "../contexts/ThemeContext";
+import { ApiThemeCategory, getThemeCategoryName, getThemeName } from "../services/quranApi";
+import { getQuranErrorMessage, toQuranQueryError } from "../services/quranErrors";
+import {
+  CategoryTheme,
+  categoryThemesQuery,
+  themeCategoriesQuery,
+} from "../services/quranQueries";
+
+type TopicsScreenProps = NativeStackScreenProps<RootStackParamList, "Topics">;
+
+type IoniconName = React.ComponentProps<typeof Ionicons>["name"];
+
+const FALLBACK_ICON: IoniconName = "pricetag-outline";
+
+// Categories name their icon loosely ("heart", "book_open"), so match it to an
+// Ionicons glyph, preferring the outline variant
+const getCategoryIcon = (iconName: string | null): IoniconName => {
+  if (!iconName) return FALLBACK_ICON;
+  const base = iconName.trim().toLowerCase().replace(/[\s_]+/g, "-");
+  const candidates = [`${base}-outline`, base];
+  const match = candidates.find((name) => name in Ionicons.glyphMap);
+  return (match as IoniconName | undefined) ?? FALLBACK_ICON;
+};
+
+// A theme name can head passages in several surahs; they are read together
+interface TopicGroup {
+  name: string;
+  themes: CategoryTheme[];
+  verseCount: number;
+}
+
+const groupThemesByName = (
+  themes: CategoryTheme[],
+  getName: (theme: CategoryTheme) => string
+): TopicGroup[] => {
+  const groups = new Map<string, TopicGroup>();
+  themes.forEach((theme) => {
+    const name = getName(theme);
+    const group = groups.get(name) ?? { name, themes: [], verseCount: 0 };
+    group.themes.push(theme);
+    group.verseCount += theme.verse_count;
+    groups.set(name, group);
+  });
+  return [...groups.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const TopicsScreen = ({ route, navigation }: TopicsScreenProps) => {
+  const { colors } = useTheme();
+  const { language } = useLanguage();
+  const { getSurahByNumber } = useQuran();
+  const categoryId = route.params?.categoryId ? Number(route.params.categoryId) : null;
+  const hasCategory = categoryId !== null && Number.isInteger(categoryId);
+
+  const categoriesResult = useQuery(themeCategoriesQuery());
+  const themesResult = useQuery({
+    ...categoryThemesQuery(categoryId ?? 0),
+    enabled: hasCategory,
+  });
+  const { error, isPending, refetch } = hasCategory ? themesResult : categoriesResult;
+
+  const category = hasCategory
+    ? categoriesResult.data?.find((item) => item.id === categoryId)
+    : undefined;
+  const title = category
+    ? getThemeCategoryName(category, language)
+    : hasCategory
+      ? "Topic"
+      : "Topics";
+
+  const topics = useMemo(
+    () =>
+      groupThemesByName(themesResult.data ?? [], (theme) => getThemeName(theme, language)),
+    [themesResult.data, language]
+  );
+
+  const renderCategory = ({ item }: { item: ApiThemeCategory }) => (
+    <TouchableOpacity
+      style={[styles.row, { backgroundColor: colors.card, borderColor: colors.border }]}
+      onPress={() => navigation.push("Topics", { categoryId: String(item.id) })}
+    >
+      <View style={[styles.iconWrap, { backgroundColor: colors.muted }]}>
+        <Ionicons name={getCategoryIcon(item.icon_name)} size={18} color={colors.primary} />
+      </View>
+      <Text style={[styles.rowTitle, { color: colors.foreground }]} numberOfLines={2}>
+        {getThemeCategoryName(item, language)}
+      </Text>
+      <Text style={[styles.count, { color: colors.textSecondary }]}>{item.theme_count}</Text>
+      <Ionicons name="chevron-forward" size={16} color={colors.textSecondary} />
+    </TouchableOpacity>
+  );
+
+  const renderTopic = ({ item }: { item: TopicGroup }) => {
+    const passageCount = item.themes.length;
+    const sources = item.themes
+      .map((theme) => {
+        const surah = getSurahByNumber(theme.chapter_number);
+        const range =
+          theme.start_verse === theme.end_verse
+            ? `${theme.start_verse}`
+            : `${theme.start_verse}–${theme.end_verse}`;
+        return `${surah?.transliteration ?? `Surah ${theme.chapter_number}`} ${theme.chapter_number}:${range}`;
+      })
+      .join(" · ");
+
+    return (
+      <TouchableOpacity
+        style={[styles.topic, { backgroundColor: colors.card, borderColor: colors.border }]}
+        onPress={() =>
+          navigation.navigate("Topic", {
+            themeIds: item.themes.map((theme) => theme.id).join(","),
+            title: item.name,
+          })
+        }
+      >
+        <Text style={[styles.topicTitle, { color: colors.foreground }]}>{item.name}</Text>
+        <Text style={[styles.count, { color: colors.textSecondary }]}>
+          {passageCount} {passageCount === 1 ? "passage" : "passages"} · {item.verseCount}{" "}
+          {item.verseCount === 1 ? "verse" : "verses"}
+        </Text>
+        <Text style={[styles.sources, { color: colors.textSecondary }]} numberOfLines={2}>
+          {sources}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (isPending) {
+      return <ActivityIndicator color={colors.primary} />;
+    }
+    if (error) {
+      return (
+        <View style={styles.errorWrap}>
+          <Text style={[styles.muted, { color: colors.textSecondary }]}>
+            {getQuranErrorMessage(toQuranQueryError(error))}
+          </Text>
+          <Pressable
+            onPress={() => refetch()}
+            style={[styles.retryButton, { backgroundColor: colors.primary }]}
+          >
+            <Text style={[styles.retryText, { color: colors.primaryForeground }]}>
+              Try again
+            </Text>
+          </Pressable>
+        </View>
+      );
+    }
+    return (
+      <Text style={[styles.muted, { color: colors.textSecondary }]}>
+        {hasCategory ? "No themes in this category yet." : "No topics available."}
+      </Text>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { borderColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()} hitSlop={8}>
+          <Ionicons name="chevron-back" size={22} color={colors.foreground} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.foreground }]} numberOfLines={1}>
+          {title}
+        </Text>
+      </View>
+
+      {hasCategory ? (
+        <FlatList
+          data={error ? [] : topics}
+          keyExtractor={(item) => item.name}
+          renderItem={renderTopic}
+          ListEmptyComponent={renderEmpty}
+          contentContainerStyle={styles.list}
+        />
+      ) : (
+        <FlatList
+          data={error ? [] : (categoriesResult.data ?? [])}
+          keyExtractor={(item) => String(item.id)}
+          renderItem={renderCategory}
+          ListEmptyComponent={renderEmpty}
+          contentContainerStyle={styles.list}
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  title: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: "700",
+  },
+  list: {
+    padding: 16,
+    gap: 10,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+  },
+  iconWrap: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  topic: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+  },
+  topicTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  count: {
+    fontSize: 12,
+  },
+  sources: {
+    fontSize: 12,
+    lineHeight: 17,
+  },
+  muted: {
+    fontSize: 14,
+    textAlign: "center",
+  },
+  errorWrap: {
+    alignItems: "center",
+  },
+  retryButton: {
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 999,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
+
+export default TopicsScreen;
@@ -0,0 +1,173 @@
+import type { executeRemoteQuranQuery as ExecuteRemoteQuranQuery } from "../quranApi";
+
+jest.mock("../quranDatabase", () => ({ queryLocalStore: jest.fn() }));
+
+const fetchMock = jest.fn();
+
+let executeRemoteQuranQuery: typeof ExecuteRemoteQuranQuery;
+
+const reply = (status: number, body: unknown) =>
+  Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(body),
+  });
+
+const ok = (data: unknown[]) => reply(200, { success: true, data, count: data.length });
+
+// Reject like fetch does once the request is aborted
+const hangUntilAborted = (_url: string, init: { signal: AbortSignal }) =>
+  new Promise((_resolve, reject) => {
+    init.signal.addEventListener("abort", () => reject(new Error("Aborted")));
+  });
+
+beforeAll(() => {
+  process.env.EXPO_PUBLIC_QURAN_API_BASE_URL = "https://quran.test";
+  global.fetch = fetchMock;
+  jest.isolateModules(() => {
+    ({ executeRemoteQuranQuery } = require("../quranApi"));
+  });
+});
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  fetchMock.mockReset();
+  // No jitter: retries wait exactly 500ms, then 1000ms
+  jest.spyOn(Math, "random").mockReturnValue(1);
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe("executeRemoteQuranQuery", () => {
+  it("returns the rows the API sends back", async () => {
+    fetchMock.mockReturnValueOnce(ok([{ id: 1 }]));
+
+    await expect(executeRemoteQuranQuery("SELECT * FROM Chapters")).resolves.toEqual({
+      success: true,
+      data: [{ id: 1 }],
+      count: 1,
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://quran.test/api/quran/query",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ sql: "SELECT * FROM Chapters", params: [] }),
+      })
+    );
+  });
+
+  it("fails a rejected query as a validation error without retrying", async () => {
+    fetchMock.mockReturnValueOnce(reply(400, { success: false, message: "no such table: Foo" }));
+
+    const result = await executeRemoteQuranQuery("SELECT * FROM Foo");
+
+    expect(result).toMatchObject({
+      success: false,
+      error: "no such table: Foo",
+      errorKind: "validation",
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries server errors with exponential backoff", async () => {
+    fetchMock
+      .mockReturnValueOnce(reply(503, { success: false }))
+      .mockReturnValueOnce(reply(500, { success: false, message: "busy" }))
+      .mockReturnValueOnce(ok([]));
+
+    const pending = executeRemoteQuranQuery("SELECT * FROM Chapters");
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(499);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(999);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    await expect(pending).resolves.toEqual({ success: true, data: [], count: 0 });
+  });
+
+  it("gives up on network errors after the last attempt", async () => {
+    fetchMock.mockRejectedValue(new TypeError("Network request failed"));
+
+    const pending = executeRemoteQuranQuery("SELECT * FROM Chapters");
+    await jest.advanceTimersByTimeAsync(1500);
+
+    await expect(pending).resolves.toMatchObject({
+      success: false,
+      error: "Network request failed",
+      errorKind: "network",
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("classifies an unparseable response as a server error", async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: () => Promise.reject(new SyntaxError("Unexpected token <")),
+    });
+
+    const pending = executeRemoteQuranQuery("SELECT * FROM Chapters");
+    await jest.advanceTimersByTimeAsync(1500);
+
+    await expect(pending).resolves.toMatchObject({ success: false, errorKind: "server" });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not resend statements other than reads", async () => {
+    fetchMock.mockRejectedValue(new TypeError("Network request failed"));
+
+    const result = await executeRemoteQuranQuery("DELETE FROM Chapters");
+
+    expect(result.errorKind).toBe("network");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("times out a request the server never answers", async () => {
+    fetchMock.mockImplementationOnce(hangUntilAborted).mockReturnValueOnce(ok([]));
+
+    const pending = executeRemoteQuranQuery("SELECT * FROM Chapters", [], { timeoutMs: 100 });
+    await jest.advanceTimersByTimeAsync(100);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(500);
+
+    await expect(pending).resolves.toEqual({ success: true, data: [], count: 0 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports a timeout once every attempt has timed out", async () => {
+    fetchMock.mockImplementation(hangUntilAborted);
+
+    const pending = executeRemoteQuranQuery("SELECT * FROM Chapters", [], { timeoutMs: 100 });
+    await jest.advanceTimersByTimeAsync(1800);
+
+    await expect(pending).resolves.toMatchObject({
+      success: false,
+      error: "Request timed out after 100ms",
+      errorKind: "timeout",
+    });
+  });
+
+  it("stops when the caller aborts, including between retries", async () => {
+    fetchMock.mockRejectedValue(new TypeError("Network request failed"));
+    const controller = new AbortController();
+
+    const pending = executeRemoteQuranQuery("SELECT * FROM Chapters", [], {
+      signal: controller.signal,
+    });
+    await jest.advanceTimersByTimeAsync(100);
+    controller.abort();
+
+    await expect(pending).resolves.toMatchObject({ success: false, errorKind: "cancelled" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,136 @@
+import type { Database, SqlValue } from "sql.js";
+// The asm.js build: the WebAssembly one cannot allocate its memory under jest
+import initSqlJs from "sql.js/dist/sql-asm.js";
+import { applyLocalChanges, getLocalContentVersion } from "../quranDatabase";
+import { LOCAL_TABLE_NAMES } from "../quranSchema";
+import {
+  CONTENT_VERSION_KEY,
+  LOCAL_SCHEMA_VERSION,
+  META_TABLE,
+  SCHEMA_VERSION_KEY,
+  createTableSql,
+} from "../quranStoreFormat";
+
+// The installed copy, held in sql.js in place of the native SQLite module
+let mockDatabase: Database;
+
+jest.mock("expo-sqlite", () => {
+  const select = (sql: string, params: SqlValue[] = []) => {
+    const statement = mockDatabase.prepare(sql);
+    statement.bind(params);
+    const rows: Record<string, SqlValue>[] = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    statement.free();
+    return rows;
+  };
+
+  const connection = {
+    getFirstAsync: async (sql: string, params?: SqlValue[]) => select(sql, params)[0] ?? null,
+    getAllAsync: async (sql: string, params?: SqlValue[]) => select(sql, params),
+    runAsync: async (sql: string, params: SqlValue[] = []) => {
+      mockDatabase.run(sql, params);
+    },
+    withTransactionAsync: async (task: () => Promise<void>) => {
+      mockDatabase.run("BEGIN");
+      try {
+        await task();
+        mockDatabase.run("COMMIT");
+      } catch (error) {
+        mockDatabase.run("ROLLBACK");
+        throw error;
+      }
+    },
+    closeAsync: async () => {},
+  };
+
+  return {
+    importDatabaseFromAssetAsync: async () => {},
+    openDatabaseAsync: async () => connection,
+  };
+});
+
+jest.mock("../../../assets/quran.db", () => 1, { virtual: true });
+
+const verse = (verseKey: string) =>
+  mockDatabase.exec(
+    "SELECT text_english, text_spanish FROM Verses WHERE verse_key = ?",
+    [verseKey]
+  )[0]?.values[0];
+
+beforeEach(async () => {
+  const SQL = await initSqlJs();
+  mockDatabase = new SQL.Database();
+  mockDatabase.run(`CREATE TABLE ${META_TABLE} (key TEXT PRIMARY KEY, value TEXT)`);
+  for (const table of LOCAL_TABLE_NAMES) {
+    mockDatabase.exec(createTableSql(table));
+  }
+  mockDatabase.run(`INSERT INTO ${META_TABLE} (key, value) VALUES (?, ?), (?, ?)`, [
+    SCHEMA_VERSION_KEY,
+    String(LOCAL_SCHEMA_VERSION),
+    CONTENT_VERSION_KEY,
+    "1",
+  ]);
+  mockDatabase.run(
+    `INSERT INTO Verses (verse_key, chapter_number, verse_number, text_english, text_spanish)
+     VALUES ('1:1', 1, 1, 'In the Name of Allah', 'En el Nombre de Allah')`
+  );
+});
+
+describe("applyLocalChanges", () => {
+  it("updates only the columns a partial row carries", async () => {
+    await applyLocalChanges(
+      [
+        {
+          table: "Verses",
+          operation: "upsert",
+          key: { verse_key: "1:1" },
+          row: { text_english: "In the Name of God" },
+        },
+      ],
+      2
+    );
+
+    expect(verse("1:1")).toEqual(["In the Name of God", "En el Nombre de Allah"]);
+    expect(await getLocalContentVersion()).toBe(2);
+  });
+
+  it("inserts new rows and deletes removed ones", async () => {
+    await applyLocalChanges(
+      [
+        {
+          table: "Verses",
+          operation: "upsert",
+          key: { verse_key: "1:2" },
+          row: { chapter_number: 1, verse_number: 2, text_english: "All praise" },
+        },
+        { table: "Verses", operation: "delete", key: { verse_key: "1:1" }, row: null },
+      ],
+      2
+    );
+
+    expect(verse("1:2")).toEqual(["All praise", null]);
+    expect(verse("1:1")).toBeUndefined();
+  });
+
+  it("rolls the whole batch back when a change fails", async () => {
+    await expect(
+      applyLocalChanges(
+        [
+          {
+            table: "Verses",
+            operation: "upsert",
+            key: { verse_key: "1:1" },
+            row: { text_english: "In the Name of God" },
+          },
+          { table: "Verses", operation: "upsert", key: {}, row: { text_english: "No key" } },
+        ],
+        2
+      )
+    ).rejects.toThrow("Missing verse_key");
+
+    expect(verse("1:1")).toEqual(["In the Name of Allah", "En el Nombre de Allah"]);
+    expect(await getLocalContentVersion()).toBe(1);
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  JUZ_COUNT,
+  RUB_COUNT,
+  getHizbOfRub,
+  getJuzNumber,
+  getJuzOfRub,
+  getJuzStart,
+  getRubQuarter,
+  isJuzStart,
+  isSurahWithinJuz,
+} from "../quranDivisions";
+
+describe("juz boundaries", () => {
+  it("knows where each juz starts", () => {
+    expect(getJuzStart(1)).toEqual({ surahNumber: 1, verseNumber: 1 });
+    expect(getJuzStart(30)).toEqual({ surahNumber: 78, verseNumber: 1 });
+    expect(getJuzStart(0)).toBeNull();
+    expect(getJuzStart(JUZ_COUNT + 1)).toBeNull();
+  });
+
+  it("finds the juz a verse is in", () => {
+    expect(getJuzNumber(1, 7)).toBe(1);
+    expect(getJuzNumber(2, 141)).toBe(1);
+    expect(getJuzNumber(2, 142)).toBe(2);
+    expect(getJuzNumber(18, 74)).toBe(15);
+    expect(getJuzNumber(18, 75)).toBe(16);
+    expect(getJuzNumber(114, 6)).toBe(30);
+  });
+
+  it("recognises the first verse of a juz", () => {
+    expect(isJuzStart(2, 253)).toBe(true);
+    expect(isJuzStart(2, 254)).toBe(false);
+  });
+
+  it("tells whether a whole surah lies inside a juz", () => {
+    expect(isSurahWithinJuz(1, 1)).toBe(true);
+    // Al-Baqarah spans juz 1 to 3
+    expect(isSurahWithinJuz(2, 1)).toBe(false);
+    // Al-Kahf starts in juz 15 and ends in juz 16
+    expect(isSurahWithinJuz(18, 15)).toBe(false);
+    expect(isSurahWithinJuz(114, 30)).toBe(true);
+  });
+});
+
+describe("hizb and rub'", () => {
+  it("maps a rub' to its juz and hizb", () => {
+    expect(getJuzOfRub(1)).toBe(1);
+    expect(getJuzOfRub(8)).toBe(1);
+    expect(getJuzOfRub(9)).toBe(2);
+    expect(getJuzOfRub(RUB_COUNT)).toBe(JUZ_COUNT);
+    expect(getHizbOfRub(4)).toBe(1);
+    expect(getHizbOfRub(5)).toBe(2);
+  });
+
+  it("numbers the quarters of a hizb from 0", () => {
+    expect([1, 2, 3, 4, 5].map(getRubQuarter)).toEqual([0, 1, 2, 3, 0]);
+  });
+});
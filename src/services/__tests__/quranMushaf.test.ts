@@ -0,0 +1,98 @@
+import { ApiVerse, ApiVerseWord } from "../quranApi";
+import { MushafPage, buildMushafPage, getMushafFontSize } from "../quranMushaf";
+
+const verse = (verseKey: string, text: string, bismillah = true): ApiVerse =>
+  ({
+    verse_key: verseKey,
+    text_uthmani: text,
+    name_arabic: `Surah ${verseKey.split(":")[0]}`,
+    bismillah_prefix: bismillah,
+  }) as ApiVerse;
+
+const word = (verseKey: string, position: number, lineNumber: number): ApiVerseWord =>
+  ({
+    verse_key: verseKey,
+    position,
+    line_number: lineNumber,
+    text_uthmani: `${verseKey}/${position}`,
+  }) as ApiVerseWord;
+
+describe("buildMushafPage", () => {
+  it("puts a header and bismillah before a surah that starts on the page", () => {
+    const page = buildMushafPage(
+      2,
+      [verse("2:1", "a b")],
+      [word("2:1", 1, 3), word("2:1", 2, 3)]
+    );
+    expect(page.lines.map((line) => line.type)).toEqual([
+      "surahHeader",
+      "bismillah",
+      "text",
+    ]);
+    expect(page.lines[0]).toMatchObject({ surahNumber: 2, nameArabic: "Surah 2" });
+  });
+
+  it("leaves out the bismillah for surahs without one", () => {
+    const page = buildMushafPage(187, [verse("9:1", "a", false)], [word("9:1", 1, 2)]);
+    expect(page.lines.map((line) => line.type)).toEqual(["surahHeader", "text"]);
+  });
+
+  it("groups words by mushaf line", () => {
+    const page = buildMushafPage(
+      3,
+      [verse("2:6", "a b c")],
+      [word("2:6", 1, 1), word("2:6", 2, 1), word("2:6", 3, 2)]
+    );
+    const lines = page.lines.filter((line) => line.type === "text");
+    expect(lines.map((line) => line.words.map((w) => w.position))).toEqual([[1, 2], [3]]);
+  });
+
+  it("marks verse ends, allowing for verses that cross the page edge", () => {
+    const page = buildMushafPage(
+      3,
+      // 2:7 starts here and runs onto the next page
+      [verse("2:7", "a b c d")],
+      // 2:6 started on the previous page and ends here
+      [word("2:6", 4, 1), word("2:6", 5, 1), word("2:7", 1, 1), word("2:7", 2, 2)]
+    );
+    const words = page.lines.flatMap((line) => (line.type === "text" ? line.words : []));
+    expect(words.map((w) => w.isVerseEnd)).toEqual([false, true, false, false]);
+    expect(page.surahNumbers).toEqual([2]);
+  });
+});
+
+describe("getMushafFontSize", () => {
+  const textPage = (...lines: string[][]): MushafPage => ({
+    pageNumber: 1,
+    surahNumbers: [1],
+    lines: lines.map((words, index) => ({
+      type: "text",
+      lineNumber: index + 1,
+      words: words.map((text, position) => ({
+        verseKey: "1:1",
+        surahNumber: 1,
+        verseNumber: 1,
+        position: position + 1,
+        text,
+        isVerseEnd: false,
+      })),
+    })),
+  });
+
+  it("sizes the page from its widest line", () => {
+    // 10 letters and 2 gaps: 4.6 ems
+    const page = textPage(["ab"], ["abcde", "fghij"]);
+    expect(getMushafFontSize(page, 92, 40)).toBe(20);
+  });
+
+  it("ignores diacritics when measuring", () => {
+    const bare = textPage(["كتب"]);
+    const vowelled = textPage(["كَتَبَ"]);
+    expect(getMushafFontSize(vowelled, 100, 200)).toBe(getMushafFontSize(bare, 100, 200));
+  });
+
+  it("never exceeds the reader's font size", () => {
+    expect(getMushafFontSize(textPage(["a"]), 1000, 28)).toBe(28);
+    expect(getMushafFontSize(textPage(), 100, 28)).toBe(28);
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  formatQueueItem,
+  getCurrentQueueItem,
+  getJuzQueue,
+  getNextQueueStep,
+  getSurahRunQueue,
+} from "../quranPlaybackQueue";
+
+describe("getNextQueueStep", () => {
+  const queue = { items: [{ surahId: 18 }, { surahId: 36 }], index: 0 };
+
+  it("moves on to the next queued item", () => {
+    expect(getNextQueueStep(queue, 18, false)).toEqual({ ...queue, index: 1 });
+  });
+
+  it("stops at the end of the queue unless playback is continuous", () => {
+    const last = { ...queue, index: 1 };
+    expect(getNextQueueStep(last, 36, false)).toBeNull();
+    expect(getNextQueueStep(last, 36, true)).toEqual({
+      items: [...queue.items, { surahId: 37 }],
+      index: 2,
+    });
+  });
+
+  it("carries a queue-less surah on into the next one", () => {
+    expect(getNextQueueStep(null, 1, true)).toEqual({ items: [{ surahId: 2 }], index: 0 });
+    expect(getNextQueueStep(null, 1, false)).toBeNull();
+    expect(getNextQueueStep(null, null, true)).toBeNull();
+  });
+
+  it("stops after the last surah", () => {
+    expect(getNextQueueStep(null, 114, true)).toBeNull();
+  });
+});
+
+describe("getCurrentQueueItem", () => {
+  it("returns the item playing, if any", () => {
+    expect(getCurrentQueueItem({ items: [{ surahId: 2 }], index: 0 })).toEqual({ surahId: 2 });
+    expect(getCurrentQueueItem({ items: [], index: 0 })).toBeNull();
+    expect(getCurrentQueueItem(null)).toBeNull();
+  });
+});
+
+describe("presets", () => {
+  it("runs through surahs inclusively", () => {
+    expect(getSurahRunQueue(112).map((item) => item.surahId)).toEqual([112, 113, 114]);
+    expect(getSurahRunQueue(1, 2)).toEqual([{ surahId: 1 }, { surahId: 2 }]);
+  });
+
+  it("cuts a juz at its boundaries", () => {
+    expect(getJuzQueue(2)).toEqual([{ surahId: 2, startVerse: 142, endVerse: 252 }]);
+    // Juz 14 runs from 15:1 to the end of surah 16
+    expect(getJuzQueue(14)).toEqual([{ surahId: 15 }, { surahId: 16 }]);
+    expect(getJuzQueue(30)[0]).toEqual({ surahId: 78 });
+    expect(getJuzQueue(30)).toHaveLength(37);
+    expect(getJuzQueue(31)).toEqual([]);
+  });
+});
+
+describe("formatQueueItem", () => {
+  it("shows the range for part of a surah", () => {
+    expect(formatQueueItem({ surahId: 2 }, "Al-Baqarah")).toBe("Al-Baqarah");
+    expect(formatQueueItem({ surahId: 2, startVerse: 142, endVerse: 252 }, "Al-Baqarah")).toBe(
+      "Al-Baqarah 2:142–252"
+    );
+    expect(formatQueueItem({ surahId: 2, startVerse: 253 }, "Al-Baqarah")).toBe(
+      "Al-Baqarah 2:253–end"
+    );
+    expect(formatQueueItem({ surahId: 3, endVerse: 92 }, "Al-Imran")).toBe("Al-Imran 3:1–92");
+  });
+});
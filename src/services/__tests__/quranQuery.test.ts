@@ -0,0 +1,88 @@
+import { from } from "../quranQuery";
+
+jest.mock("../quranApi", () => ({ executeQuranQuery: jest.fn() }));
+
+describe("compile", () => {
+  it("qualifies columns and binds every value as a parameter", () => {
+    const { sql, params, remoteOnly } = from("Verses")
+      .join("Chapters", ["Verses.chapter_number", "id"])
+      .select("Verses", ["verse_key", "text_english"])
+      .select("Chapters", ["name_english"])
+      .where("Verses.chapter_number", "=", 2)
+      .whereIn("Verses.verse_number", [1, 2, 3])
+      .orderBy("Verses.verse_number", "desc")
+      .compile();
+
+    expect(sql).toBe(
+      [
+        "SELECT Verses.verse_key AS verse_key, Verses.text_english AS text_english, Chapters.name_english AS name_english",
+        "FROM Verses",
+        "INNER JOIN Chapters ON Verses.chapter_number = Chapters.id",
+        "WHERE Verses.chapter_number = ? AND Verses.verse_number IN (?, ?, ?)",
+        "ORDER BY Verses.verse_number DESC",
+      ].join("\n")
+    );
+    expect(params).toEqual([2, 1, 2, 3]);
+    expect(remoteOnly).toBe(false);
+  });
+
+  it("matches nothing for an empty IN list", () => {
+    const { sql, params } = from("Footnotes")
+      .selectAll("Footnotes")
+      .whereIn("Footnotes.id", [])
+      .compile();
+
+    expect(sql).toContain("WHERE 1 = 0");
+    expect(params).toEqual([]);
+  });
+
+  it("counts grouped rows through a left join", () => {
+    const { sql } = from("ThemeCategories")
+      .join("ThemeCategoryMap", ["ThemeCategories.id", "category_id"], "left")
+      .select("ThemeCategories", ["id"])
+      .count("theme_count", "ThemeCategoryMap.theme_id")
+      .groupBy("ThemeCategories.id")
+      .compile();
+
+    expect(sql).toBe(
+      [
+        "SELECT ThemeCategories.id AS id, COUNT(ThemeCategoryMap.theme_id) AS theme_count",
+        "FROM ThemeCategories",
+        "LEFT JOIN ThemeCategoryMap ON ThemeCategories.id = ThemeCategoryMap.category_id",
+        "GROUP BY ThemeCategories.id",
+      ].join("\n")
+    );
+  });
+
+  it("binds the limit and offset after the conditions", () => {
+    const { sql, params } = from("Chapters")
+      .selectAll("Chapters")
+      .where("Chapters.revelation_type", "=", "Meccan")
+      .limit(10)
+      .offset(20)
+      .compile();
+
+    expect(sql).toMatch(/\nLIMIT \?\nOFFSET \?$/);
+    expect(params).toEqual(["Meccan", 10, 20]);
+  });
+
+  it("emits an unbounded LIMIT for an offset on its own", () => {
+    const { sql, params } = from("Chapters").selectAll("Chapters").offset(5).compile();
+
+    expect(sql).toMatch(/\nLIMIT -1\nOFFSET \?$/);
+    expect(params).toEqual([5]);
+  });
+
+  it("rejects a column name selected from two tables", () => {
+    const query = from("Verses")
+      .join("Footnotes", ["Verses.verse_key", "verse_key"])
+      .select("Verses", ["verse_key", "text_english"])
+      .select("Footnotes", ["text_english"]);
+
+    expect(() => query.compile()).toThrow('Column "text_english" is selected more than once');
+  });
+
+  it("marks queries on server-only tables as remote", () => {
+    expect(from("ContentVersions").selectAll("ContentVersions").compile().remoteOnly).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  MAX_GAP_SECONDS,
+  MAX_REPEATS,
+  RepeatPlan,
+  RepeatPosition,
+  getFirstRepeatPosition,
+  getNextRepeatPosition,
+  getNextVersePosition,
+  getPreviousVersePosition,
+  getRepeatPassCount,
+  isRepeatRestart,
+  normalizeRepeatSettings,
+} from "../quranRepeatPlan";
+
+const plan = (overrides: Partial<RepeatPlan> = {}): RepeatPlan => ({
+  surahId: 1,
+  startVerse: 1,
+  endVerse: 3,
+  verseRepeats: 1,
+  rangeRepeats: 1,
+  gapSeconds: 0,
+  buildUp: false,
+  ...overrides,
+});
+
+// Every verse the plan plays, in order
+const walk = (repeatPlan: RepeatPlan): number[] => {
+  const verses: number[] = [];
+  let position: RepeatPosition | null = getFirstRepeatPosition(repeatPlan);
+  while (position) {
+    verses.push(position.verseNumber);
+    position = getNextRepeatPosition(repeatPlan, position);
+  }
+  return verses;
+};
+
+describe("stepping through a plan", () => {
+  it("repeats each verse before moving on", () => {
+    expect(walk(plan({ verseRepeats: 2 }))).toEqual([1, 1, 2, 2, 3, 3]);
+  });
+
+  it("repeats the whole range", () => {
+    expect(walk(plan({ endVerse: 2, rangeRepeats: 2 }))).toEqual([1, 2, 1, 2]);
+  });
+
+  it("builds the range up one verse at a time", () => {
+    const repeatPlan = plan({ buildUp: true });
+    expect(walk(repeatPlan)).toEqual([1, 1, 2, 1, 2, 3]);
+    expect(getRepeatPassCount(repeatPlan)).toBe(3);
+    expect(getRepeatPassCount(plan())).toBe(1);
+  });
+
+  it("puts the gap only where the recitation goes back", () => {
+    const first = { verseNumber: 1, verseRepetition: 1, rangeRepetition: 1, passEnd: 3 };
+    expect(isRepeatRestart(first, { ...first, verseNumber: 2 })).toBe(false);
+    expect(isRepeatRestart(first, { ...first, verseRepetition: 2 })).toBe(true);
+    expect(isRepeatRestart({ ...first, verseNumber: 3 }, first)).toBe(true);
+  });
+});
+
+describe("skipping within a plan", () => {
+  it("moves to the next verse past the remaining repetitions", () => {
+    const repeatPlan = plan({ verseRepeats: 3 });
+    const position = { verseNumber: 1, verseRepetition: 2, rangeRepetition: 1, passEnd: 3 };
+    expect(getNextVersePosition(repeatPlan, position)).toEqual({
+      ...position,
+      verseNumber: 2,
+      verseRepetition: 1,
+    });
+  });
+
+  it("starts the next pass after the last verse of a pass", () => {
+    const repeatPlan = plan({ verseRepeats: 2, rangeRepeats: 2 });
+    const position = { verseNumber: 3, verseRepetition: 1, rangeRepetition: 1, passEnd: 3 };
+    expect(getNextVersePosition(repeatPlan, position)).toEqual({
+      verseNumber: 1,
+      verseRepetition: 1,
+      rangeRepetition: 2,
+      passEnd: 3,
+    });
+  });
+
+  it("ends after the last verse of the plan", () => {
+    const position = { verseNumber: 3, verseRepetition: 1, rangeRepetition: 1, passEnd: 3 };
+    expect(getNextVersePosition(plan({ verseRepeats: 2 }), position)).toBeNull();
+  });
+
+  it("goes back a verse, but not before the start of the range", () => {
+    const repeatPlan = plan({ startVerse: 2, endVerse: 4, verseRepeats: 3 });
+    const position = { verseNumber: 3, verseRepetition: 2, rangeRepetition: 1, passEnd: 4 };
+    expect(getPreviousVersePosition(repeatPlan, position)).toEqual({
+      ...position,
+      verseNumber: 2,
+      verseRepetition: 1,
+    });
+    const atStart = { ...position, verseNumber: 2 };
+    expect(getPreviousVersePosition(repeatPlan, atStart)).toMatchObject({
+      verseNumber: 2,
+      verseRepetition: 1,
+    });
+  });
+});
+
+describe("normalizeRepeatSettings", () => {
+  it("clamps and rounds values to what the controls offer", () => {
+    expect(
+      normalizeRepeatSettings({
+        verseRepeats: 0,
+        rangeRepeats: 99,
+        gapSeconds: 2.6,
+        buildUp: true,
+      })
+    ).toEqual({ verseRepeats: 1, rangeRepeats: MAX_REPEATS, gapSeconds: 3, buildUp: true });
+    const settings = { verseRepeats: 2, rangeRepeats: 1, gapSeconds: 60, buildUp: false };
+    expect(normalizeRepeatSettings(settings).gapSeconds).toBe(MAX_GAP_SECONDS);
+  });
+});
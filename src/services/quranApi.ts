@@ -1,340 +1,435 @@
+import { queryLocalStore } from "./quranDatabase";
+import { quranRepository } from "./quranRepository";
+import { QuranRow, isLocalTable } from "./quranSchema";
+import { QuranErrorKind, QuranQueryError, toQuranQueryError } from "./quranErrors";
+
 const API_BASE_URL = process.env.EXPO_PUBLIC_QURAN_API_BASE_URL;
-const QURAN_LANG = process.env.EXPO_PUBLIC_QURAN_LANG || "english";
 
-interface QueryResult<T> {
+// Per-attempt limit for remote queries
+const REQUEST_TIMEOUT_MS = 15000;
+// Attempts for reads that fail with a retryable error
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+// An empty result set is a success with `data: []`; failures carry `errorKind`
+export interface QueryResult<T> {
   success: boolean;
   data: T | null;
   count: number;
   error?: string;
+  errorKind?: QuranErrorKind;
 }
 
-export const executeQuranQuery = async <T = unknown>(
+export interface RequestOptions {
+  // Aborts the request, e.g. when the reader leaves the surah
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface QueryOptions extends RequestOptions {
+  // Skip the local store, e.g. for server-only tables
+  remoteOnly?: boolean;
+}
+
+const failedResult = <T>(error: QuranQueryError): QueryResult<T> => ({
+  success: false,
+  data: null,
+  count: 0,
+  error: error.message,
+  errorKind: error.kind,
+});
+
+// Only reads are safe to send more than once
+const isReadQuery = (sql: string): boolean => /^\s*(SELECT|WITH)\b/i.test(sql);
+
+// Exponential backoff with jitter: ~500ms, ~1s, ~2s...
+const retryDelay = (attempt: number): number =>
+  RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (0.5 + Math.random() / 2);
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new QuranQueryError("cancelled", "Request cancelled"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Send one request, throwing a QuranQueryError on failure
+const sendRemoteQuery = async <T>(
   sql: string,
-  params: unknown[] = []
+  params: unknown[],
+  { signal, timeoutMs = REQUEST_TIMEOUT_MS }: RequestOptions
 ): Promise<QueryResult<T>> => {
-  if (!API_BASE_URL) {
-    return {
-      success: false,
-      error: "Missing EXPO_PUBLIC_QURAN_API_BASE_URL",
-      data: null,
-      count: 0,
-    };
+  if (signal?.aborted) {
+    throw new QuranQueryError("cancelled", "Request cancelled");
   }
 
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
   try {
-    const response = await fetch(`${API_BASE_URL}/api/quran/query`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ sql, params }),
-    });
-
-    const data = await response.json();
-
-    if (data.success) {
-      return { success: true, data: data.data as T, count: data.count };
+    let response: Response;
+    let data: { success?: boolean; data?: unknown; count?: number; message?: string };
+    try {
+      response = await fetch(`${API_BASE_URL}/api/quran/query`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ sql, params }),
+        signal: controller.signal,
+      });
+      data = await response.json();
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new QuranQueryError("cancelled", "Request cancelled");
+      }
+      if (timedOut) {
+        throw new QuranQueryError("timeout", `Request timed out after ${timeoutMs}ms`);
+      }
+      if (error instanceof SyntaxError) {
+        throw new QuranQueryError("server", "Malformed response from Quran API");
+      }
+      throw new QuranQueryError(
+        "network",
+        error instanceof Error ? error.message : "Network error"
+      );
     }
 
-    return {
-      success: false,
-      error: data.message || "Query failed",
-      data: null,
-      count: 0,
-    };
+    if (response.status >= 500) {
+      throw new QuranQueryError(
+        "server",
+        data.message || `Quran API error (${response.status})`,
+        response.status
+      );
+    }
+    if (!response.ok || !data.success) {
+      throw new QuranQueryError(
+        "validation",
+        data.message || "Query failed",
+        response.status
+      );
+    }
+
+    return { success: true, data: data.data as T, count: data.count ?? 0 };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+};
+
+// Run a query against the remote Quran API. Reads that fail with a network,
+// timeout or server error are retried with exponential backoff.
+export const executeRemoteQuranQuery = async <T = unknown>(
+  sql: string,
+  params: unknown[] = [],
+  options: RequestOptions = {}
+): Promise<QueryResult<T>> => {
+  if (!API_BASE_URL) {
+    return failedResult(
+      new QuranQueryError("validation", "Missing EXPO_PUBLIC_QURAN_API_BASE_URL")
+    );
+  }
+
+  const maxAttempts = isReadQuery(sql) ? MAX_ATTEMPTS : 1;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await sendRemoteQuery<T>(sql, params, options);
+    } catch (error) {
+      const queryError = toQuranQueryError(error);
+      if (!queryError.retryable || attempt >= maxAttempts) {
+        return failedResult(queryError);
+      }
+      try {
+        await wait(retryDelay(attempt), options.signal);
+      } catch (cancelled) {
+        return failedResult(toQuranQueryError(cancelled));
+      }
+    }
+  }
+};
+
+// Tables named in the FROM and JOIN clauses of a query
+const readTables = (sql: string): string[] =>
+  Array.from(sql.matchAll(/\b(?:FROM|JOIN)\s+(\w+)/gi), (match) => match[1]);
+
+// Run a query against the on-device copy. Returns null when it reads a table
+// that is not copied (or the query fails locally) so the caller can fall back.
+const executeLocalQuranQuery = async <T>(
+  sql: string,
+  params: unknown[]
+): Promise<QueryResult<T> | null> => {
+  if (!readTables(sql).every(isLocalTable)) {
+    return null;
+  }
+
+  try {
+    const rows = await queryLocalStore(sql, params);
+    return { success: true, data: rows as T, count: rows.length };
   } catch (error) {
-    console.error("Quran API Error:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Network error",
-      data: null,
-      count: 0,
-    };
+    console.warn("Local Quran query failed, falling back to remote:", error);
+    return null;
   }
 };
 
-// ============= Surah/Chapter Types =============
+// Serve queries from the local store when available, otherwise from the API
+// Prefer building queries with quranQuery.ts rather than calling this directly
+export const executeQuranQuery = async <T = unknown>(
+  sql: string,
+  params: unknown[] = [],
+  options: QueryOptions = {}
+): Promise<QueryResult<T>> => {
+  if (options.signal?.aborted) {
+    return failedResult(new QuranQueryError("cancelled", "Request cancelled"));
+  }
+  if (!options.remoteOnly) {
+    const localResult = await executeLocalQuranQuery<T>(sql, params);
+    if (localResult) {
+      return localResult;
+    }
+  }
+  return executeRemoteQuranQuery<T>(sql, params, options);
+};
+
+// ============= Languages =============
 
-export interface ApiSurah {
-  id: number;
-  name_english: string;
-  name_spanish: string;
-  name_arabic: string;
-  name_transliteration: string;
-  number_of_verses: number;
-  revelation_type: string;
-  bismillah_prefix: boolean;
-  introduction_english: string | null;
-  introduction_spanish: string | null;
-  pages: string | null;
+// ISO 639-1 code of the reader's language, matching Translations.language_code
+export type QuranLanguage = string;
+
+export interface QuranLanguageInfo {
+  code: QuranLanguage;
+  name: string;
 }
 
-// Get localized surah name based on QURAN_LANG
-export const getSurahName = (surah: ApiSurah): string => {
-  return QURAN_LANG === "spanish" ? surah.name_spanish : surah.name_english;
+// Languages the content tables have built-in columns for. Others are offered
+// once the registry has a translation in them.
+export const BUILT_IN_LANGUAGES: QuranLanguageInfo[] = [
+  { code: "en", name: "English" },
+  { code: "es", name: "Español" },
+];
+
+// Earlier builds stored the language by name
+const LEGACY_LANGUAGE_CODES: Record<string, QuranLanguage> = {
+  english: "en",
+  spanish: "es",
 };
 
-// Get localized introduction based on QURAN_LANG
-export const getSurahIntroduction = (surah: ApiSurah): string | null => {
-  return QURAN_LANG === "spanish"
-    ? surah.introduction_spanish
-    : surah.introduction_english;
+// Normalize a saved or configured language; null when it is not a language code
+export const toQuranLanguage = (value: unknown): QuranLanguage | null => {
+  if (typeof value !== "string") return null;
+  const code = LEGACY_LANGUAGE_CODES[value] ?? value.trim().toLowerCase();
+  return /^[a-z]{2,3}$/.test(code) ? code : null;
 };
 
-// Fetch all surahs
-export const fetchAllSurahs = async (): Promise<QueryResult<ApiSurah[]>> => {
-  return executeQuranQuery<ApiSurah[]>(
-    "SELECT * FROM Chapters ORDER BY id",
-    []
-  );
+// Language used until the reader picks one; builds may override it
+export const DEFAULT_QURAN_LANGUAGE: QuranLanguage =
+  toQuranLanguage(process.env.EXPO_PUBLIC_QURAN_LANG) ?? "en";
+
+// The built-in English/Spanish columns of a row. Other languages read English,
+// as does Spanish where the Spanish column is empty.
+const fromBuiltInColumns = <T extends string | null>(
+  language: QuranLanguage,
+  english: T,
+  spanish: T
+): T => (language === "es" ? spanish || english : english || spanish);
+
+const findLocalization = <L extends { language_code: string }>(
+  localizations: L[] | undefined,
+  language: QuranLanguage
+): L | undefined => localizations?.find((l) => l.language_code === language);
+
+// ============= Surah/Chapter Types =============
+
+export type ApiChapterLocalization = QuranRow<"ChapterLocalizations">;
+
+// Localizations are attached by the chapter queries
+export type ApiSurah = QuranRow<"Chapters"> & {
+  localizations?: ApiChapterLocalization[];
 };
 
+// Get localized surah name
+export const getSurahName = (surah: ApiSurah, language: QuranLanguage): string =>
+  findLocalization(surah.localizations, language)?.name ||
+  fromBuiltInColumns(language, surah.name_english, surah.name_spanish);
+
+// Get localized introduction
+export const getSurahIntroduction = (
+  surah: ApiSurah,
+  language: QuranLanguage
+): string | null =>
+  findLocalization(surah.localizations, language)?.introduction ||
+  fromBuiltInColumns(language, surah.introduction_english, surah.introduction_spanish);
+
+// Fetch all surahs
+export const fetchAllSurahs = (): Promise<QueryResult<ApiSurah[]>> =>
+  quranRepository.chapters.all();
+
 // ============= Verse Types =============
 
-export interface ApiVerse {
-  verse_key: string;
-  chapter_number: number;
-  verse_number: number;
-  page_number: number;
-  text_english: string;
-  text_spanish: string;
-  text_uthmani: string;
-  text_indopak: string;
-  text_uthmani_tajweed?: string;
-  // Joined chapter fields (when using getSurah query)
-  name_english?: string;
-  name_spanish?: string;
-  name_transliteration?: string;
-  name_arabic?: string;
-  number_of_verses?: number;
-  revelation_type?: string;
-  bismillah_prefix?: boolean;
-  introduction_english?: string | null;
-  introduction_spanish?: string | null;
-  pages?: string | null;
-}
+// Chapter fields joined onto verses by the surah and page queries
+export type ApiVerseChapterFields = Pick<
+  QuranRow<"Chapters">,
+  | "name_english"
+  | "name_spanish"
+  | "name_transliteration"
+  | "name_arabic"
+  | "number_of_verses"
+  | "revelation_type"
+  | "bismillah_prefix"
+  | "introduction_english"
+  | "introduction_spanish"
+  | "pages"
+>;
 
-// Get localized verse text
-export const getVerseText = (verse: ApiVerse): string => {
-  return QURAN_LANG === "spanish" ? verse.text_spanish : verse.text_english;
-};
+export type ApiVerse = QuranRow<"Verses"> & Partial<ApiVerseChapterFields>;
+
+// Get the verse text of the built-in translation for a language
+export const getVerseText = (
+  verse: Pick<ApiVerse, "text_english" | "text_spanish">,
+  language: QuranLanguage
+): string => fromBuiltInColumns(language, verse.text_english, verse.text_spanish);
+
+// ============= Translation Types =============
+
+export type ApiTranslation = QuranRow<"Translations">;
+
+export type ApiVerseTranslation = QuranRow<"VerseTranslations">;
 
 // Fetch a single surah with all its verses (and chapter metadata joined)
-export const getSurah = async (
-  surahId: number
-): Promise<QueryResult<ApiVerse[]>> => {
-  return executeQuranQuery<ApiVerse[]>(
-    `SELECT v.*, 
-            c.name_english, c.name_spanish, c.name_transliteration, c.name_arabic,
-            c.number_of_verses, c.revelation_type, c.bismillah_prefix,
-            c.introduction_english, c.introduction_spanish, c.pages
-     FROM Verses v
-     JOIN Chapters c ON v.chapter_number = c.id
-     WHERE v.chapter_number = ?
-     ORDER BY v.page_number, v.verse_number`,
-    [surahId]
-  );
-};
+export const getSurah = (surahId: number): Promise<QueryResult<ApiVerse[]>> =>
+  quranRepository.verses.byChapter(surahId);
 
 // Fetch verses for a specific page
-export const getVersesByPage = async (
-  pageNumber: number
-): Promise<QueryResult<ApiVerse[]>> => {
-  return executeQuranQuery<ApiVerse[]>(
-    `SELECT v.*, 
-            c.name_english, c.name_spanish, c.name_transliteration, c.name_arabic
-     FROM Verses v
-     JOIN Chapters c ON v.chapter_number = c.id
-     WHERE v.page_number = ?
-     ORDER BY v.chapter_number, v.verse_number`,
-    [pageNumber]
-  );
+export const getVersesByPage = (pageNumber: number): Promise<QueryResult<ApiVerse[]>> =>
+  quranRepository.verses.byPage(pageNumber);
+
+// ============= Morphology Types =============
+
+export type ApiWordGloss = QuranRow<"WordGlosses">;
+
+// Glosses in the reader's language are attached by the word queries
+export type ApiVerseWord = QuranRow<"VerseWords"> & {
+  glosses?: ApiWordGloss[];
 };
 
+// Get localized word gloss
+export const getWordGloss = (word: ApiVerseWord, language: QuranLanguage): string | null =>
+  findLocalization(word.glosses, language)?.gloss ||
+  fromBuiltInColumns(language, word.gloss_english, word.gloss_spanish);
+
 // ============= Theme Types =============
 
-export interface ApiThemeCategory {
-  id: number;
-  name: string;
-  name_spanish: string;
-  icon_name: string;
+export type ApiThemeCategoryLocalization = QuranRow<"ThemeCategoryLocalizations">;
+
+export type ApiThemeCategory = QuranRow<"ThemeCategories"> & {
   theme_count: number;
-}
+  localizations?: ApiThemeCategoryLocalization[];
+};
 
-export interface ApiTheme {
-  id: number;
-  theme_name_english: string;
-  theme_name_spanish: string;
-  chapter_number: number;
-  start_verse: number;
-  end_verse: number;
-}
+export type ApiThemeLocalization = QuranRow<"ThemeLocalizations">;
 
-export interface ApiThemeVerse {
-  verse_key: string;
-  text_english: string;
-  text_spanish: string;
-  text_uthmani: string;
-  text_indopak: string;
-  text_uthmani_tajweed?: string;
-  chapter_number: number;
-  verse_number: number;
-  page_number: number;
-  theme_id: number;
-}
+export type ApiTheme = QuranRow<"Themes"> & {
+  localizations?: ApiThemeLocalization[];
+};
+
+export type ApiThemeVerse = Pick<
+  QuranRow<"Verses">,
+  | "verse_key"
+  | "text_english"
+  | "text_spanish"
+  | "text_uthmani"
+  | "text_indopak"
+  | "chapter_number"
+  | "verse_number"
+  | "page_number"
+> &
+  Pick<QuranRow<"ThemeVerses">, "theme_id">;
 
 // Get localized theme name
-export const getThemeName = (theme: ApiTheme): string => {
-  return QURAN_LANG === "spanish"
-    ? theme.theme_name_spanish
-    : theme.theme_name_english;
-};
+export const getThemeName = (theme: ApiTheme, language: QuranLanguage): string =>
+  findLocalization(theme.localizations, language)?.name ||
+  fromBuiltInColumns(language, theme.theme_name_english, theme.theme_name_spanish);
+
+// Get localized theme category name
+export const getThemeCategoryName = (
+  category: ApiThemeCategory,
+  language: QuranLanguage
+): string =>
+  findLocalization(category.localizations, language)?.name ||
+  fromBuiltInColumns(language, category.name, category.name_spanish);
 
 // Fetch all theme categories with counts
-export const fetchThemeCategories = async (): Promise<
-  QueryResult<ApiThemeCategory[]>
-> => {
-  return executeQuranQuery<ApiThemeCategory[]>(
-    `SELECT c.id, c.name, c.name_spanish, c.icon_name,
-            COUNT(cm.theme_id) AS theme_count
-     FROM ThemeCategories c
-     LEFT JOIN ThemeCategoryMap cm ON c.id = cm.category_id
-     GROUP BY c.id
-     ORDER BY c.id`,
-    []
-  );
-};
+export const fetchThemeCategories = (): Promise<QueryResult<ApiThemeCategory[]>> =>
+  quranRepository.themeCategories.all();
 
 // Fetch themes in a specific category
-export const fetchThemesByCategory = async (
-  categoryId: number
-): Promise<QueryResult<ApiTheme[]>> => {
-  return executeQuranQuery<ApiTheme[]>(
-    `SELECT t.id, t.theme_name_english, t.theme_name_spanish,
-            t.chapter_number, t.start_verse, t.end_verse
-     FROM Themes t
-     JOIN ThemeCategoryMap tcm ON t.id = tcm.theme_id
-     WHERE tcm.category_id = ?
-     ORDER BY t.chapter_number, t.start_verse`,
-    [categoryId]
-  );
-};
+export const fetchThemesByCategory = (categoryId: number): Promise<QueryResult<ApiTheme[]>> =>
+  quranRepository.themes.byCategory(categoryId);
 
 // Fetch themes for a specific surah
-export const fetchThemesBySurah = async (
-  surahNumber: number
-): Promise<QueryResult<ApiTheme[]>> => {
-  return executeQuranQuery<ApiTheme[]>(
-    `SELECT id, theme_name_english, theme_name_spanish,
-            chapter_number, start_verse, end_verse
-     FROM Themes
-     WHERE chapter_number = ?
-     ORDER BY start_verse`,
-    [surahNumber]
-  );
-};
+export const fetchThemesBySurah = (surahNumber: number): Promise<QueryResult<ApiTheme[]>> =>
+  quranRepository.themes.byChapter(surahNumber);
 
 // Fetch verses for multiple themes
-export const fetchVersesForThemes = async (
+export const fetchVersesForThemes = (
   themeIds: number[]
-): Promise<QueryResult<ApiThemeVerse[]>> => {
-  if (themeIds.length === 0) {
-    return { success: true, data: [], count: 0 };
-  }
-
-  const placeholders = themeIds.map(() => "?").join(", ");
-
-  return executeQuranQuery<ApiThemeVerse[]>(
-    `SELECT v.verse_key, v.text_english, v.text_spanish, v.text_uthmani, v.text_indopak,
-            v.chapter_number, v.verse_number, v.page_number, tv.theme_id
-     FROM Verses v
-     JOIN ThemeVerses tv ON v.verse_key = tv.verse_key
-     WHERE tv.theme_id IN (${placeholders})
-     ORDER BY tv.theme_id, v.chapter_number, v.verse_number`,
-    themeIds
-  );
-};
+): Promise<QueryResult<ApiThemeVerse[]>> => quranRepository.verses.byThemes(themeIds);
 
 // Count verses per theme
-export const countVersesInTheme = async (
+export const countVersesInTheme = (
   themeId: number
-): Promise<QueryResult<{ count: number }[]>> => {
-  return executeQuranQuery<{ count: number }[]>(
-    "SELECT COUNT(*) AS count FROM ThemeVerses WHERE theme_id = ?",
-    [themeId]
-  );
-};
+): Promise<QueryResult<{ count: number }[]>> => quranRepository.themes.countVerses(themeId);
 
 // ============= Footnote Types =============
 
-export interface ApiFootnote {
-  id: number;
-  text_english: string;
-  text_spanish: string;
-  verse_key: string;
-}
+export type ApiFootnoteTranslation = QuranRow<"FootnoteTranslations">;
 
-// Fetch a single footnote by ID
-export const fetchFootnote = async (
-  footnoteId: number
-): Promise<QueryResult<ApiFootnote[]>> => {
-  return executeQuranQuery<ApiFootnote[]>(
-    "SELECT * FROM Footnotes WHERE id = ?",
-    [footnoteId]
-  );
+// Each translation's wording is attached by the footnote queries
+export type ApiFootnote = QuranRow<"Footnotes"> & {
+  translations?: ApiFootnoteTranslation[];
 };
 
+// Fetch a single footnote by ID
+export const fetchFootnote = (footnoteId: number): Promise<QueryResult<ApiFootnote[]>> =>
+  quranRepository.footnotes.byId(footnoteId);
+
 // Fetch multiple footnotes by IDs
-export const fetchFootnotesByIds = async (
+export const fetchFootnotesByIds = (
   footnoteIds: number[]
-): Promise<QueryResult<ApiFootnote[]>> => {
-  if (footnoteIds.length === 0) {
-    return { success: true, data: [], count: 0 };
-  }
-
-  const placeholders = footnoteIds.map(() => "?").join(", ");
-
-  return executeQuranQuery<ApiFootnote[]>(
-    `SELECT * FROM Footnotes WHERE id IN (${placeholders})`,
-    footnoteIds
-  );
-};
-
-// Get localized footnote text with fallback
-export const getFootnoteText = (footnote: ApiFootnote): string => {
-  if (QURAN_LANG === "spanish") {
-    return footnote.text_spanish || footnote.text_english || "";
-  }
-  return footnote.text_english || footnote.text_spanish || "";
-};
+): Promise<QueryResult<ApiFootnote[]>> => quranRepository.footnotes.byIds(footnoteIds);
+
+// Get a footnote as the given translation words it, else the built-in text
+// for that translation's language
+export const getFootnoteText = (
+  footnote: ApiFootnote,
+  translationId: string | null,
+  language: QuranLanguage
+): string =>
+  footnote.translations?.find((t) => t.translation_id === translationId)?.text ||
+  fromBuiltInColumns(language, footnote.text_english, footnote.text_spanish) ||
+  "";
 
 // ============= Pagination Helpers =============
 
-export const fetchSurahsPaginated = async (
+export const fetchSurahsPaginated = (
   pageSize: number,
   pageIndex: number
-): Promise<QueryResult<ApiSurah[]>> => {
-  return executeQuranQuery<ApiSurah[]>(
-    "SELECT * FROM Chapters ORDER BY id LIMIT ? OFFSET ?",
-    [pageSize, pageIndex * pageSize]
-  );
-};
+): Promise<QueryResult<ApiSurah[]>> => quranRepository.chapters.paginated(pageSize, pageIndex);
 
-export const fetchVersesPaginated = async (
+export const fetchVersesPaginated = (
   surahId: number,
   pageSize: number,
   pageIndex: number
-): Promise<QueryResult<ApiVerse[]>> => {
-  return executeQuranQuery<ApiVerse[]>(
-    `SELECT v.*, 
-            c.name_english, c.name_spanish, c.name_transliteration, c.name_arabic,
-            c.number_of_verses, c.revelation_type, c.bismillah_prefix,
-            c.introduction_english, c.introduction_spanish, c.pages
-     FROM Verses v
-     JOIN Chapters c ON v.chapter_number = c.id
-     WHERE v.chapter_number = ?
-     ORDER BY v.page_number, v.verse_number
-     LIMIT ? OFFSET ?`,
-    [surahId, pageSize, pageIndex * pageSize]
-  );
-};
+): Promise<QueryResult<ApiVerse[]>> =>
+  quranRepository.verses.byChapterPaginated(surahId, pageSize, pageIndex);
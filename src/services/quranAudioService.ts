@@ -32,7 +32,14 @@ interface ApiResponse {
   audio_files?: ApiAudioFile[];
 }
 
-// Popular reciter IDs from Quran CDN
+// Recitation ids on the Quran CDN. Any id the catalogue lists is valid, so this
+// is a number checked at runtime rather than a fixed union
+export type ReciterId = number;
+
+export const isReciterId = (value: unknown): value is ReciterId =>
+  typeof value === "number" && Number.isInteger(value) && value > 0;
+
+// Reciters known at build time, used until the catalogue has loaded
 export const RECITERS = {
   MISHARY_ALAFASY: 7,
   ABDUL_BASIT: 1,
@@ -41,7 +48,38 @@ export const RECITERS = {
   HUSARY: 4,
 } as const;
 
-export type ReciterId = (typeof RECITERS)[keyof typeof RECITERS];
+export const DEFAULT_RECITER_ID: ReciterId = RECITERS.MISHARY_ALAFASY;
+
+export type RecitationStyle = "murattal" | "mujawwad";
+
+export interface ReciterInfo {
+  id: ReciterId;
+  name: string;
+  style: RecitationStyle | null;
+  // Kbps of the audio files, when the catalogue reports it
+  bitrate: number | null;
+  // Without verse timings only whole-surah playback is possible
+  hasTimings: boolean;
+}
+
+const fallbackReciter = (id: ReciterId, name: string, style: RecitationStyle): ReciterInfo => ({
+  id,
+  name,
+  style,
+  bitrate: null,
+  hasTimings: true,
+});
+
+export const FALLBACK_RECITERS: ReciterInfo[] = [
+  fallbackReciter(RECITERS.MISHARY_ALAFASY, "Mishary Rashid Alafasy", "murattal"),
+  fallbackReciter(RECITERS.ABDUL_BASIT, "Abdul Basit Abdul Samad", "mujawwad"),
+  fallbackReciter(RECITERS.SUDAIS, "Abdur-Rahman as-Sudais", "murattal"),
+  fallbackReciter(RECITERS.MINSHAWI, "Mohamed Siddiq al-Minshawi", "murattal"),
+  fallbackReciter(RECITERS.HUSARY, "Mahmoud Khalil al-Husary", "murattal"),
+];
+
+// The opening verse of Al-Fatiha serves as each reciter's sample
+export const RECITER_SAMPLE_VERSE = { surahId: 1, verseNumber: 1 } as const;
 
 /**
  * Fetches surah audio URL and verse timings via Edge Function proxy
@@ -51,7 +89,7 @@ export type ReciterId = (typeof RECITERS)[keyof typeof RECITERS];
  */
 export async function fetchSurahAudio(
   surahId: number,
-  reciterId: ReciterId = RECITERS.MISHARY_ALAFASY
+  reciterId: ReciterId = DEFAULT_RECITER_ID
 ): Promise<SurahAudioData> {
   if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
     throw new Error("Missing EXPO_PUBLIC_SUPABASE_URL or EXPO_PUBLIC_SUPABASE_PUBLISHABLE_KEY");
@@ -95,6 +133,72 @@ export async function fetchSurahAudio(
   };
 }
 
+interface ApiReciter {
+  id?: unknown;
+  name?: unknown;
+  reciter_name?: unknown;
+  style?: unknown;
+  bitrate?: unknown;
+  has_timings?: unknown;
+}
+
+interface ApiRecitersResponse {
+  reciters?: ApiReciter[];
+  recitations?: ApiReciter[];
+}
+
+const parseRecitationStyle = (value: unknown): RecitationStyle | null => {
+  const style = typeof value === "string" ? value.toLowerCase() : "";
+  if (style.includes("mujawwad")) return "mujawwad";
+  if (style.includes("murattal")) return "murattal";
+  return null;
+};
+
+// Entries with an unusable id or name are dropped rather than failing the list
+const parseReciter = (raw: ApiReciter): ReciterInfo | null => {
+  const name = typeof raw.name === "string" ? raw.name : raw.reciter_name;
+  if (!isReciterId(raw.id) || typeof name !== "string" || !name.trim()) return null;
+  return {
+    id: raw.id,
+    name: name.trim(),
+    style: parseRecitationStyle(raw.style),
+    bitrate: typeof raw.bitrate === "number" ? raw.bitrate : null,
+    // Older proxy responses omit the flag; missing timings are also caught on load
+    hasTimings: raw.has_timings !== false,
+  };
+};
+
+/**
+ * Fetches the reciters the audio proxy can serve
+ * @returns Reciters in the order the proxy lists them
+ */
+export async function fetchReciters(): Promise<ReciterInfo[]> {
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new Error("Missing EXPO_PUBLIC_SUPABASE_URL or EXPO_PUBLIC_SUPABASE_PUBLISHABLE_KEY");
+  }
+
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/quran-audio-proxy?resource=reciters`, {
+    headers: {
+      apikey: SUPABASE_ANON_KEY,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch reciters: ${response.status} ${response.statusText}`);
+  }
+
+  const data: ApiRecitersResponse = await response.json();
+  const reciters = (data.reciters ?? data.recitations ?? [])
+    .map(parseReciter)
+    .filter((reciter): reciter is ReciterInfo => reciter !== null);
+
+  if (reciters.length === 0) {
+    throw new Error("The reciter catalogue is empty");
+  }
+  return reciters;
+}
+
 /**
  * Finds the verse timing that contains the given playback time
  * @param currentTimeMs - Current playback time in milliseconds
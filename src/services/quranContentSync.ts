@@ -0,0 +1,154 @@
+// Quran Content Sync - Brings the local Quran store up to the latest published content version
+
+import { QueryResult } from "./quranApi";
+import { from } from "./quranQuery";
+import { LocalRowChange, applyLocalChanges, getLocalContentVersion } from "./quranDatabase";
+import { QuranRow, isLocalTable } from "./quranSchema";
+
+// Rows requested per page of content changes
+const SYNC_PAGE_SIZE = 1000;
+
+export interface ContentSyncResult {
+  // Whether any rows changed locally
+  updated: boolean;
+  version: number;
+  changeCount: number;
+}
+
+export type ContentManifest = QuranRow<"ContentVersions">;
+
+// ============= Content Versioning =============
+
+// Latest published content version. Servers without versioning report 0.
+export const fetchContentManifest = async (): Promise<
+  QueryResult<ContentManifest>
+> => {
+  const result = await from("ContentVersions")
+    .selectAll("ContentVersions")
+    .orderBy("ContentVersions.version", "desc")
+    .limit(1)
+    .execute();
+
+  if (!result.success) {
+    return { ...result, data: null };
+  }
+
+  const manifest = result.data?.[0] ?? { version: 0, published_at: null };
+  return { success: true, data: manifest, count: 1 };
+};
+
+// Undefined when the column holds malformed JSON or something other than an object
+const parseJsonColumn = (value: unknown): Record<string, unknown> | null | undefined => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "object") return value as Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(String(value));
+    return typeof parsed === "object" && !Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Row-level changes published after `sinceVersion`, up to and including `toVersion`
+export const fetchContentChanges = async (
+  sinceVersion: number,
+  toVersion: number
+): Promise<QueryResult<LocalRowChange[]>> => {
+  const changes: LocalRowChange[] = [];
+
+  for (let offset = 0; ; offset += SYNC_PAGE_SIZE) {
+    const result = await from("ContentChanges")
+      .selectAll("ContentChanges")
+      .where("ContentChanges.version", ">", sinceVersion)
+      .where("ContentChanges.version", "<=", toVersion)
+      .orderBy("ContentChanges.version")
+      .orderBy("ContentChanges.id")
+      .limit(SYNC_PAGE_SIZE)
+      .offset(offset)
+      .execute();
+
+    if (!result.success || !result.data) {
+      return { ...result, data: null };
+    }
+
+    for (const change of result.data) {
+      if (!isLocalTable(change.table_name)) {
+        return {
+          success: false,
+          data: null,
+          count: 0,
+          error: `Unsupported table in content update: ${change.table_name}`,
+          errorKind: "validation",
+        };
+      }
+      const key = parseJsonColumn(change.row_key);
+      const row = parseJsonColumn(change.row_data);
+      if (key === undefined || row === undefined) {
+        return {
+          success: false,
+          data: null,
+          count: 0,
+          error: `Malformed row in content change ${change.id}`,
+          errorKind: "validation",
+        };
+      }
+      changes.push({
+        table: change.table_name,
+        operation: change.operation === "delete" ? "delete" : "upsert",
+        key: key || {},
+        row,
+      });
+    }
+
+    if (result.data.length < SYNC_PAGE_SIZE) {
+      return { success: true, data: changes, count: changes.length };
+    }
+  }
+};
+
+// ============= Sync =============
+
+let syncPromise: Promise<ContentSyncResult> | null = null;
+
+const performSync = async (): Promise<ContentSyncResult> => {
+  const localVersion = await getLocalContentVersion();
+  const manifest = await fetchContentManifest();
+
+  if (!manifest.success || !manifest.data) {
+    throw new Error(manifest.error || "Failed to fetch content manifest");
+  }
+
+  const remoteVersion = manifest.data.version;
+  if (remoteVersion <= localVersion) {
+    return { updated: false, version: localVersion, changeCount: 0 };
+  }
+
+  // Download every change before touching the database so a dropped
+  // connection never leaves a half-applied update behind
+  const changes = await fetchContentChanges(localVersion, remoteVersion);
+  if (!changes.success || !changes.data) {
+    throw new Error(changes.error || "Failed to fetch content changes");
+  }
+
+  await applyLocalChanges(changes.data, remoteVersion);
+
+  return {
+    updated: changes.data.length > 0,
+    version: remoteVersion,
+    changeCount: changes.data.length,
+  };
+};
+
+/**
+ * Applies content edits published since the local copy was last synced.
+ * Concurrent calls share the same in-flight sync.
+ * @returns The content version the local store is now at
+ */
+export function syncQuranContent(): Promise<ContentSyncResult> {
+  if (!syncPromise) {
+    syncPromise = performSync().finally(() => {
+      syncPromise = null;
+    });
+  }
+  return syncPromise;
+}
@@ -0,0 +1,183 @@
+// Local Quran Database - On-device SQLite copy of the Quran content tables
+
+import * as SQLite from "expo-sqlite";
+import {
+  CONTENT_VERSION_KEY,
+  LOCAL_SCHEMA_VERSION,
+  META_TABLE,
+  SCHEMA_VERSION_KEY,
+} from "./quranStoreFormat";
+import { LocalTableName, TableDefinition, getTableDefinition } from "./quranSchema";
+
+const DATABASE_NAME = "quran.db";
+// Built from the Quran API by `npm run build:quran-db`
+const BUNDLED_DATABASE = require("../../assets/quran.db");
+
+// A single row-level edit published by the editorial team
+export interface LocalRowChange {
+  table: LocalTableName;
+  operation: "upsert" | "delete";
+  key: Record<string, unknown>;
+  row: Record<string, unknown> | null;
+}
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+// Writes run one at a time so transactions from content updates never
+// interleave on the shared connection
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+export const enqueueWrite = <T>(write: () => Promise<T>): Promise<T> => {
+  const result = writeQueue.then(write);
+  writeQueue = result.catch(() => undefined);
+  return result;
+};
+
+// Copy the bundled database into place, unless a copy is already installed
+// and `replace` is false
+const openBundledDatabase = async (replace: boolean): Promise<SQLite.SQLiteDatabase> => {
+  await SQLite.importDatabaseFromAssetAsync(DATABASE_NAME, {
+    assetId: BUNDLED_DATABASE,
+    forceOverwrite: replace,
+  });
+  return SQLite.openDatabaseAsync(DATABASE_NAME);
+};
+
+const initializeDatabase = async (): Promise<SQLite.SQLiteDatabase> => {
+  const db = await openBundledDatabase(false);
+
+  // An app update that changed the tables ships a rebuilt copy, which replaces
+  // the one installed by the previous version. Edits it predates are applied
+  // again by the next content sync.
+  const schemaVersion = await readMeta(db, SCHEMA_VERSION_KEY).catch(() => null);
+  if (Number(schemaVersion) !== LOCAL_SCHEMA_VERSION) {
+    await db.closeAsync();
+    return openBundledDatabase(true);
+  }
+
+  return db;
+};
+
+const readMeta = async (
+  db: SQLite.SQLiteDatabase,
+  key: string
+): Promise<string | null> => {
+  const row = await db.getFirstAsync<{ value: string }>(
+    `SELECT value FROM ${META_TABLE} WHERE key = ?`,
+    [key]
+  );
+  return row?.value ?? null;
+};
+
+const writeMeta = async (db: SQLite.SQLiteDatabase, key: string, value: string) => {
+  await db.runAsync(`INSERT OR REPLACE INTO ${META_TABLE} (key, value) VALUES (?, ?)`, [
+    key,
+    value,
+  ]);
+};
+
+// Open the local database, installing the bundled copy on first use
+export const getQuranDatabase = (): Promise<SQLite.SQLiteDatabase> => {
+  if (!databasePromise) {
+    databasePromise = initializeDatabase().catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+export const getLocalMeta = async (key: string): Promise<string | null> => {
+  const db = await getQuranDatabase();
+  return readMeta(db, key);
+};
+
+export const setLocalMeta = async (key: string, value: string): Promise<void> => {
+  const db = await getQuranDatabase();
+  await writeMeta(db, key, value);
+};
+
+const toBindValue = (value: unknown): SQLite.SQLiteBindValue => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "number" || typeof value === "string") return value;
+  return JSON.stringify(value);
+};
+
+// Insert a row, or update only the columns it carries when the key exists, so
+// an edit that sends just the changed columns leaves the others intact
+const upsertRow = async (
+  db: SQLite.SQLiteDatabase,
+  name: LocalTableName,
+  table: TableDefinition,
+  row: Record<string, unknown>
+) => {
+  const columns = Object.keys(table.columns).filter((column) => column in row);
+  const updated = columns.filter((column) => !table.primaryKey.includes(column));
+  const onConflict = updated.length
+    ? `DO UPDATE SET ${updated.map((column) => `${column} = excluded.${column}`).join(", ")}`
+    : "DO NOTHING";
+
+  await db.runAsync(
+    `INSERT INTO ${name} (${columns.join(", ")})
+     VALUES (${columns.map(() => "?").join(", ")})
+     ON CONFLICT (${table.primaryKey.join(", ")}) ${onConflict}`,
+    columns.map((column) => toBindValue(row[column]))
+  );
+};
+
+// Content version the local copy is at (0 when never synced)
+export const getLocalContentVersion = async (): Promise<number> => {
+  const db = await getQuranDatabase();
+  const value = await readMeta(db, CONTENT_VERSION_KEY);
+  return value ? parseInt(value, 10) || 0 : 0;
+};
+
+// Apply a batch of row-level changes and advance the content version in one
+// transaction. If anything fails (or the app is killed part-way) SQLite rolls
+// the whole batch back and the local copy stays at its previous version.
+export const applyLocalChanges = async (
+  changes: LocalRowChange[],
+  contentVersion: number
+): Promise<void> => {
+  const db = await getQuranDatabase();
+  await enqueueWrite(() =>
+    db.withTransactionAsync(async () => {
+      for (const change of changes) {
+        const table = getTableDefinition(change.table);
+        if (!table || table.remoteOnly) {
+          throw new Error(`Unknown table in content update: ${change.table}`);
+        }
+
+        const keyValues = table.primaryKey.map((column) => {
+          const value = change.key[column] ?? change.row?.[column];
+          if (value === undefined || value === null) {
+            throw new Error(`Missing ${column} for ${change.table} change`);
+          }
+          return toBindValue(value);
+        });
+
+        if (change.operation === "delete") {
+          await db.runAsync(
+            `DELETE FROM ${change.table}
+             WHERE ${table.primaryKey.map((column) => `${column} = ?`).join(" AND ")}`,
+            keyValues
+          );
+        } else if (change.row) {
+          await upsertRow(db, change.table, table, { ...change.key, ...change.row });
+        } else {
+          throw new Error(`Missing row data for ${change.table} upsert`);
+        }
+      }
+      await writeMeta(db, CONTENT_VERSION_KEY, String(contentVersion));
+    })
+  );
+};
+
+// Run a read query against the local copy
+export const queryLocalStore = async <T>(
+  sql: string,
+  params: unknown[] = []
+): Promise<T[]> => {
+  const db = await getQuranDatabase();
+  return db.getAllAsync<T>(sql, params.map(toBindValue));
+};
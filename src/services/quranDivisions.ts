@@ -0,0 +1,62 @@
+// Quran Divisions - Juz, hizb and rub' al-hizb boundaries
+//
+// Verses carry their rub' and ruku' numbers from the content tables. Juz and
+// hizb follow from the rub' (eight and four rub' each), and the juz starts are
+// fixed, so verse-to-juz lookups work without a query.
+
+export const JUZ_COUNT = 30;
+export const HIZB_COUNT = 60;
+export const RUB_COUNT = 240;
+
+export interface VerseRef {
+  surahNumber: number;
+  verseNumber: number;
+}
+
+// First verse of each juz, in order
+const JUZ_STARTS: readonly VerseRef[] = [
+  [1, 1], [2, 142], [2, 253], [3, 93], [4, 24], [4, 148], [5, 82], [6, 111],
+  [7, 88], [8, 41], [9, 93], [11, 6], [12, 53], [15, 1], [17, 1], [18, 75],
+  [21, 1], [23, 1], [25, 21], [27, 56], [29, 46], [33, 31], [36, 28], [39, 32],
+  [41, 47], [46, 1], [51, 31], [58, 1], [67, 1], [78, 1],
+].map(([surahNumber, verseNumber]) => ({ surahNumber, verseNumber }));
+
+const compareVerses = (a: VerseRef, b: VerseRef) =>
+  a.surahNumber - b.surahNumber || a.verseNumber - b.verseNumber;
+
+// ============= Juz =============
+
+export const getJuzStart = (juzNumber: number): VerseRef | null =>
+  JUZ_STARTS[juzNumber - 1] ?? null;
+
+// Which juz a verse is in
+export const getJuzNumber = (surahNumber: number, verseNumber: number): number => {
+  const verse = { surahNumber, verseNumber };
+  let juzNumber = 1;
+  JUZ_STARTS.forEach((start, index) => {
+    if (compareVerses(start, verse) <= 0) juzNumber = index + 1;
+  });
+  return juzNumber;
+};
+
+// Whether the verse opens a juz
+export const isJuzStart = (surahNumber: number, verseNumber: number): boolean =>
+  JUZ_STARTS.some(
+    (start) => start.surahNumber === surahNumber && start.verseNumber === verseNumber
+  );
+
+// Whether the whole surah lies inside the juz
+export const isSurahWithinJuz = (surahNumber: number, juzNumber: number): boolean => {
+  if (getJuzNumber(surahNumber, 1) !== juzNumber) return false;
+  const nextStart = getJuzStart(juzNumber + 1);
+  return !nextStart || nextStart.surahNumber > surahNumber;
+};
+
+// ============= Hizb and Rub' =============
+
+export const getJuzOfRub = (rubNumber: number): number => Math.ceil(rubNumber / 8);
+
+export const getHizbOfRub = (rubNumber: number): number => Math.ceil(rubNumber / 4);
+
+// 0 at the start of a hizb, then 1, 2 and 3 for its quarters
+export const getRubQuarter = (rubNumber: number): number => (rubNumber - 1) % 4;
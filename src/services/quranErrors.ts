@@ -0,0 +1,59 @@
+// Quran Errors - Failure taxonomy for Quran content queries
+
+// network: the request never reached the server (offline, DNS, connection reset)
+// timeout: the server did not answer in time
+// server: the server failed (5xx or malformed response)
+// validation: the server rejected the query (bad SQL, bad params, misconfiguration)
+// cancelled: the caller aborted the request, e.g. by leaving the surah
+export type QuranErrorKind =
+  | "network"
+  | "timeout"
+  | "server"
+  | "validation"
+  | "cancelled";
+
+const RETRYABLE_KINDS: QuranErrorKind[] = ["network", "timeout", "server"];
+
+export class QuranQueryError extends Error {
+  readonly kind: QuranErrorKind;
+  readonly status?: number;
+
+  constructor(kind: QuranErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = "QuranQueryError";
+    this.kind = kind;
+    this.status = status;
+  }
+
+  // Whether sending the same read again may succeed
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+// Normalize anything thrown while loading content into a QuranQueryError
+export const toQuranQueryError = (error: unknown): QuranQueryError => {
+  if (error instanceof QuranQueryError) {
+    return error;
+  }
+  return new QuranQueryError(
+    "server",
+    error instanceof Error ? error.message : "Query failed"
+  );
+};
+
+// Short explanation suitable for showing to the reader
+export const getQuranErrorMessage = (error: QuranQueryError): string => {
+  switch (error.kind) {
+    case "network":
+      return "You appear to be offline. Check your connection and try again.";
+    case "timeout":
+      return "The server is taking too long to respond. Please try again.";
+    case "server":
+      return "The server ran into a problem. Please try again in a moment.";
+    case "validation":
+      return "This content could not be loaded.";
+    case "cancelled":
+      return "Loading was cancelled.";
+  }
+};
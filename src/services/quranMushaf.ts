@@ -0,0 +1,138 @@
+// Quran Mushaf - Lays out a page of the 604-page Madani mushaf from word data
+
+import { ApiVerse, ApiVerseWord } from "./quranApi";
+
+export const MUSHAF_PAGE_COUNT = 604;
+export const MUSHAF_LINES_PER_PAGE = 15;
+
+// ============= Types =============
+
+export interface MushafWord {
+  verseKey: string;
+  surahNumber: number;
+  verseNumber: number;
+  position: number;
+  text: string;
+  // Last word of its verse, followed by the verse-end marker
+  isVerseEnd: boolean;
+}
+
+export type MushafLine =
+  | { type: "surahHeader"; surahNumber: number; nameArabic: string }
+  | { type: "bismillah"; surahNumber: number }
+  | { type: "text"; lineNumber: number; words: MushafWord[] };
+
+export interface MushafPage {
+  pageNumber: number;
+  lines: MushafLine[];
+  // Surahs with verses on the page, in reading order
+  surahNumbers: number[];
+}
+
+// ============= Layout =============
+
+export const isMushafPage = (pageNumber: number) =>
+  Number.isInteger(pageNumber) && pageNumber >= 1 && pageNumber <= MUSHAF_PAGE_COUNT;
+
+const parseVerseKey = (verseKey: string) => {
+  const [surahNumber, verseNumber] = verseKey.split(":").map(Number);
+  return { surahNumber, verseNumber };
+};
+
+/**
+ * Groups a page's words into its mushaf lines. Surahs that begin on the page
+ * get a header, and a bismillah when the surah carries one, ahead of the line
+ * holding their first verse.
+ */
+export function buildMushafPage(
+  pageNumber: number,
+  verses: ApiVerse[],
+  words: ApiVerseWord[]
+): MushafPage {
+  // A verse that starts here may run onto the next page, so its word count
+  // comes from the verse text; verses continued from the previous page end here
+  const verseLengths = new Map<string, number>();
+  words.forEach((word) => {
+    verseLengths.set(
+      word.verse_key,
+      Math.max(verseLengths.get(word.verse_key) ?? 0, word.position)
+    );
+  });
+  verses.forEach((verse) => {
+    verseLengths.set(verse.verse_key, verse.text_uthmani.split(" ").filter(Boolean).length);
+  });
+
+  const lines: MushafLine[] = [];
+  let currentLine: Extract<MushafLine, { type: "text" }> | null = null;
+  for (const word of words) {
+    const { surahNumber, verseNumber } = parseVerseKey(word.verse_key);
+
+    if (verseNumber === 1 && word.position === 1) {
+      const verse = verses.find((v) => v.verse_key === word.verse_key);
+      lines.push({
+        type: "surahHeader",
+        surahNumber,
+        nameArabic: verse?.name_arabic ?? "",
+      });
+      if (verse?.bismillah_prefix) {
+        lines.push({ type: "bismillah", surahNumber });
+      }
+      currentLine = null;
+    }
+
+    if (!currentLine || currentLine.lineNumber !== word.line_number) {
+      currentLine = { type: "text", lineNumber: word.line_number, words: [] };
+      lines.push(currentLine);
+    }
+    currentLine.words.push({
+      verseKey: word.verse_key,
+      surahNumber,
+      verseNumber,
+      position: word.position,
+      text: word.text_uthmani,
+      isVerseEnd: verseLengths.get(word.verse_key) === word.position,
+    });
+  }
+
+  const surahNumbers = [
+    ...new Set(words.map((word) => parseVerseKey(word.verse_key).surahNumber)),
+  ];
+  return { pageNumber, lines, surahNumbers };
+}
+
+// ============= Sizing =============
+
+// Rough advance widths in ems: harakat and Uthmani marks sit on their letters
+// and take no room, a joined letter is a little under half an em, and a verse-end
+// marker with its numerals about two
+const ARABIC_MARKS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u08D3-\u08FF]/g;
+const LETTER_EMS = 0.4;
+const WORD_GAP_EMS = 0.3;
+const VERSE_END_EMS = 2;
+
+const estimateWordEms = (word: MushafWord) =>
+  word.text.replace(ARABIC_MARKS, "").length * LETTER_EMS +
+  WORD_GAP_EMS +
+  (word.isVerseEnd ? VERSE_END_EMS : 0);
+
+/**
+ * Largest font size, up to `maxFontSize`, at which the page's widest text line
+ * fits `lineWidth`. Mushaf lines never wrap, so the longest one sets the size
+ * for the whole page.
+ */
+export function getMushafFontSize(
+  page: MushafPage,
+  lineWidth: number,
+  maxFontSize: number
+): number {
+  const widestLineEms = Math.max(
+    0,
+    ...page.lines.map((line) =>
+      line.type === "text"
+        ? line.words.reduce((total, word) => total + estimateWordEms(word), 0)
+        : 0
+    )
+  );
+  if (widestLineEms === 0) return maxFontSize;
+  return Math.min(maxFontSize, Math.floor(lineWidth / widestLineEms));
+}
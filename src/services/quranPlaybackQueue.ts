@@ -0,0 +1,79 @@
+// Quran Playback Queue - Playlists of surahs and verse ranges
+//
+// The queue holds the items to play and the index of the one playing. With
+// continuous playback on, running past the end appends the next surah, so a
+// queue-less surah carries on through the rest of the Quran.
+
+import { getJuzStart } from "./quranDivisions";
+
+const LAST_SURAH = 114;
+
+export interface QueueItem {
+  surahId: number;
+  // Whole surah when unset; otherwise from the first verse through the last
+  startVerse?: number;
+  endVerse?: number;
+}
+
+export interface PlaybackQueue {
+  items: QueueItem[];
+  index: number;
+}
+
+// The queue as it will be once the current item ends, or null when playback stops
+export const getNextQueueStep = (
+  queue: PlaybackQueue | null,
+  currentSurahId: number | null,
+  continuous: boolean
+): PlaybackQueue | null => {
+  if (queue && queue.index + 1 < queue.items.length) {
+    return { ...queue, index: queue.index + 1 };
+  }
+  const lastSurahId = queue ? queue.items[queue.index].surahId : currentSurahId;
+  if (!continuous || lastSurahId === null || lastSurahId >= LAST_SURAH) return null;
+  const items = [...(queue?.items ?? []), { surahId: lastSurahId + 1 }];
+  return { items, index: items.length - 1 };
+};
+
+export const getCurrentQueueItem = (queue: PlaybackQueue | null): QueueItem | null =>
+  queue ? (queue.items[queue.index] ?? null) : null;
+
+// ============= Presets =============
+
+// Surahs from one through another, inclusive
+export const getSurahRunQueue = (fromSurahId: number, toSurahId = LAST_SURAH): QueueItem[] =>
+  Array.from({ length: toSurahId - fromSurahId + 1 }, (_, index) => ({
+    surahId: fromSurahId + index,
+  }));
+
+// The juz as a run of surahs, cutting the first and last at the juz boundaries
+export const getJuzQueue = (juzNumber: number): QueueItem[] => {
+  const start = getJuzStart(juzNumber);
+  if (!start) return [];
+  const nextStart = getJuzStart(juzNumber + 1);
+  const lastSurahId = !nextStart
+    ? LAST_SURAH
+    : nextStart.verseNumber > 1
+      ? nextStart.surahNumber
+      : nextStart.surahNumber - 1;
+
+  return getSurahRunQueue(start.surahNumber, lastSurahId).map((item) => ({
+    ...item,
+    ...(item.surahId === start.surahNumber && start.verseNumber > 1
+      ? { startVerse: start.verseNumber }
+      : {}),
+    ...(nextStart && item.surahId === nextStart.surahNumber
+      ? { endVerse: nextStart.verseNumber - 1 }
+      : {}),
+  }));
+};
+
+// ============= Formatting =============
+
+// e.g. "Al-Baqarah 2:142–252", or just the name for a whole surah
+export const formatQueueItem = (item: QueueItem, surahName: string): string => {
+  if (!item.startVerse && !item.endVerse) return surahName;
+  const start = item.startVerse ?? 1;
+  const range = item.endVerse ? `${start}–${item.endVerse}` : `${start}–end`;
+  return `${surahName} ${item.surahId}:${range}`;
+};
@@ -0,0 +1,345 @@
+// Quran Queries - React Query keys and query options for Quran content
+
+import { queryOptions } from "@tanstack/react-query";
+import {
+  ApiFootnote,
+  ApiSurah,
+  ApiTheme,
+  ApiThemeCategory,
+  ApiThemeVerse,
+  ApiTranslation,
+  ApiVerse,
+  ApiVerseTranslation,
+  ApiVerseWord,
+  QueryResult,
+  QuranLanguage,
+} from "./quranApi";
+import { QuranQueryError } from "./quranErrors";
+import { quranRepository } from "./quranRepository";
+import { MushafPage, buildMushafPage } from "./quranMushaf";
+import { ReciterInfo, fetchReciters } from "./quranAudioService";
+import {
+  LemmaGroup,
+  SearchHit,
+  SearchOptions,
+  searchQuran,
+  searchQuranByRoot,
+} from "./quranSearch";
+
+// Content rarely changes and editorial updates invalidate the cache explicitly,
+// so cached data is served immediately and refreshed in the background.
+// Retries happen in the transport, which knows which failures are transient.
+const CONTENT_QUERY_DEFAULTS = {
+  staleTime: 30 * 60 * 1000,
+  retry: false,
+} as const;
+
+// Verses, words, translations and footnotes are served from the on-device
+// store, so only the small lists around them are persisted with the cache;
+// holding whole surahs as well would outgrow a single AsyncStorage entry
+const VERSE_CONTENT_QUERY_DEFAULTS = {
+  ...CONTENT_QUERY_DEFAULTS,
+  meta: { persist: false },
+} as const;
+
+// Searches run against the on-device copy, so results are never persisted or refetched
+const SEARCH_QUERY_DEFAULTS = {
+  staleTime: Infinity,
+  gcTime: 5 * 60 * 1000,
+  retry: false,
+  meta: { persist: false },
+} as const;
+
+// The reciter list changes only when the audio proxy adds one. Unlike content,
+// it comes straight from the network, so transient failures are retried here
+const RECITER_QUERY_DEFAULTS = {
+  staleTime: 24 * 60 * 60 * 1000,
+  retry: 2,
+} as const;
+
+export interface ThematicContent {
+  themes: ApiTheme[];
+  verses: ApiThemeVerse[];
+  footnotes: ApiFootnote[];
+}
+
+// A theme with the number of verses it covers
+export type CategoryTheme = ApiTheme & { verse_count: number };
+
+export const quranKeys = {
+  all: ["quran"] as const,
+  chapters: () => [...quranKeys.all, "chapters"] as const,
+  translations: () => [...quranKeys.all, "translations"] as const,
+  surah: (surahId: number) => [...quranKeys.all, "surah", surahId] as const,
+  surahVerses: (surahId: number) => [...quranKeys.surah(surahId), "verses"] as const,
+  surahThematic: (surahId: number) =>
+    [...quranKeys.surah(surahId), "thematic"] as const,
+  surahFootnotes: (surahId: number) => [...quranKeys.surah(surahId), "footnotes"] as const,
+  surahWords: (surahId: number, language: QuranLanguage) =>
+    [...quranKeys.surah(surahId), "words", language] as const,
+  surahTranslations: (surahId: number, translationIds: string[]) =>
+    [...quranKeys.surah(surahId), "translations", [...translationIds].sort()] as const,
+  search: (query: string, options: SearchOptions) =>
+    [
+      ...quranKeys.all,
+      "search",
+      query,
+      [...options.languages].sort(),
+      [...(options.translationIds ?? [])].sort(),
+    ] as const,
+  themeCategories: () => [...quranKeys.all, "themeCategories"] as const,
+  categoryThemes: (categoryId: number) =>
+    [...quranKeys.themeCategories(), categoryId, "themes"] as const,
+  themePassages: (themeIds: number[]) =>
+    [...quranKeys.all, "themePassages", [...themeIds].sort((a, b) => a - b)] as const,
+  mushafPage: (pageNumber: number) => [...quranKeys.all, "mushafPage", pageNumber] as const,
+  rootSearch: (query: string) => [...quranKeys.all, "search", "root", query] as const,
+  reciters: () => [...quranKeys.all, "reciters"] as const,
+};
+
+// React Query expects failures to throw
+const unwrap = <T>(result: QueryResult<T>): T => {
+  if (!result.success || result.data === null) {
+    throw new QuranQueryError(
+      result.errorKind ?? "server",
+      result.error || "Query failed"
+    );
+  }
+  return result.data;
+};
+
+// Rows of a localization table per row they belong to. Content still renders
+// from the built-in columns when these cannot be loaded.
+const groupByRow = <L, K>(
+  result: QueryResult<L[]>,
+  rowId: (row: L) => K
+): Map<K, L[]> => {
+  const groups = new Map<K, L[]>();
+  (result.success && result.data ? result.data : []).forEach((row) => {
+    const id = rowId(row);
+    groups.set(id, [...(groups.get(id) ?? []), row]);
+  });
+  return groups;
+};
+
+// Footnotes with each registry translation's wording attached
+const withFootnoteTranslations = async (
+  footnotes: ApiFootnote[],
+  signal?: AbortSignal
+): Promise<ApiFootnote[]> => {
+  const translations = groupByRow(
+    await quranRepository.footnotes.translationsByIds(
+      footnotes.map((fn) => fn.id),
+      { signal }
+    ),
+    (row) => row.footnote_id
+  );
+  return footnotes.map((fn) => ({ ...fn, translations: translations.get(fn.id) ?? [] }));
+};
+
+// Verses, footnotes and localized names of the given themes
+const fetchThematicContent = async (
+  themes: ApiTheme[],
+  signal?: AbortSignal
+): Promise<ThematicContent> => {
+  const themeIds = themes.map((t) => t.id);
+  const [verses, localizations] = await Promise.all([
+    quranRepository.verses.byThemes(themeIds, { signal }),
+    quranRepository.themes.localizationsByIds(themeIds, { signal }),
+  ]);
+  const themeVerses = unwrap(verses);
+  // Footnotes on the verses rather than those cited by the built-in text, so
+  // whichever translation the reader has selected finds its own
+  const footnotes = unwrap(
+    await quranRepository.footnotes.byVerseKeys(
+      [...new Set(themeVerses.map((v) => v.verse_key))],
+      { signal }
+    )
+  );
+  const localizationsByTheme = groupByRow(localizations, (row) => row.theme_id);
+  return {
+    themes: themes.map((theme) => ({
+      ...theme,
+      localizations: localizationsByTheme.get(theme.id) ?? [],
+    })),
+    verses: themeVerses,
+    footnotes: await withFootnoteTranslations(footnotes, signal),
+  };
+};
+
+export const chaptersQuery = () =>
+  queryOptions({
+    queryKey: quranKeys.chapters(),
+    queryFn: async ({ signal }): Promise<ApiSurah[]> => {
+      const [chapters, localizations] = await Promise.all([
+        quranRepository.chapters.all({ signal }),
+        quranRepository.chapters.localizations({ signal }),
+      ]);
+      const localizationsByChapter = groupByRow(localizations, (row) => row.chapter_id);
+      return unwrap(chapters).map((chapter) => ({
+        ...chapter,
+        localizations: localizationsByChapter.get(chapter.id) ?? [],
+      }));
+    },
+    ...CONTENT_QUERY_DEFAULTS,
+  });
+
+export const translationsQuery = () =>
+  queryOptions({
+    queryKey: quranKeys.translations(),
+    queryFn: async ({ signal }): Promise<ApiTranslation[]> =>
+      unwrap(await quranRepository.translations.all({ signal })),
+    ...CONTENT_QUERY_DEFAULTS,
+  });
+
+export const surahVersesQuery = (surahId: number) =>
+  queryOptions({
+    queryKey: quranKeys.surahVerses(surahId),
+    queryFn: async ({ signal }): Promise<ApiVerse[]> =>
+      unwrap(await quranRepository.verses.byChapter(surahId, { signal })),
+    ...VERSE_CONTENT_QUERY_DEFAULTS,
+  });
+
+// Themes, their verses and the footnotes on them, fetched as one unit
+export const surahThematicQuery = (surahId: number) =>
+  queryOptions({
+    queryKey: quranKeys.surahThematic(surahId),
+    queryFn: async ({ signal }): Promise<ThematicContent> => {
+      const themes = unwrap(
+        await quranRepository.themes.byChapter(surahId, { signal })
+      );
+      if (themes.length === 0) {
+        return { themes: [], verses: [], footnotes: [] };
+      }
+      return fetchThematicContent(themes, signal);
+    },
+    ...VERSE_CONTENT_QUERY_DEFAULTS,
+  });
+
+export const themeCategoriesQuery = () =>
+  queryOptions({
+    queryKey: quranKeys.themeCategories(),
+    queryFn: async ({ signal }): Promise<ApiThemeCategory[]> => {
+      const [categories, localizations] = await Promise.all([
+        quranRepository.themeCategories.all({ signal }),
+        quranRepository.themeCategories.localizations({ signal }),
+      ]);
+      const localizationsByCategory = groupByRow(localizations, (row) => row.category_id);
+      return unwrap(categories).map((category) => ({
+        ...category,
+        localizations: localizationsByCategory.get(category.id) ?? [],
+      }));
+    },
+    ...CONTENT_QUERY_DEFAULTS,
+  });
+
+export const categoryThemesQuery = (categoryId: number) =>
+  queryOptions({
+    queryKey: quranKeys.categoryThemes(categoryId),
+    queryFn: async ({ signal }): Promise<CategoryTheme[]> => {
+      const [themes, counts, localizations] = await Promise.all([
+        quranRepository.themes.byCategory(categoryId, { signal }),
+        quranRepository.themes.verseCountsByCategory(categoryId, { signal }),
+        quranRepository.themes.localizationsByCategory(categoryId, { signal }),
+      ]);
+      const countByTheme = new Map(
+        unwrap(counts).map((row) => [row.theme_id, row.count])
+      );
+      const localizationsByTheme = groupByRow(localizations, (row) => row.theme_id);
+      return unwrap(themes).map((theme) => ({
+        ...theme,
+        verse_count: countByTheme.get(theme.id) ?? 0,
+        localizations: localizationsByTheme.get(theme.id) ?? [],
+      }));
+    },
+    ...CONTENT_QUERY_DEFAULTS,
+  });
+
+// Selected themes from any surahs, with their verses and footnotes
+export const themePassagesQuery = (themeIds: number[]) =>
+  queryOptions({
+    queryKey: quranKeys.themePassages(themeIds),
+    queryFn: async ({ signal }): Promise<ThematicContent> => {
+      const themes = unwrap(await quranRepository.themes.byIds(themeIds, { signal }));
+      return fetchThematicContent(themes, signal);
+    },
+    ...VERSE_CONTENT_QUERY_DEFAULTS,
+  });
+
+export const surahTranslationsQuery = (surahId: number, translationIds: string[]) =>
+  queryOptions({
+    queryKey: quranKeys.surahTranslations(surahId, translationIds),
+    queryFn: async ({ signal }): Promise<ApiVerseTranslation[]> =>
+      unwrap(
+        await quranRepository.translations.byChapter(surahId, translationIds, {
+          signal,
+        })
+      ),
+    ...VERSE_CONTENT_QUERY_DEFAULTS,
+  });
+
+export const surahFootnotesQuery = (surahId: number) =>
+  queryOptions({
+    queryKey: quranKeys.surahFootnotes(surahId),
+    queryFn: async ({ signal }): Promise<ApiFootnote[]> =>
+      withFootnoteTranslations(
+        unwrap(await quranRepository.footnotes.byChapter(surahId, { signal })),
+        signal
+      ),
+    ...VERSE_CONTENT_QUERY_DEFAULTS,
+  });
+
+// Words of a surah with their glosses in the reader's language
+export const surahWordsQuery = (surahId: number, language: QuranLanguage) =>
+  queryOptions({
+    queryKey: quranKeys.surahWords(surahId, language),
+    queryFn: async ({ signal }): Promise<ApiVerseWord[]> => {
+      const [words, glosses] = await Promise.all([
+        quranRepository.words.byChapter(surahId, { signal }),
+        quranRepository.words.glossesByChapter(surahId, language, { signal }),
+      ]);
+      const glossesByWord = groupByRow(
+        glosses,
+        (row) => `${row.verse_key}:${row.position}`
+      );
+      return unwrap(words).map((word) => ({
+        ...word,
+        glosses: glossesByWord.get(`${word.verse_key}:${word.position}`) ?? [],
+      }));
+    },
+    ...VERSE_CONTENT_QUERY_DEFAULTS,
+  });
+
+export const mushafPageQuery = (pageNumber: number) =>
+  queryOptions({
+    queryKey: quranKeys.mushafPage(pageNumber),
+    queryFn: async ({ signal }): Promise<MushafPage> => {
+      const [verses, words] = await Promise.all([
+        quranRepository.verses.byPage(pageNumber, { signal }),
+        quranRepository.words.byPage(pageNumber, { signal }),
+      ]);
+      return buildMushafPage(pageNumber, unwrap(verses), unwrap(words));
+    },
+    ...VERSE_CONTENT_QUERY_DEFAULTS,
+  });
+
+export const searchQuery = (query: string, options: SearchOptions) =>
+  queryOptions({
+    queryKey: quranKeys.search(query, options),
+    queryFn: async (): Promise<SearchHit[]> => unwrap(await searchQuran(query, options)),
+    ...SEARCH_QUERY_DEFAULTS,
+  });
+
+export const rootSearchQuery = (query: string) =>
+  queryOptions({
+    queryKey: quranKeys.rootSearch(query),
+    queryFn: async (): Promise<LemmaGroup[]> => unwrap(await searchQuranByRoot(query)),
+    ...SEARCH_QUERY_DEFAULTS,
+  });
+
+export const reciterCatalogQuery = () =>
+  queryOptions({
+    queryKey: quranKeys.reciters(),
+    queryFn: (): Promise<ReciterInfo[]> => fetchReciters(),
+    ...RECITER_QUERY_DEFAULTS,
+  });
@@ -0,0 +1,258 @@
+// Quran Query Builder - Typed SELECT queries over the tables in quranSchema.ts.
+// Table and column names are checked by the compiler and result rows are typed
+// from the schema, so queries never hand-assemble SQL strings.
+
+import { executeQuranQuery, QueryResult, RequestOptions } from "./quranApi";
+import {
+  ColumnName,
+  ColumnRef,
+  ColumnRefValue,
+  ColumnType,
+  QuranRow,
+  TableName,
+  getTableDefinition,
+} from "./quranSchema";
+
+type ComparisonOperator = "=" | "!=" | "<" | "<=" | ">" | ">=";
+type SortDirection = "asc" | "desc";
+
+interface SelectedColumn {
+  ref: string;
+  alias: string;
+  type: ColumnType | "count";
+}
+
+interface QueryState {
+  from: TableName;
+  joins: { kind: "INNER" | "LEFT"; table: TableName; on: [string, string] }[];
+  columns: SelectedColumn[];
+  conditions: { sql: string; params: unknown[] }[];
+  groupBy: string[];
+  orderBy: string[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface CompiledQuery {
+  sql: string;
+  params: unknown[];
+  // Set when the query touches a table that is never copied on-device
+  remoteOnly: boolean;
+}
+
+export interface SelectQuery<S extends TableName, R> {
+  select<T extends S, C extends ColumnName<T>>(
+    table: T,
+    columns: readonly C[]
+  ): SelectQuery<S, R & Pick<QuranRow<T>, C>>;
+  selectAll<T extends S>(table: T): SelectQuery<S, R & QuranRow<T>>;
+  count<A extends string>(
+    alias: A,
+    ref: ColumnRef<S>
+  ): SelectQuery<S, R & Record<A, number>>;
+  join<J extends TableName>(
+    table: J,
+    on: [ColumnRef<S>, ColumnName<J>],
+    kind?: "inner" | "left"
+  ): SelectQuery<S | J, R>;
+  where<F extends ColumnRef<S>>(
+    ref: F,
+    operator: ComparisonOperator,
+    value: ColumnRefValue<F>
+  ): SelectQuery<S, R>;
+  whereIn<F extends ColumnRef<S>>(
+    ref: F,
+    values: readonly ColumnRefValue<F>[]
+  ): SelectQuery<S, R>;
+  groupBy(ref: ColumnRef<S>): SelectQuery<S, R>;
+  orderBy(ref: ColumnRef<S>, direction?: SortDirection): SelectQuery<S, R>;
+  limit(count: number): SelectQuery<S, R>;
+  offset(count: number): SelectQuery<S, R>;
+  compile(): CompiledQuery;
+  execute(options?: RequestOptions): Promise<QueryResult<R[]>>;
+}
+
+const columnType = (ref: string): ColumnType => {
+  const [table, column] = ref.split(".") as [TableName, string];
+  return getTableDefinition(table).columns[column];
+};
+
+// Normalize driver differences (SQLite booleans are 0/1, some remote drivers
+// return numeric columns as strings) so local and remote rows look identical
+const decodeValue = (value: unknown, type: SelectedColumn["type"]): unknown => {
+  if (value === null || value === undefined) {
+    return type === "count" ? 0 : null;
+  }
+  switch (type) {
+    case "boolean":
+      return typeof value === "boolean" ? value : Number(value) === 1;
+    case "integer":
+    case "count":
+      return typeof value === "number" ? value : Number(value);
+    default:
+      return value;
+  }
+};
+
+const compileState = (state: QueryState): CompiledQuery => {
+  const tables = [state.from, ...state.joins.map((join) => join.table)];
+
+  // Rows are keyed by alias, so two columns with the same name from joined
+  // tables would silently overwrite each other
+  const aliases = new Set<string>();
+  state.columns.forEach((column) => {
+    if (aliases.has(column.alias)) {
+      throw new Error(`Column "${column.alias}" is selected more than once (${column.ref})`);
+    }
+    aliases.add(column.alias);
+  });
+
+  const columns =
+    state.columns.length > 0
+      ? state.columns
+          .map((column) =>
+            column.type === "count"
+              ? `COUNT(${column.ref}) AS ${column.alias}`
+              : `${column.ref} AS ${column.alias}`
+          )
+          .join(", ")
+      : "*";
+
+  const clauses = [`SELECT ${columns}`, `FROM ${state.from}`];
+  state.joins.forEach((join) => {
+    clauses.push(`${join.kind} JOIN ${join.table} ON ${join.on[0]} = ${join.on[1]}`);
+  });
+  if (state.conditions.length > 0) {
+    clauses.push(`WHERE ${state.conditions.map((c) => c.sql).join(" AND ")}`);
+  }
+  if (state.groupBy.length > 0) {
+    clauses.push(`GROUP BY ${state.groupBy.join(", ")}`);
+  }
+  if (state.orderBy.length > 0) {
+    clauses.push(`ORDER BY ${state.orderBy.join(", ")}`);
+  }
+
+  const params = state.conditions.flatMap((c) => c.params);
+  if (state.limit !== undefined) {
+    clauses.push("LIMIT ?");
+    params.push(state.limit);
+  } else if (state.offset !== undefined) {
+    // SQLite only accepts OFFSET after a LIMIT; -1 means no limit
+    clauses.push("LIMIT -1");
+  }
+  if (state.offset !== undefined) {
+    clauses.push("OFFSET ?");
+    params.push(state.offset);
+  }
+
+  return {
+    sql: clauses.join("\n"),
+    params,
+    remoteOnly: tables.some((table) => getTableDefinition(table).remoteOnly),
+  };
+};
+
+const createQuery = <S extends TableName, R>(
+  state: QueryState
+): SelectQuery<S, R> => {
+  const next = <S2 extends TableName, R2>(changes: Partial<QueryState>) =>
+    createQuery<S2, R2>({ ...state, ...changes });
+
+  return {
+    select: (table, columns) =>
+      next({
+        columns: [
+          ...state.columns,
+          ...columns.map((column) => {
+            const ref = `${table}.${column}`;
+            return { ref, alias: column, type: columnType(ref) };
+          }),
+        ],
+      }),
+    selectAll: (table) =>
+      next({
+        columns: [
+          ...state.columns,
+          ...Object.entries(getTableDefinition(table).columns).map(
+            ([column, type]) => ({ ref: `${table}.${column}`, alias: column, type })
+          ),
+        ],
+      }),
+    count: (alias, ref) =>
+      next({ columns: [...state.columns, { ref, alias, type: "count" }] }),
+    join: (table, on, kind = "inner") =>
+      next({
+        joins: [
+          ...state.joins,
+          {
+            kind: kind === "left" ? "LEFT" : "INNER",
+            table,
+            on: [on[0], `${table}.${on[1]}`],
+          },
+        ],
+      }),
+    where: (ref, operator, value) =>
+      next({
+        conditions: [...state.conditions, { sql: `${ref} ${operator} ?`, params: [value] }],
+      }),
+    whereIn: (ref, values) =>
+      next({
+        conditions: [
+          ...state.conditions,
+          values.length === 0
+            ? { sql: "1 = 0", params: [] }
+            : {
+                sql: `${ref} IN (${values.map(() => "?").join(", ")})`,
+                params: [...values],
+              },
+        ],
+      }),
+    groupBy: (ref) => next({ groupBy: [...state.groupBy, ref] }),
+    orderBy: (ref, direction = "asc") =>
+      next({
+        orderBy: [...state.orderBy, direction === "desc" ? `${ref} DESC` : ref],
+      }),
+    limit: (count) => next({ limit: count }),
+    offset: (count) => next({ offset: count }),
+    compile: () => compileState(state),
+    execute: async (options = {}) => {
+      const { sql, params, remoteOnly } = compileState(state);
+      const result = await executeQuranQuery<Record<string, unknown>[]>(sql, params, {
+        ...options,
+        remoteOnly,
+      });
+      if (!result.success || !result.data) {
+        return { ...result, data: null };
+      }
+
+      if (state.columns.length === 0) {
+        return { ...result, data: result.data as R[] };
+      }
+
+      const rows = result.data.map((row) => {
+        const decoded: Record<string, unknown> = {};
+        state.columns.forEach((column) => {
+          decoded[column.alias] = decodeValue(row[column.alias], column.type);
+        });
+        return decoded as R;
+      });
+      return { ...result, data: rows };
+    },
+  };
+};
+
+/**
+ * Starts a typed SELECT query
+ * @param table - Table to select from
+ * @returns A query builder scoped to the table
+ */
+export function from<T extends TableName>(table: T): SelectQuery<T, {}> {
+  return createQuery<T, {}>({
+    from: table,
+    joins: [],
+    columns: [],
+    conditions: [],
+    groupBy: [],
+    orderBy: [],
+  });
+}
@@ -0,0 +1,130 @@
+// Quran Repeat Plan - Verse and range repetition for memorisation (hifz)
+//
+// A plan walks a verse range pass by pass. Each verse plays `verseRepeats`
+// times before the next, and the whole pass plays `rangeRepeats` times. With
+// build-up, the passes grow one verse at a time (1, 1-2, 1-3, ...) until they
+// cover the range. Positions are worked out one step at a time, so long ranges
+// never need the whole sequence in memory.
+
+export interface RepeatSettings {
+  verseRepeats: number;
+  rangeRepeats: number;
+  // Silence between repetitions, in seconds
+  gapSeconds: number;
+  buildUp: boolean;
+}
+
+export interface RepeatPlan extends RepeatSettings {
+  surahId: number;
+  startVerse: number;
+  endVerse: number;
+}
+
+export interface RepeatPosition {
+  verseNumber: number;
+  // 1-based counts within the current verse and pass
+  verseRepetition: number;
+  rangeRepetition: number;
+  // Last verse of the current pass; the range end unless building up
+  passEnd: number;
+}
+
+export const MAX_REPEATS = 20;
+export const MAX_GAP_SECONDS = 10;
+
+export const DEFAULT_REPEAT_SETTINGS: RepeatSettings = {
+  verseRepeats: 3,
+  rangeRepeats: 1,
+  gapSeconds: 1,
+  buildUp: false,
+};
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, Math.round(value)));
+
+// Keeps stored or synced settings within what the controls offer
+export const normalizeRepeatSettings = (settings: RepeatSettings): RepeatSettings => ({
+  verseRepeats: clamp(settings.verseRepeats, 1, MAX_REPEATS),
+  rangeRepeats: clamp(settings.rangeRepeats, 1, MAX_REPEATS),
+  gapSeconds: clamp(settings.gapSeconds, 0, MAX_GAP_SECONDS),
+  buildUp: settings.buildUp,
+});
+
+// ============= Stepping =============
+
+export const getFirstRepeatPosition = (plan: RepeatPlan): RepeatPosition => ({
+  verseNumber: plan.startVerse,
+  verseRepetition: 1,
+  rangeRepetition: 1,
+  passEnd: plan.buildUp ? plan.startVerse : plan.endVerse,
+});
+
+// The step after `position`, or null once the plan is complete
+export const getNextRepeatPosition = (
+  plan: RepeatPlan,
+  position: RepeatPosition
+): RepeatPosition | null => {
+  if (position.verseRepetition < plan.verseRepeats) {
+    return { ...position, verseRepetition: position.verseRepetition + 1 };
+  }
+  if (position.verseNumber < position.passEnd) {
+    return { ...position, verseNumber: position.verseNumber + 1, verseRepetition: 1 };
+  }
+  if (position.rangeRepetition < plan.rangeRepeats) {
+    return {
+      ...position,
+      verseNumber: plan.startVerse,
+      verseRepetition: 1,
+      rangeRepetition: position.rangeRepetition + 1,
+    };
+  }
+  if (plan.buildUp && position.passEnd < plan.endVerse) {
+    return {
+      verseNumber: plan.startVerse,
+      verseRepetition: 1,
+      rangeRepetition: 1,
+      passEnd: position.passEnd + 1,
+    };
+  }
+  return null;
+};
+
+// Whether moving between the steps goes back in the recitation rather than
+// carrying on into the next verse, which is where the gap is inserted
+export const isRepeatRestart = (position: RepeatPosition, next: RepeatPosition): boolean =>
+  next.verseNumber !== position.verseNumber + 1;
+
+// Number of passes, counting each build-up step
+export const getRepeatPassCount = (plan: RepeatPlan): number =>
+  plan.buildUp ? plan.endVerse - plan.startVerse + 1 : 1;
+
+// ============= Skipping =============
+
+// First step of the next verse the plan plays, passing over the rest of the
+// current verse's repetitions, or null when the plan has nothing after it
+export const getNextVersePosition = (
+  plan: RepeatPlan,
+  position: RepeatPosition
+): RepeatPosition | null => {
+  let next = getNextRepeatPosition(plan, position);
+  while (
+    next &&
+    next.verseNumber === position.verseNumber &&
+    next.rangeRepetition === position.rangeRepetition &&
+    next.passEnd === position.passEnd
+  ) {
+    next = getNextRepeatPosition(plan, next);
+  }
+  return next;
+};
+
+// First repetition of the verse before in the current pass; at the start of a
+// pass, the current verse from its first repetition
+export const getPreviousVersePosition = (
+  plan: RepeatPlan,
+  position: RepeatPosition
+): RepeatPosition => ({
+  ...position,
+  verseNumber: Math.max(plan.startVerse, position.verseNumber - 1),
+  verseRepetition: 1,
+});
@@ -0,0 +1,406 @@
+// Quran Repository - Typed read API over the Quran content tables
+
+import { from } from "./quranQuery";
+import {
+  ApiChapterLocalization,
+  ApiFootnote,
+  ApiFootnoteTranslation,
+  ApiSurah,
+  ApiTheme,
+  ApiThemeCategory,
+  ApiThemeCategoryLocalization,
+  ApiThemeLocalization,
+  ApiThemeVerse,
+  ApiTranslation,
+  ApiVerse,
+  ApiVerseTranslation,
+  ApiVerseChapterFields,
+  ApiVerseWord,
+  ApiWordGloss,
+  QueryResult,
+  RequestOptions,
+} from "./quranApi";
+
+type ChapterVerse = ApiVerse & ApiVerseChapterFields;
+
+const CHAPTER_FIELDS = [
+  "name_english",
+  "name_spanish",
+  "name_transliteration",
+  "name_arabic",
+  "number_of_verses",
+  "revelation_type",
+  "bismillah_prefix",
+  "introduction_english",
+  "introduction_spanish",
+  "pages",
+] as const;
+
+const THEME_VERSE_FIELDS = [
+  "verse_key",
+  "text_english",
+  "text_spanish",
+  "text_uthmani",
+  "text_indopak",
+  "chapter_number",
+  "verse_number",
+  "page_number",
+] as const;
+
+// Verses with their chapter metadata joined
+const versesWithChapter = () =>
+  from("Verses")
+    .join("Chapters", ["Verses.chapter_number", "id"])
+    .selectAll("Verses")
+    .select("Chapters", CHAPTER_FIELDS);
+
+const chapters = {
+  // All surahs in order
+  all: (options: RequestOptions = {}): Promise<QueryResult<ApiSurah[]>> =>
+    from("Chapters").selectAll("Chapters").orderBy("Chapters.id").execute(options),
+
+  paginated: (
+    pageSize: number,
+    pageIndex: number,
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiSurah[]>> =>
+    from("Chapters")
+      .selectAll("Chapters")
+      .orderBy("Chapters.id")
+      .limit(pageSize)
+      .offset(pageIndex * pageSize)
+      .execute(options),
+
+  // Names and introductions of every surah in the languages that have them
+  localizations: (
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiChapterLocalization[]>> =>
+    from("ChapterLocalizations")
+      .selectAll("ChapterLocalizations")
+      .orderBy("ChapterLocalizations.chapter_id")
+      .execute(options),
+};
+
+const verses = {
+  // A whole surah with chapter metadata joined
+  byChapter: (
+    chapterNumber: number,
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ChapterVerse[]>> =>
+    versesWithChapter()
+      .where("Verses.chapter_number", "=", chapterNumber)
+      .orderBy("Verses.page_number")
+      .orderBy("Verses.verse_number")
+      .execute(options),
+
+  // An inclusive verse range within a surah
+  byRange: (
+    chapterNumber: number,
+    startVerse: number,
+    endVerse: number,
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ChapterVerse[]>> =>
+    versesWithChapter()
+      .where("Verses.chapter_number", "=", chapterNumber)
+      .where("Verses.verse_number", ">=", startVerse)
+      .where("Verses.verse_number", "<=", endVerse)
+      .orderBy("Verses.verse_number")
+      .execute(options),
+
+  // Every verse on a mushaf page
+  byPage: (
+    pageNumber: number,
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiVerse[]>> =>
+    from("Verses")
+      .join("Chapters", ["Verses.chapter_number", "id"])
+      .selectAll("Verses")
+      .select("Chapters", [
+        "name_english",
+        "name_spanish",
+        "name_transliteration",
+        "name_arabic",
+        "bismillah_prefix",
+      ])
+      .where("Verses.page_number", "=", pageNumber)
+      .orderBy("Verses.chapter_number")
+      .orderBy("Verses.verse_number")
+      .execute(options),
+
+  byChapterPaginated: (
+    chapterNumber: number,
+    pageSize: number,
+    pageIndex: number,
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ChapterVerse[]>> =>
+    versesWithChapter()
+      .where("Verses.chapter_number", "=", chapterNumber)
+      .orderBy("Verses.page_number")
+      .orderBy("Verses.verse_number")
+      .limit(pageSize)
+      .offset(pageIndex * pageSize)
+      .execute(options),
+
+  // Verses belonging to any of the given themes, tagged with their theme
+  byThemes: (
+    themeIds: number[],
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiThemeVerse[]>> =>
+    from("Verses")
+      .join("ThemeVerses", ["Verses.verse_key", "verse_key"])
+      .select("Verses", THEME_VERSE_FIELDS)
+      .select("ThemeVerses", ["theme_id"])
+      .whereIn("ThemeVerses.theme_id", themeIds)
+      .orderBy("ThemeVerses.theme_id")
+      .orderBy("Verses.chapter_number")
+      .orderBy("Verses.verse_number")
+      .execute(options),
+};
+
+const translations = {
+  // The translation registry, grouped by language
+  all: (options: RequestOptions = {}): Promise<QueryResult<ApiTranslation[]>> =>
+    from("Translations")
+      .selectAll("Translations")
+      .orderBy("Translations.language_code")
+      .orderBy("Translations.name")
+      .execute(options),
+
+  // Text of the given translations for every verse in a surah
+  byChapter: async (
+    chapterNumber: number,
+    translationIds: string[],
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiVerseTranslation[]>> => {
+    if (translationIds.length === 0) {
+      return { success: true, data: [], count: 0 };
+    }
+    return from("VerseTranslations")
+      .join("Verses", ["VerseTranslations.verse_key", "verse_key"])
+      .selectAll("VerseTranslations")
+      .where("Verses.chapter_number", "=", chapterNumber)
+      .whereIn("VerseTranslations.translation_id", translationIds)
+      .orderBy("Verses.verse_number")
+      .execute(options);
+  },
+};
+
+const themes = {
+  byChapter: (
+    chapterNumber: number,
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiTheme[]>> =>
+    from("Themes")
+      .selectAll("Themes")
+      .where("Themes.chapter_number", "=", chapterNumber)
+      .orderBy("Themes.start_verse")
+      .execute(options),
+
+  byCategory: (
+    categoryId: number,
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiTheme[]>> =>
+    from("Themes")
+      .join("ThemeCategoryMap", ["Themes.id", "theme_id"])
+      .selectAll("Themes")
+      .where("ThemeCategoryMap.category_id", "=", categoryId)
+      .orderBy("Themes.chapter_number")
+      .orderBy("Themes.start_verse")
+      .execute(options),
+
+  // Themes in reading order, wherever they are in the Quran
+  byIds: async (
+    themeIds: number[],
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiTheme[]>> => {
+    if (themeIds.length === 0) {
+      return { success: true, data: [], count: 0 };
+    }
+    return from("Themes")
+      .selectAll("Themes")
+      .whereIn("Themes.id", themeIds)
+      .orderBy("Themes.chapter_number")
+      .orderBy("Themes.start_verse")
+      .execute(options);
+  },
+
+  countVerses: (
+    themeId: number,
+    options: RequestOptions = {}
+  ): Promise<QueryResult<{ count: number }[]>> =>
+    from("ThemeVerses")
+      .count("count", "ThemeVerses.verse_key")
+      .where("ThemeVerses.theme_id", "=", themeId)
+      .execute(options),
+
+  // Verse count of every theme in a category that has verses, in one query
+  verseCountsByCategory: (
+    categoryId: number,
+    options: RequestOptions = {}
+  ): Promise<QueryResult<{ theme_id: number; count: number }[]>> =>
+    from("ThemeVerses")
+      .join("ThemeCategoryMap", ["ThemeVerses.theme_id", "theme_id"])
+      .select("ThemeVerses", ["theme_id"])
+      .count("count", "ThemeVerses.verse_key")
+      .where("ThemeCategoryMap.category_id", "=", categoryId)
+      .groupBy("ThemeVerses.theme_id")
+      .execute(options),
+
+  localizationsByIds: async (
+    themeIds: number[],
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiThemeLocalization[]>> => {
+    if (themeIds.length === 0) {
+      return { success: true, data: [], count: 0 };
+    }
+    return from("ThemeLocalizations")
+      .selectAll("ThemeLocalizations")
+      .whereIn("ThemeLocalizations.theme_id", themeIds)
+      .execute(options);
+  },
+
+  localizationsByCategory: (
+    categoryId: number,
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiThemeLocalization[]>> =>
+    from("ThemeLocalizations")
+      .join("ThemeCategoryMap", ["ThemeLocalizations.theme_id", "theme_id"])
+      .selectAll("ThemeLocalizations")
+      .where("ThemeCategoryMap.category_id", "=", categoryId)
+      .execute(options),
+};
+
+const themeCategories = {
+  // All categories with the number of themes in each
+  all: (options: RequestOptions = {}): Promise<QueryResult<ApiThemeCategory[]>> =>
+    from("ThemeCategories")
+      .join("ThemeCategoryMap", ["ThemeCategories.id", "category_id"], "left")
+      .selectAll("ThemeCategories")
+      .count("theme_count", "ThemeCategoryMap.theme_id")
+      .groupBy("ThemeCategories.id")
+      .orderBy("ThemeCategories.id")
+      .execute(options),
+
+  localizations: (
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiThemeCategoryLocalization[]>> =>
+    from("ThemeCategoryLocalizations")
+      .selectAll("ThemeCategoryLocalizations")
+      .execute(options),
+};
+
+const footnotes = {
+  byId: (
+    footnoteId: number,
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiFootnote[]>> =>
+    from("Footnotes")
+      .selectAll("Footnotes")
+      .where("Footnotes.id", "=", footnoteId)
+      .execute(options),
+
+  // Every footnote attached to a verse of the surah
+  byChapter: (
+    chapterNumber: number,
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiFootnote[]>> =>
+    from("Footnotes")
+      .join("Verses", ["Footnotes.verse_key", "verse_key"])
+      .selectAll("Footnotes")
+      .where("Verses.chapter_number", "=", chapterNumber)
+      .execute(options),
+
+  // Every footnote attached to the given verses, whichever translation cites it
+  byVerseKeys: async (
+    verseKeys: string[],
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiFootnote[]>> => {
+    if (verseKeys.length === 0) {
+      return { success: true, data: [], count: 0 };
+    }
+    return from("Footnotes")
+      .selectAll("Footnotes")
+      .whereIn("Footnotes.verse_key", verseKeys)
+      .execute(options);
+  },
+
+  byIds: async (
+    footnoteIds: number[],
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiFootnote[]>> => {
+    if (footnoteIds.length === 0) {
+      return { success: true, data: [], count: 0 };
+    }
+    return from("Footnotes")
+      .selectAll("Footnotes")
+      .whereIn("Footnotes.id", footnoteIds)
+      .execute(options);
+  },
+
+  // How each registry translation words the given footnotes
+  translationsByIds: async (
+    footnoteIds: number[],
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiFootnoteTranslation[]>> => {
+    if (footnoteIds.length === 0) {
+      return { success: true, data: [], count: 0 };
+    }
+    return from("FootnoteTranslations")
+      .selectAll("FootnoteTranslations")
+      .whereIn("FootnoteTranslations.footnote_id", footnoteIds)
+      .execute(options);
+  },
+};
+
+const words = {
+  // Word-level data for every verse of the surah, in reading order
+  byChapter: (
+    chapterNumber: number,
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiVerseWord[]>> =>
+    from("VerseWords")
+      .join("Verses", ["VerseWords.verse_key", "verse_key"])
+      .selectAll("VerseWords")
+      .where("Verses.chapter_number", "=", chapterNumber)
+      .orderBy("Verses.verse_number")
+      .orderBy("VerseWords.position")
+      .execute(options),
+
+  // Glosses in one language for every word of the surah
+  glossesByChapter: (
+    chapterNumber: number,
+    languageCode: string,
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiWordGloss[]>> =>
+    from("WordGlosses")
+      .join("Verses", ["WordGlosses.verse_key", "verse_key"])
+      .selectAll("WordGlosses")
+      .where("Verses.chapter_number", "=", chapterNumber)
+      .where("WordGlosses.language_code", "=", languageCode)
+      .execute(options),
+
+  // Every word on a mushaf page, line by line in reading order
+  byPage: (
+    pageNumber: number,
+    options: RequestOptions = {}
+  ): Promise<QueryResult<ApiVerseWord[]>> =>
+    from("VerseWords")
+      .join("Verses", ["VerseWords.verse_key", "verse_key"])
+      .selectAll("VerseWords")
+      .where("VerseWords.page_number", "=", pageNumber)
+      .orderBy("VerseWords.line_number")
+      .orderBy("Verses.chapter_number")
+      .orderBy("Verses.verse_number")
+      .orderBy("VerseWords.position")
+      .execute(options),
+};
+
+export const quranRepository = {
+  chapters,
+  verses,
+  words,
+  translations,
+  themes,
+  themeCategories,
+  footnotes,
+};
@@ -0,0 +1,254 @@
+// Quran Schema - Single source of truth for the Quran content tables.
+// Row types, the query builder and the local SQLite copy are all derived from it,
+// so renaming a column here surfaces every affected query as a type error.
+
+export type ColumnType = "integer" | "text" | "nullableText" | "boolean";
+
+interface ColumnTypeMap {
+  integer: number;
+  text: string;
+  nullableText: string | null;
+  boolean: boolean;
+}
+
+export interface TableDefinition {
+  columns: Record<string, ColumnType>;
+  primaryKey: readonly string[];
+  indexes?: readonly (readonly string[])[];
+  // Tables that only exist on the server and are never copied on-device
+  remoteOnly?: boolean;
+}
+
+export const quranSchema = {
+  Chapters: {
+    columns: {
+      id: "integer",
+      name_english: "text",
+      name_spanish: "text",
+      name_arabic: "text",
+      name_transliteration: "text",
+      number_of_verses: "integer",
+      revelation_type: "text",
+      bismillah_prefix: "boolean",
+      introduction_english: "nullableText",
+      introduction_spanish: "nullableText",
+      pages: "nullableText",
+    },
+    primaryKey: ["id"],
+  },
+  // Surah names and introductions in languages beyond the built-in columns,
+  // keyed by ISO 639-1 code
+  ChapterLocalizations: {
+    columns: {
+      chapter_id: "integer",
+      language_code: "text",
+      name: "text",
+      introduction: "nullableText",
+    },
+    primaryKey: ["chapter_id", "language_code"],
+  },
+  Verses: {
+    columns: {
+      verse_key: "text",
+      chapter_number: "integer",
+      verse_number: "integer",
+      page_number: "integer",
+      // Rub' al-hizb (1-240) and ruku' (1-556) the verse belongs to
+      rub_number: "integer",
+      ruku_number: "integer",
+      text_english: "text",
+      text_spanish: "text",
+      text_uthmani: "text",
+      text_indopak: "text",
+      text_uthmani_tajweed: "nullableText",
+    },
+    primaryKey: ["verse_key"],
+    indexes: [["chapter_number", "verse_number"], ["page_number"]],
+  },
+  Themes: {
+    columns: {
+      id: "integer",
+      theme_name_english: "text",
+      theme_name_spanish: "text",
+      chapter_number: "integer",
+      start_verse: "integer",
+      end_verse: "integer",
+    },
+    primaryKey: ["id"],
+    indexes: [["chapter_number", "start_verse"]],
+  },
+  ThemeLocalizations: {
+    columns: {
+      theme_id: "integer",
+      language_code: "text",
+      name: "text",
+    },
+    primaryKey: ["theme_id", "language_code"],
+  },
+  ThemeVerses: {
+    columns: {
+      theme_id: "integer",
+      verse_key: "text",
+    },
+    primaryKey: ["theme_id", "verse_key"],
+    indexes: [["verse_key"]],
+  },
+  ThemeCategories: {
+    columns: {
+      id: "integer",
+      name: "text",
+      name_spanish: "text",
+      icon_name: "text",
+    },
+    primaryKey: ["id"],
+  },
+  ThemeCategoryLocalizations: {
+    columns: {
+      category_id: "integer",
+      language_code: "text",
+      name: "text",
+    },
+    primaryKey: ["category_id", "language_code"],
+  },
+  ThemeCategoryMap: {
+    columns: {
+      category_id: "integer",
+      theme_id: "integer",
+    },
+    primaryKey: ["category_id", "theme_id"],
+    indexes: [["theme_id"]],
+  },
+  Footnotes: {
+    columns: {
+      id: "integer",
+      text_english: "text",
+      text_spanish: "text",
+      verse_key: "text",
+    },
+    primaryKey: ["id"],
+    indexes: [["verse_key"]],
+  },
+  // Footnote text as each registry translation words it. Footnote ids in a
+  // translation's verse text refer to Footnotes.id
+  FootnoteTranslations: {
+    columns: {
+      footnote_id: "integer",
+      translation_id: "text",
+      text: "text",
+    },
+    primaryKey: ["footnote_id", "translation_id"],
+    indexes: [["translation_id"]],
+  },
+  // Registry of verse translations; new translations are added as rows here
+  Translations: {
+    columns: {
+      id: "text",
+      name: "text",
+      language_code: "text",
+      language_name: "text",
+      direction: "text",
+      translator: "text",
+      copyright: "nullableText",
+    },
+    primaryKey: ["id"],
+    indexes: [["language_code"]],
+  },
+  VerseTranslations: {
+    columns: {
+      translation_id: "text",
+      verse_key: "text",
+      text: "text",
+    },
+    primaryKey: ["translation_id", "verse_key"],
+    indexes: [["verse_key"]],
+  },
+  // Morphology, transliteration and gloss of each word of text_uthmani; position
+  // is the 1-based index of the word when the verse text is split on spaces.
+  // page_number and line_number place the word in the 15-line Madani mushaf
+  VerseWords: {
+    columns: {
+      verse_key: "text",
+      position: "integer",
+      page_number: "integer",
+      line_number: "integer",
+      text_uthmani: "text",
+      root: "nullableText",
+      lemma: "nullableText",
+      part_of_speech: "nullableText",
+      transliteration: "nullableText",
+      gloss_english: "nullableText",
+      gloss_spanish: "nullableText",
+    },
+    primaryKey: ["verse_key", "position"],
+    indexes: [["root"], ["lemma"], ["page_number", "line_number"]],
+  },
+  // Word glosses in languages beyond the built-in columns of VerseWords
+  WordGlosses: {
+    columns: {
+      verse_key: "text",
+      position: "integer",
+      language_code: "text",
+      gloss: "text",
+    },
+    primaryKey: ["verse_key", "position", "language_code"],
+    indexes: [["language_code", "verse_key"]],
+  },
+  ContentVersions: {
+    columns: {
+      version: "integer",
+      published_at: "nullableText",
+    },
+    primaryKey: ["version"],
+    remoteOnly: true,
+  },
+  ContentChanges: {
+    columns: {
+      id: "integer",
+      version: "integer",
+      table_name: "text",
+      operation: "text",
+      row_key: "text",
+      row_data: "nullableText",
+    },
+    primaryKey: ["id"],
+    remoteOnly: true,
+  },
+} as const satisfies Record<string, TableDefinition>;
+
+export type QuranSchema = typeof quranSchema;
+export type TableName = keyof QuranSchema;
+export type ColumnName<T extends TableName> = keyof QuranSchema[T]["columns"] & string;
+
+export type QuranRow<T extends TableName> = {
+  -readonly [C in ColumnName<T>]: ColumnTypeMap[QuranSchema[T]["columns"][C] & ColumnType];
+};
+
+// Fully qualified column reference, e.g. "Verses.chapter_number"
+export type ColumnRef<T extends TableName> = {
+  [K in T]: `${K}.${ColumnName<K>}`;
+}[T];
+
+export type ColumnRefValue<R extends string> =
+  R extends `${infer T}.${infer C}`
+    ? T extends TableName
+      ? C extends ColumnName<T>
+        ? QuranRow<T>[C]
+        : never
+      : never
+    : never;
+
+export type LocalTableName = {
+  [T in TableName]: QuranSchema[T] extends { remoteOnly: true } ? never : T;
+}[TableName];
+
+export const TABLE_NAMES = Object.keys(quranSchema) as TableName[];
+
+export const LOCAL_TABLE_NAMES = TABLE_NAMES.filter(
+  (name) => !(quranSchema[name] as TableDefinition).remoteOnly
+) as LocalTableName[];
+
+export const getTableDefinition = (table: TableName): TableDefinition =>
+  quranSchema[table];
+
+export const isLocalTable = (table: string): table is LocalTableName =>
+  (LOCAL_TABLE_NAMES as string[]).includes(table);
@@ -0,0 +1,450 @@
+// Quran Search - Offline full-text search over the local Quran store
+
+import { QueryResult } from "./quranApi";
+import {
+  enqueueWrite,
+  getLocalContentVersion,
+  getLocalMeta,
+  getQuranDatabase,
+  setLocalMeta,
+} from "./quranDatabase";
+import { LOCAL_SCHEMA_VERSION } from "./quranStoreFormat";
+import { toQuranQueryError } from "./quranErrors";
+import {
+  normalizeSearchText,
+  toArabicLetters,
+  tokenizeSearchQuery,
+} from "../utils/searchText";
+
+const SEARCH_TABLE = "_search_index";
+const SEARCH_INDEX_KEY = "search_index_version";
+// Bump when normalization or the indexed content changes
+const SEARCH_INDEX_FORMAT = 1;
+const DEFAULT_RESULT_LIMIT = 50;
+
+export type SearchResultKind = "verse" | "footnote" | "theme";
+
+// bm25 scores are negative (lower is better), so a larger weight ranks higher
+const KIND_WEIGHTS: Record<SearchResultKind, number> = {
+  theme: 1.5,
+  verse: 1,
+  footnote: 0.6,
+};
+
+export interface SearchHit {
+  kind: SearchResultKind;
+  verseKey: string;
+  // The original text that matched, before normalization
+  text: string;
+  // "ar" for the Arabic text, otherwise the translation's language code
+  language: string;
+  translationId: string | null;
+  score: number;
+}
+
+export interface SearchOptions {
+  // Translation languages to search alongside the Arabic, e.g. ["en"]
+  languages: string[];
+  // Registry translations to search alongside the built-in ones
+  translationIds?: string[];
+  limit?: number;
+}
+
+// Verse containing words from a root or lemma search
+export interface WordMatch {
+  verseKey: string;
+  surahNumber: number;
+  verseNumber: number;
+  // The verse's text_uthmani
+  text: string;
+  // 1-based positions of the matched words in `text`
+  positions: number[];
+}
+
+// Every occurrence of one lemma, with the surface forms it takes
+export interface LemmaGroup {
+  lemma: string;
+  root: string | null;
+  forms: { form: string; count: number }[];
+  occurrences: number;
+  verses: WordMatch[];
+}
+
+interface IndexRow {
+  kind: SearchResultKind;
+  verse_key: string;
+  language: string;
+  translation_id: string | null;
+  source: string;
+  score: number;
+}
+
+// ============= Index =============
+
+// The index is rebuilt whenever the content it was built from changes
+const currentIndexStamp = async (): Promise<string> =>
+  [SEARCH_INDEX_FORMAT, LOCAL_SCHEMA_VERSION, await getLocalContentVersion()].join(":");
+
+const buildSearchIndex = async (stamp: string): Promise<void> => {
+  const db = await getQuranDatabase();
+  await enqueueWrite(() =>
+    db.withTransactionAsync(async () => {
+      await db.execAsync(
+        `DROP TABLE IF EXISTS ${SEARCH_TABLE};
+         CREATE VIRTUAL TABLE ${SEARCH_TABLE} USING fts5(
+           content,
+           kind UNINDEXED,
+           verse_key UNINDEXED,
+           language UNINDEXED,
+           translation_id UNINDEXED,
+           source UNINDEXED,
+           tokenize = "unicode61 remove_diacritics 2"
+         );`
+      );
+
+      const insert = await db.prepareAsync(
+        `INSERT INTO ${SEARCH_TABLE} (content, kind, verse_key, language, translation_id, source)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      );
+      const add = async (
+        kind: SearchResultKind,
+        verseKey: string,
+        language: string,
+        translationId: string | null,
+        source: string | null
+      ) => {
+        if (!source) return;
+        await insert.executeAsync([
+          normalizeSearchText(source),
+          kind,
+          verseKey,
+          language,
+          translationId,
+          source,
+        ]);
+      };
+
+      try {
+        const verses = await db.getAllAsync<{
+          verse_key: string;
+          text_uthmani: string;
+          text_english: string;
+          text_spanish: string;
+        }>("SELECT verse_key, text_uthmani, text_english, text_spanish FROM Verses");
+        for (const verse of verses) {
+          await add("verse", verse.verse_key, "ar", null, verse.text_uthmani);
+          await add("verse", verse.verse_key, "en", null, verse.text_english);
+          await add("verse", verse.verse_key, "es", null, verse.text_spanish);
+        }
+
+        const translations = await db.getAllAsync<{
+          verse_key: string;
+          translation_id: string;
+          language_code: string;
+          text: string;
+        }>(
+          `SELECT VerseTranslations.verse_key, VerseTranslations.translation_id,
+                  Translations.language_code, VerseTranslations.text
+           FROM VerseTranslations
+           INNER JOIN Translations ON Translations.id = VerseTranslations.translation_id`
+        );
+        for (const row of translations) {
+          await add("verse", row.verse_key, row.language_code, row.translation_id, row.text);
+        }
+
+        const footnotes = await db.getAllAsync<{
+          verse_key: string;
+          text_english: string;
+          text_spanish: string;
+        }>("SELECT verse_key, text_english, text_spanish FROM Footnotes");
+        for (const footnote of footnotes) {
+          await add("footnote", footnote.verse_key, "en", null, footnote.text_english);
+          await add("footnote", footnote.verse_key, "es", null, footnote.text_spanish);
+        }
+
+        const footnoteTranslations = await db.getAllAsync<{
+          verse_key: string;
+          translation_id: string;
+          language_code: string;
+          text: string;
+        }>(
+          `SELECT Footnotes.verse_key, FootnoteTranslations.translation_id,
+                  Translations.language_code, FootnoteTranslations.text
+           FROM FootnoteTranslations
+           INNER JOIN Footnotes ON Footnotes.id = FootnoteTranslations.footnote_id
+           INNER JOIN Translations ON Translations.id = FootnoteTranslations.translation_id`
+        );
+        for (const row of footnoteTranslations) {
+          await add("footnote", row.verse_key, row.language_code, row.translation_id, row.text);
+        }
+
+        const themes = await db.getAllAsync<{
+          chapter_number: number;
+          start_verse: number;
+          theme_name_english: string;
+          theme_name_spanish: string;
+        }>(
+          "SELECT chapter_number, start_verse, theme_name_english, theme_name_spanish FROM Themes"
+        );
+        for (const theme of themes) {
+          const verseKey = `${theme.chapter_number}:${theme.start_verse}`;
+          await add("theme", verseKey, "en", null, theme.theme_name_english);
+          await add("theme", verseKey, "es", null, theme.theme_name_spanish);
+        }
+
+        const themeNames = await db.getAllAsync<{
+          chapter_number: number;
+          start_verse: number;
+          language_code: string;
+          name: string;
+        }>(
+          `SELECT Themes.chapter_number, Themes.start_verse,
+                  ThemeLocalizations.language_code, ThemeLocalizations.name
+           FROM ThemeLocalizations
+           INNER JOIN Themes ON Themes.id = ThemeLocalizations.theme_id`
+        );
+        for (const row of themeNames) {
+          const verseKey = `${row.chapter_number}:${row.start_verse}`;
+          await add("theme", verseKey, row.language_code, null, row.name);
+        }
+      } finally {
+        await insert.finalizeAsync();
+      }
+
+      await setLocalMeta(SEARCH_INDEX_KEY, stamp);
+    })
+  );
+};
+
+let indexPromise: Promise<void> | null = null;
+
+// Build the search index on first use and after content updates
+export const ensureSearchIndex = (): Promise<void> => {
+  if (!indexPromise) {
+    indexPromise = (async () => {
+      const stamp = await currentIndexStamp();
+      if ((await getLocalMeta(SEARCH_INDEX_KEY)) !== stamp) {
+        await buildSearchIndex(stamp);
+      }
+    })().finally(() => {
+      indexPromise = null;
+    });
+  }
+  return indexPromise;
+};
+
+// ============= Search =============
+
+const toFailedResult = <T>(error: unknown): QueryResult<T> => {
+  const queryError = toQuranQueryError(error);
+  return {
+    success: false,
+    data: null,
+    count: 0,
+    error: queryError.message,
+    errorKind: queryError.kind,
+  };
+};
+
+// Placeholders for an IN list; an empty list matches nothing
+const inList = (values: unknown[]): string =>
+  values.map(() => "?").join(", ") || "NULL";
+
+// Every term must appear; each is matched as a word prefix
+const toMatchExpression = (terms: string[]): string =>
+  terms.map((term) => `"${term.replace(/"/g, '""')}"*`).join(" ");
+
+/**
+ * Searches verse text in Arabic and the given translations, footnotes and
+ * theme names. Runs entirely against the on-device store, so it works offline.
+ * @returns Hits ranked best first, at most one per kind and verse
+ */
+export async function searchQuran(
+  query: string,
+  { languages, translationIds = [], limit = DEFAULT_RESULT_LIMIT }: SearchOptions
+): Promise<QueryResult<SearchHit[]>> {
+  const terms = tokenizeSearchQuery(query);
+  if (terms.length === 0) {
+    return { success: true, data: [], count: 0 };
+  }
+
+  try {
+    await ensureSearchIndex();
+
+    const db = await getQuranDatabase();
+    // Over-fetch so duplicates across translations can be collapsed
+    const rows = await db.getAllAsync<IndexRow>(
+      `SELECT kind, verse_key, language, translation_id, source,
+              bm25(${SEARCH_TABLE}) AS score
+       FROM ${SEARCH_TABLE}
+       WHERE ${SEARCH_TABLE} MATCH ?
+         AND (language = 'ar'
+              OR (translation_id IS NULL AND language IN (${inList(languages)}))
+              OR translation_id IN (${inList(translationIds)}))
+       ORDER BY score
+       LIMIT ?`,
+      [toMatchExpression(terms), ...languages, ...translationIds, limit * 3]
+    );
+
+    const best = new Map<string, SearchHit>();
+    rows.forEach((row) => {
+      const hit: SearchHit = {
+        kind: row.kind,
+        verseKey: row.verse_key,
+        text: row.source,
+        language: row.language,
+        translationId: row.translation_id,
+        score: row.score * KIND_WEIGHTS[row.kind],
+      };
+      const key = `${row.kind}:${row.verse_key}`;
+      const existing = best.get(key);
+      if (!existing || hit.score < existing.score) {
+        best.set(key, hit);
+      }
+    });
+
+    const hits = [...best.values()]
+      .sort((a, b) => a.score - b.score)
+      .slice(0, limit);
+    return { success: true, data: hits, count: hits.length };
+  } catch (error) {
+    return toFailedResult(error);
+  }
+}
+
+// ============= Root & Lemma Search =============
+
+interface MorphologyTerms {
+  stamp: string;
+  // Raw root and lemma spellings, keyed by their bare normalized letters
+  roots: Map<string, string[]>;
+  lemmas: Map<string, string[]>;
+}
+
+let morphologyTerms: MorphologyTerms | null = null;
+
+const addTerm = (terms: Map<string, string[]>, value: string | null) => {
+  if (!value) return;
+  const key = toArabicLetters(value);
+  const spellings = terms.get(key) ?? [];
+  if (!spellings.includes(value)) {
+    terms.set(key, [...spellings, value]);
+  }
+};
+
+// The few thousand distinct roots and lemmas are matched in memory so that
+// queries can be typed without diacritics or separators
+const loadMorphologyTerms = async (): Promise<MorphologyTerms> => {
+  const stamp = await currentIndexStamp();
+  if (morphologyTerms?.stamp === stamp) {
+    return morphologyTerms;
+  }
+
+  const db = await getQuranDatabase();
+  const rows = await db.getAllAsync<{ root: string | null; lemma: string | null }>(
+    "SELECT DISTINCT root, lemma FROM VerseWords"
+  );
+  const roots = new Map<string, string[]>();
+  const lemmas = new Map<string, string[]>();
+  rows.forEach((row) => {
+    addTerm(roots, row.root);
+    addTerm(lemmas, row.lemma);
+  });
+  morphologyTerms = { stamp, roots, lemmas };
+  return morphologyTerms;
+};
+
+/**
+ * Finds every word derived from an Arabic root (e.g. "ك-ت-ب") or matching a
+ * lemma, using the word-level morphology data.
+ * @returns Occurrences grouped by lemma, most frequent first
+ */
+export async function searchQuranByRoot(
+  query: string
+): Promise<QueryResult<LemmaGroup[]>> {
+  const letters = toArabicLetters(query);
+  if (!letters) {
+    return { success: true, data: [], count: 0 };
+  }
+
+  try {
+    const terms = await loadMorphologyTerms();
+    const roots = terms.roots.get(letters) ?? [];
+    const lemmas = terms.lemmas.get(letters) ?? [];
+    if (roots.length === 0 && lemmas.length === 0) {
+      return { success: true, data: [], count: 0 };
+    }
+
+    const db = await getQuranDatabase();
+    const rows = await db.getAllAsync<{
+      verse_key: string;
+      position: number;
+      form: string;
+      root: string | null;
+      lemma: string | null;
+      verse_text: string;
+      chapter_number: number;
+      verse_number: number;
+    }>(
+      `SELECT VerseWords.verse_key, VerseWords.position, VerseWords.text_uthmani AS form,
+              VerseWords.root, VerseWords.lemma, Verses.text_uthmani AS verse_text,
+              Verses.chapter_number, Verses.verse_number
+       FROM VerseWords
+       INNER JOIN Verses ON Verses.verse_key = VerseWords.verse_key
+       WHERE VerseWords.root IN (${inList(roots)})
+          OR VerseWords.lemma IN (${inList(lemmas)})
+       ORDER BY Verses.chapter_number, Verses.verse_number, VerseWords.position`,
+      [...roots, ...lemmas]
+    );
+
+    const groups = new Map<
+      string,
+      LemmaGroup & { formCounts: Map<string, number>; verseMap: Map<string, WordMatch> }
+    >();
+    rows.forEach((row) => {
+      const lemma = row.lemma ?? row.form;
+      let group = groups.get(lemma);
+      if (!group) {
+        group = {
+          lemma,
+          root: row.root,
+          forms: [],
+          occurrences: 0,
+          verses: [],
+          formCounts: new Map(),
+          verseMap: new Map(),
+        };
+        groups.set(lemma, group);
+      }
+
+      group.occurrences += 1;
+      group.formCounts.set(row.form, (group.formCounts.get(row.form) ?? 0) + 1);
+      const match = group.verseMap.get(row.verse_key);
+      if (match) {
+        match.positions.push(row.position);
+      } else {
+        const verse: WordMatch = {
+          verseKey: row.verse_key,
+          surahNumber: row.chapter_number,
+          verseNumber: row.verse_number,
+          text: row.verse_text,
+          positions: [row.position],
+        };
+        group.verseMap.set(row.verse_key, verse);
+        group.verses.push(verse);
+      }
+    });
+
+    const result: LemmaGroup[] = [...groups.values()]
+      .map(({ formCounts, verseMap, ...group }) => ({
+        ...group,
+        forms: [...formCounts.entries()]
+          .map(([form, count]) => ({ form, count }))
+          .sort((a, b) => b.count - a.count),
+      }))
+      .sort((a, b) => b.occurrences - a.occurrences);
+    return { success: true, data: result, count: result.length };
+  } catch (error) {
+    return toFailedResult(error);
+  }
+}
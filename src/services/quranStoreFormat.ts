@@ -0,0 +1,38 @@
+// Quran Store Format - Layout of the on-device Quran database. The app reads it
+// and scripts/buildQuranDatabase.ts writes the copy bundled with the app, so
+// both take the tables from here.
+
+import { ColumnType, LocalTableName, getTableDefinition } from "./quranSchema";
+
+// Bump whenever the local tables in quranSchema change, and rebuild the bundled
+// copy. Installed copies built for another version are replaced with it.
+export const LOCAL_SCHEMA_VERSION = 6;
+
+const SQLITE_TYPES: Record<ColumnType, string> = {
+  integer: "INTEGER",
+  boolean: "INTEGER",
+  text: "TEXT",
+  nullableText: "TEXT",
+};
+
+export const META_TABLE = "_store_meta";
+export const SCHEMA_VERSION_KEY = "schema_version";
+// Published content version the copy is at, from the ContentVersions table
+export const CONTENT_VERSION_KEY = "content_version";
+
+export const createTableSql = (name: LocalTableName): string => {
+  const table = getTableDefinition(name);
+  const columns = Object.entries(table.columns)
+    .map(([column, type]) => `${column} ${SQLITE_TYPES[type]}`)
+    .join(", ");
+  const indexes = (table.indexes || [])
+    .map(
+      (columnsForIndex) =>
+        `CREATE INDEX IF NOT EXISTS idx_${name}_${columnsForIndex.join("_")}
+         ON ${name} (${columnsForIndex.join(", ")});`
+    )
+    .join("\n");
+
+  return `CREATE TABLE IF NOT EXISTS ${name} (${columns}, PRIMARY KEY (${table.primaryKey.join(", ")}));
+${indexes}`;
+};
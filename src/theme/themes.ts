@@ -1,3 +1,5 @@
+import { TajweedRule } from "../utils/tajweed";
+
 export type ThemeName = "default" | "night" | "sepia" | "contrast";
 
 export interface ThemeColors {
@@ -78,3 +80,80 @@ export const themes: Record<ThemeName, ThemeColors> = {
     mutedForeground: "#333333",
   },
 };
+
+export type TajweedPalette = Record<TajweedRule, string>;
+
+const defaultTajweedPalette: TajweedPalette = {
+  hamzatWasl: "#aaaaaa",
+  silent: "#aaaaaa",
+  laamShamsiyah: "#aaaaaa",
+  maddNormal: "#537fff",
+  maddPermissible: "#4050ff",
+  maddNecessary: "#000ebc",
+  maddObligatory: "#2144c1",
+  qalqalah: "#dd0008",
+  ikhfa: "#9400a8",
+  ikhfaShafawi: "#d500b7",
+  idghamGhunnah: "#169777",
+  idghamNoGhunnah: "#169200",
+  idghamShafawi: "#58b800",
+  idghamMutajanisayn: "#a1a1a1",
+  idghamMutaqaribayn: "#a1a1a1",
+  iqlab: "#26bffd",
+  ghunnah: "#ff7e1e",
+};
+
+// Each palette keeps the conventional hue per rule, adjusted to stay legible
+// against its theme's background
+export const tajweedPalettes: Record<ThemeName, TajweedPalette> = {
+  default: defaultTajweedPalette,
+  night: {
+    ...defaultTajweedPalette,
+    hamzatWasl: "#8a8f98",
+    silent: "#8a8f98",
+    laamShamsiyah: "#8a8f98",
+    maddNormal: "#7d9dff",
+    maddPermissible: "#7a86ff",
+    maddNecessary: "#8f98ff",
+    maddObligatory: "#6c8cff",
+    qalqalah: "#ff5a5f",
+    ikhfa: "#d46be6",
+    ikhfaShafawi: "#ff6ee0",
+    idghamGhunnah: "#3cc9a4",
+    idghamNoGhunnah: "#4fcf3c",
+    idghamShafawi: "#8de04a",
+    idghamMutajanisayn: "#9ca3af",
+    idghamMutaqaribayn: "#9ca3af",
+    iqlab: "#5fd3ff",
+    ghunnah: "#ffa05a",
+  },
+  sepia: {
+    ...defaultTajweedPalette,
+    hamzatWasl: "#9a8a78",
+    silent: "#9a8a78",
+    laamShamsiyah: "#9a8a78",
+    qalqalah: "#b3000a",
+    idghamMutajanisayn: "#8c7f70",
+    idghamMutaqaribayn: "#8c7f70",
+    iqlab: "#0f8fc4",
+    ghunnah: "#d9600a",
+  },
+  contrast: {
+    ...defaultTajweedPalette,
+    hamzatWasl: "#666666",
+    silent: "#666666",
+    laamShamsiyah: "#666666",
+    maddNormal: "#0033cc",
+    maddPermissible: "#1a1aff",
+    qalqalah: "#b00000",
+    ikhfa: "#6b0080",
+    ikhfaShafawi: "#a0008a",
+    idghamGhunnah: "#006b50",
+    idghamNoGhunnah: "#0a6b00",
+    idghamShafawi: "#347000",
+    idghamMutajanisayn: "#5c5c5c",
+    idghamMutaqaribayn: "#5c5c5c",
+    iqlab: "#006f9e",
+    ghunnah: "#c04f00",
+  },
+};
@@ -0,0 +1,76 @@
+import {
+  highlightMatches,
+  normalizeSearchText,
+  toArabicLetters,
+  tokenizeSearchQuery,
+} from "../searchText";
+
+describe("normalizeSearchText", () => {
+  it("lowercases and strips Latin accents", () => {
+    expect(normalizeSearchText("Mūsā and ʿĪsā")).toBe("musa and ʿisa");
+  });
+
+  it("strips Arabic diacritics and folds letter variants", () => {
+    expect(normalizeSearchText("ٱلْحَمْدُ")).toBe("الحمد");
+    expect(normalizeSearchText("رَحْمَة")).toBe("رحمه");
+  });
+
+  it("drops footnote markup", () => {
+    expect(normalizeSearchText('Guide<footnote id="1" number="2">')).toBe("guide");
+  });
+});
+
+describe("tokenizeSearchQuery", () => {
+  it("splits on whitespace and punctuation", () => {
+    expect(tokenizeSearchQuery("  Mercy, (Lord)—guidance… ")).toEqual([
+      "mercy",
+      "lord",
+      "guidance",
+    ]);
+  });
+
+  it("returns nothing for a blank query", () => {
+    expect(tokenizeSearchQuery("  ,, ")).toEqual([]);
+  });
+});
+
+describe("toArabicLetters", () => {
+  it("reduces a hyphenated root to its bare letters", () => {
+    expect(toArabicLetters("ك-ت-ب")).toBe("كتب");
+  });
+
+  it("ignores non-Arabic characters", () => {
+    expect(toArabicLetters("ktb")).toBe("");
+  });
+});
+
+describe("highlightMatches", () => {
+  it("marks words starting with a term, matching accented text", () => {
+    expect(highlightMatches("Then Mūsā said", ["musa"])).toEqual([
+      { text: "Then ", match: false },
+      { text: "Mūsā", match: true },
+      { text: " said", match: false },
+    ]);
+  });
+
+  it("only matches at the start of a word", () => {
+    expect(highlightMatches("Summon", ["mon"])).toEqual([{ text: "Summon", match: false }]);
+  });
+
+  it("keeps the diacritics of the last matched Arabic letter", () => {
+    // رَبِّ matched by the bare رب
+    const text = "رَبِّ ٱل";
+    expect(highlightMatches(text, ["رب"])[0]).toEqual({
+      text: "رَبِّ",
+      match: true,
+    });
+  });
+
+  it("trims long text to a window around the first match", () => {
+    const text = `${"a ".repeat(50)}needle${" b".repeat(50)}`;
+    const segments = highlightMatches(text, ["needle"], 30);
+    expect(segments[0].text.startsWith("…")).toBe(true);
+    expect(segments[segments.length - 1].text.endsWith("…")).toBe(true);
+    expect(segments.find((segment) => segment.match)?.text).toBe("needle");
+  });
+});
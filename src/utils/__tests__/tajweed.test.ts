@@ -0,0 +1,40 @@
+import { TAJWEED_RULES, parseTajweed } from "../tajweed";
+
+describe("parseTajweed", () => {
+  it("splits markup into plain and rule-tagged segments", () => {
+    expect(parseTajweed("بِسْمِ <tajweed class=ham_wasl>ٱ</tajweed>للَّهِ")).toEqual([
+      { text: "بِسْمِ ", rule: null },
+      { text: "ٱ", rule: "hamzatWasl" },
+      { text: "للَّهِ", rule: null },
+    ]);
+  });
+
+  it("accepts span tags and quoted class names", () => {
+    expect(parseTajweed('<span class="ghunnah">نّ</span>')).toEqual([
+      { text: "نّ", rule: "ghunnah" },
+    ]);
+  });
+
+  it("drops the verse-end marker and trailing space", () => {
+    expect(parseTajweed("ٱلْعَـٰلَمِينَ <span class=end>٢</span>")).toEqual([
+      { text: "ٱلْعَـٰلَمِينَ", rule: null },
+    ]);
+  });
+
+  it("treats unknown classes as plain text and merges neighbours", () => {
+    expect(parseTajweed("قَالَ <tajweed class=unknown>لَهُمْ</tajweed>")).toEqual([
+      { text: "قَالَ لَهُمْ", rule: null },
+    ]);
+  });
+
+  it("strips stray tags from the text", () => {
+    expect(parseTajweed("<b>مِن</b>")).toEqual([{ text: "مِن", rule: null }]);
+  });
+});
+
+describe("TAJWEED_RULES", () => {
+  it("lists each rule once", () => {
+    const rules = TAJWEED_RULES.map((entry) => entry.rule);
+    expect(new Set(rules).size).toBe(rules.length);
+  });
+});
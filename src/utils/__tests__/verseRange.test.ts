@@ -0,0 +1,39 @@
+import { formatVerseRange, parseVerseRange } from "../verseRange";
+
+describe("parseVerseRange", () => {
+  it("reads a single verse", () => {
+    expect(parseVerseRange("255")).toEqual({ start: 255, end: 255 });
+  });
+
+  it("reads a range and puts a reversed one in order", () => {
+    expect(parseVerseRange("255-257")).toEqual({ start: 255, end: 257 });
+    expect(parseVerseRange("257-255")).toEqual({ start: 255, end: 257 });
+  });
+
+  it("tolerates surrounding whitespace", () => {
+    expect(parseVerseRange(" 7 ")).toEqual({ start: 7, end: 7 });
+  });
+
+  it("rejects anything else", () => {
+    expect(parseVerseRange(undefined)).toBeNull();
+    expect(parseVerseRange("")).toBeNull();
+    expect(parseVerseRange("0")).toBeNull();
+    expect(parseVerseRange("3-0")).toBeNull();
+    expect(parseVerseRange("2:255")).toBeNull();
+    expect(parseVerseRange("1-2-3")).toBeNull();
+  });
+});
+
+describe("formatVerseRange", () => {
+  it("writes ranges the way links expect", () => {
+    expect(formatVerseRange({ start: 255, end: 255 })).toBe("255");
+    expect(formatVerseRange({ start: 255, end: 257 })).toBe("255-257");
+  });
+
+  it("round-trips with parseVerseRange", () => {
+    expect(parseVerseRange(formatVerseRange({ start: 1, end: 7 }))).toEqual({
+      start: 1,
+      end: 7,
+    });
+  });
+});
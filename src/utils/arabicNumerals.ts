@@ -0,0 +1,13 @@
+const ARABIC_NUMERALS = ["٠", "١", "٢", "٣", "٤", "٥", "٦", "٧", "٨", "٩"];
+
+/**
+ * Converts Western numerals to Arabic-Indic numerals, as used in verse-end
+ * markers and mushaf page numbers.
+ */
+export function toArabicNumeral(num: number): string {
+  return num
+    .toString()
+    .split("")
+    .map((digit) => ARABIC_NUMERALS[parseInt(digit, 10)])
+    .join("");
+}
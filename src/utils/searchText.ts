@@ -0,0 +1,124 @@
+import { stripFootnoteTags } from "./stripFootnoteTags";
+
+// Harakat, Quranic annotation marks, superscript alef and tatweel
+const ARABIC_MARKS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g;
+// Latin accents left behind by NFD decomposition
+const LATIN_MARKS = /[\u0300-\u036f]/g;
+// Anything that is not an Arabic letter
+const ARABIC_NON_LETTERS = /[^\u0621-\u064A\u0671-\u06D3]/g;
+const WORD_SEPARATORS = /[\s.,;:!?"'()[\]{}\u00AB\u00BB\u201C\u201D\u2018\u2019\-\u2013\u2014\u2026\u060C\u061B\u061F\u06DD\uFD3E\uFD3F]+/;
+
+// Hamza carriers, wasla and alef maqsura fold to their base letters
+const ARABIC_LETTER_VARIANTS: Record<string, string> = {
+  "\u0623": "\u0627", // أ
+  "\u0625": "\u0627", // إ
+  "\u0622": "\u0627", // آ
+  "\u0671": "\u0627", // ٱ
+  "\u0649": "\u064A", // ى
+  "\u0626": "\u064A", // ئ
+  "\u0624": "\u0648", // ؤ
+  "\u0629": "\u0647", // ة
+};
+
+const normalizeChar = (char: string): string =>
+  (ARABIC_LETTER_VARIANTS[char] ?? char)
+    .normalize("NFD")
+    .replace(LATIN_MARKS, "")
+    .replace(ARABIC_MARKS, "")
+    .toLowerCase();
+
+/**
+ * Folds text for matching: lowercases, strips Latin accents and Arabic
+ * diacritics, and unifies alef/yeh/teh marbuta variants.
+ */
+export function normalizeSearchText(text: string): string {
+  return Array.from(stripFootnoteTags(text ?? "")).map(normalizeChar).join("");
+}
+
+/**
+ * Splits a search query into normalized terms.
+ */
+export function tokenizeSearchQuery(query: string): string[] {
+  return normalizeSearchText(query)
+    .split(WORD_SEPARATORS)
+    .filter((term) => term.length > 0);
+}
+
+/**
+ * Reduces a root or lemma query such as "ك-ت-ب" to its bare normalized
+ * letters, dropping separators, diacritics and any non-Arabic characters.
+ */
+export function toArabicLetters(query: string): string {
+  return normalizeSearchText(query).replace(ARABIC_NON_LETTERS, "");
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Splits `text` into plain and matched segments for every word that starts
+ * with one of `terms`, comparing normalized forms so "musa" matches "Mūsā"
+ * and bare Arabic matches fully vowelled text. With `maxLength`, the result is
+ * trimmed to a window around the first match.
+ */
+export function highlightMatches(
+  text: string,
+  terms: string[],
+  maxLength?: number
+): HighlightSegment[] {
+  const source = stripFootnoteTags(text ?? "");
+  const chars = Array.from(source);
+
+  // Normalized string plus, for each normalized char, its source char index
+  let normalized = "";
+  const sourceIndex: number[] = [];
+  chars.forEach((char, index) => {
+    const folded = normalizeChar(char);
+    normalized += folded;
+    for (let i = 0; i < folded.length; i++) sourceIndex.push(index);
+  });
+
+  const matched = new Array<boolean>(chars.length).fill(false);
+  let firstMatch = -1;
+  terms.forEach((term) => {
+    let from = normalized.indexOf(term);
+    while (from !== -1) {
+      const atWordStart = from === 0 || WORD_SEPARATORS.test(normalized[from - 1]);
+      if (atWordStart) {
+        const start = sourceIndex[from];
+        let end = sourceIndex[from + term.length - 1];
+        // Keep diacritics on the last matched letter inside the highlight
+        while (end + 1 < chars.length && normalizeChar(chars[end + 1]) === "") end++;
+        for (let i = start; i <= end; i++) matched[i] = true;
+        if (firstMatch === -1 || start < firstMatch) firstMatch = start;
+      }
+      from = normalized.indexOf(term, from + term.length);
+    }
+  });
+
+  let start = 0;
+  let end = chars.length;
+  if (maxLength && chars.length > maxLength) {
+    start = Math.max(0, Math.max(firstMatch, 0) - Math.floor(maxLength / 3));
+    end = Math.min(chars.length, start + maxLength);
+  }
+
+  const segments: HighlightSegment[] = [];
+  for (let i = start; i < end; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.match === matched[i]) {
+      last.text += chars[i];
+    } else {
+      segments.push({ text: chars[i], match: matched[i] });
+    }
+  }
+  if (start > 0 && segments.length > 0) {
+    segments[0].text = `…${segments[0].text}`;
+  }
+  if (end < chars.length && segments.length > 0) {
+    segments[segments.length - 1].text += "…";
+  }
+  return segments;
+}
@@ -0,0 +1,106 @@
+export type TajweedRule =
+  | "hamzatWasl"
+  | "silent"
+  | "laamShamsiyah"
+  | "maddNormal"
+  | "maddPermissible"
+  | "maddNecessary"
+  | "maddObligatory"
+  | "qalqalah"
+  | "ikhfa"
+  | "ikhfaShafawi"
+  | "idghamGhunnah"
+  | "idghamNoGhunnah"
+  | "idghamShafawi"
+  | "idghamMutajanisayn"
+  | "idghamMutaqaribayn"
+  | "iqlab"
+  | "ghunnah";
+
+export interface TajweedSegment {
+  text: string;
+  // null for letters without a tajweed rule
+  rule: TajweedRule | null;
+}
+
+// Class names used in text_uthmani_tajweed markup
+const TAJWEED_CLASS_RULES: Record<string, TajweedRule> = {
+  ham_wasl: "hamzatWasl",
+  slnt: "silent",
+  laam_shamsiyah: "laamShamsiyah",
+  madda_normal: "maddNormal",
+  madda_permissible: "maddPermissible",
+  madda_necessary: "maddNecessary",
+  madda_obligatory: "maddObligatory",
+  qalaqah: "qalqalah",
+  ikhafa: "ikhfa",
+  ikhafa_shafawi: "ikhfaShafawi",
+  idgham_ghunnah: "idghamGhunnah",
+  idgham_wo_ghunnah: "idghamNoGhunnah",
+  idgham_shafawi: "idghamShafawi",
+  idgham_mutajanisayn: "idghamMutajanisayn",
+  idgham_mutaqaribayn: "idghamMutaqaribayn",
+  iqlab: "iqlab",
+  ghunnah: "ghunnah",
+};
+
+// Rules in legend order, with a short explanation of each
+export const TAJWEED_RULES: { rule: TajweedRule; name: string; description: string }[] = [
+  { rule: "ghunnah", name: "Ghunnah", description: "Nasal sound held for two counts on a doubled noon or meem." },
+  { rule: "qalqalah", name: "Qalqalah", description: "Echoing bounce on ق ط ب ج د when they carry a sukoon." },
+  { rule: "maddNormal", name: "Madd (natural)", description: "Natural lengthening of two counts." },
+  { rule: "maddPermissible", name: "Madd (permissible)", description: "Lengthening of two, four or six counts." },
+  { rule: "maddObligatory", name: "Madd (obligatory)", description: "Lengthening of four or five counts before a hamza in the same word." },
+  { rule: "maddNecessary", name: "Madd (necessary)", description: "Lengthening of six counts before a sukoon or shaddah." },
+  { rule: "ikhfa", name: "Ikhfa", description: "Noon sakinah or tanween hidden with ghunnah before one of fifteen letters." },
+  { rule: "ikhfaShafawi", name: "Ikhfa shafawi", description: "Meem sakinah hidden with ghunnah before ب." },
+  { rule: "idghamGhunnah", name: "Idgham with ghunnah", description: "Noon sakinah or tanween merged into ي ن م و with ghunnah." },
+  { rule: "idghamNoGhunnah", name: "Idgham without ghunnah", description: "Noon sakinah or tanween merged into ل or ر without ghunnah." },
+  { rule: "idghamShafawi", name: "Idgham shafawi", description: "Meem sakinah merged into a following meem." },
+  { rule: "idghamMutajanisayn", name: "Idgham mutajanisayn", description: "Merging of two letters from the same point of articulation." },
+  { rule: "idghamMutaqaribayn", name: "Idgham mutaqaribayn", description: "Merging of two letters with close points of articulation." },
+  { rule: "iqlab", name: "Iqlab", description: "Noon sakinah or tanween turned into a meem before ب." },
+  { rule: "hamzatWasl", name: "Hamzat al-wasl", description: "Connecting hamza, not pronounced when continuing from the previous word." },
+  { rule: "laamShamsiyah", name: "Laam shamsiyah", description: "Silent laam of the definite article before a sun letter." },
+  { rule: "silent", name: "Silent", description: "Written but not pronounced." },
+];
+
+const TAG_PATTERN = /<(tajweed|span)\s+class=["']?([\w-]+)["']?>([\s\S]*?)<\/\1>/g;
+const ANY_TAG = /<[^>]+>/g;
+
+/**
+ * Splits text_uthmani_tajweed markup into rule-tagged segments. Verse-end
+ * markers are dropped because the reader shows verse numbers itself.
+ */
+export function parseTajweed(markup: string): TajweedSegment[] {
+  const segments: TajweedSegment[] = [];
+  const push = (raw: string, rule: TajweedRule | null) => {
+    const text = raw.replace(ANY_TAG, "");
+    if (!text) return;
+    const last = segments[segments.length - 1];
+    if (last && last.rule === rule) {
+      last.text += text;
+    } else {
+      segments.push({ text, rule });
+    }
+  };
+
+  let lastIndex = 0;
+  for (const match of markup.matchAll(TAG_PATTERN)) {
+    const [tag, , className, text] = match;
+    const index = match.index ?? 0;
+    push(markup.slice(lastIndex, index), null);
+    if (className !== "end") {
+      push(text, TAJWEED_CLASS_RULES[className] ?? null);
+    }
+    lastIndex = index + tag.length;
+  }
+  push(markup.slice(lastIndex), null);
+
+  const last = segments[segments.length - 1];
+  if (last) {
+    last.text = last.text.trimEnd();
+    if (!last.text) segments.pop();
+  }
+  return segments;
+}
@@ -0,0 +1,14 @@
+/**
+ * Turns a theme name into the slug used in theme links, e.g.
+ * "The Story of Adam (AS)" becomes "the-story-of-adam-as". Slugs come from the
+ * English name so a link resolves whatever language the reader uses.
+ */
+export function toThemeSlug(name: string): string {
+  return (name ?? "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
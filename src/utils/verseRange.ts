@@ -0,0 +1,24 @@
+export interface VerseRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Reads a verse link segment, either a single verse ("255") or a range
+ * ("255-257"). Reversed ranges are put in order.
+ */
+export function parseVerseRange(value: string | undefined): VerseRange | null {
+  const match = /^(\d+)(?:-(\d+))?$/.exec((value ?? "").trim());
+  if (!match) return null;
+  const first = parseInt(match[1], 10);
+  const last = match[2] ? parseInt(match[2], 10) : first;
+  if (first < 1 || last < 1) return null;
+  return { start: Math.min(first, last), end: Math.max(first, last) };
+}
+
+/**
+ * Formats a range the way it appears in links: "255" or "255-257".
+ */
+export function formatVerseRange({ start, end }: VerseRange): string {
+  return start === end ? `${start}` : `${start}-${end}`;
+}